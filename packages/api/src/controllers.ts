@@ -3,14 +3,231 @@
  */
 
 import { Request, Response } from 'express';
-import { GitHubETL } from '@github-rag-system/etl';
-import { VectorDBConfig, UseCase } from '@github-rag-system/common';
+import {
+  GitHubETL,
+  ModelClassifier,
+  RuleBasedClassifier,
+  parseRepositorySource,
+  InvalidRepositorySourceError,
+  isValidRefName,
+  validateFileSelection
+} from '@github-rag-system/etl';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createEmbeddingProvider,
+  createChatProvider,
+  FileEmbeddingCache,
+  validateSearchFilter,
+  repositoryId
+} from '@github-rag-system/db';
+import {
+  VectorDBConfig,
+  UseCase,
+  EmbeddingProviderConfig,
+  ChatProviderConfig,
+  ChatProvider,
+  SearchMode,
+  FusionMethod,
+  SearchFilter,
+  JobStatus,
+  SearchRequest,
+  GitCredentials,
+  HttpCredential,
+  RepositorySource,
+  WorkDirCleanup,
+  LanguageDefinition,
+  AskRequest,
+  QueryClassifier,
+  Job,
+  ProcessRepositoryJobRequest
+} from '@github-rag-system/common';
+import { JobQueue } from './jobs';
+import { openEventStream } from './sse';
+
+/**
+ * Job states accepted when listing jobs
+ */
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+/**
+ * Maximum number of refs in one comparison
+ */
+const MAX_COMPARED_REFS = 10;
+
+/**
+ * Accepted working directory cleanup modes
+ */
+const CLEANUP_MODES: WorkDirCleanup[] = ['keep', 'worktree', 'all'];
+
+/**
+ * Reads a positive integer from the environment, failing at startup rather
+ * than running with a NaN setting
+ * @param name The variable name
+ * @returns The value, or undefined if the variable is not set
+ */
+function getPositiveIntegerEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value.trim()) || parseInt(value) <= 0) {
+    throw new Error(`${name} must be a positive integer, got: ${value}`);
+  }
+  return parseInt(value);
+}
+
+/**
+ * Reads the embedding provider configuration from the environment, using the
+ * offline local embedder when no OpenAI API key is available
+ */
+function getEmbeddingConfig(): EmbeddingProviderConfig {
+  const providerType = process.env.EMBEDDING_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+  const dimensions = getPositiveIntegerEnv('EMBEDDING_DIMENSIONS');
+
+  switch (providerType) {
+    case 'openai':
+      return {
+        type: 'openai',
+        apiKey: process.env.OPENAI_API_KEY || '',
+        model: process.env.OPENAI_MODEL || 'text-embedding-3-small',
+        dimensions,
+      };
+    case 'http':
+      return {
+        type: 'http',
+        baseUrl: process.env.EMBEDDING_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.EMBEDDING_MODEL || 'nomic-embed-text',
+        dimensions: dimensions || 768,
+        apiKey: process.env.EMBEDDING_API_KEY,
+      };
+    case 'local':
+      return { type: 'local', dimensions };
+    default:
+      throw new Error(`Unknown embedding provider: ${providerType}`);
+  }
+}
+
+/**
+ * Reads the chat provider configuration from the environment. Features that
+ * need a chat model, such as summaries, are disabled when CHAT_PROVIDER is not set.
+ */
+function getChatConfig(): ChatProviderConfig | undefined {
+  const providerType = process.env.CHAT_PROVIDER;
+
+  switch (providerType) {
+    case undefined:
+    case '':
+      return undefined;
+    case 'openai':
+      return {
+        type: 'openai',
+        apiKey: process.env.OPENAI_API_KEY || '',
+        model: process.env.CHAT_MODEL || 'gpt-4o-mini',
+      };
+    case 'http':
+      return {
+        type: 'http',
+        baseUrl: process.env.CHAT_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.CHAT_MODEL || 'llama3.1',
+        apiKey: process.env.CHAT_API_KEY,
+      };
+    case 'stub':
+      return { type: 'stub' };
+    default:
+      throw new Error(`Unknown chat provider: ${providerType}`);
+  }
+}
+
+/**
+ * Reads the classifier for the use case `auto` from the environment:
+ * `rules` (the default) or `model`, which uses the chat model
+ */
+function getQueryClassifier(chatProvider?: ChatProvider): QueryClassifier {
+  const classifier = process.env.USE_CASE_CLASSIFIER || 'rules';
+
+  switch (classifier) {
+    case 'rules':
+      return new RuleBasedClassifier();
+    case 'model':
+      if (!chatProvider) {
+        throw new Error('USE_CASE_CLASSIFIER=model requires a chat provider; set CHAT_PROVIDER');
+      }
+      return new ModelClassifier(chatProvider);
+    default:
+      throw new Error(`Unknown USE_CASE_CLASSIFIER: ${classifier}`);
+  }
+}
+
+/**
+ * Reads git credentials from the environment. GIT_TOKENS lists access tokens
+ * per host as `host=token` or `host=username:token`, separated by commas.
+ */
+function getGitCredentials(): GitCredentials {
+  const tokens: Record<string, HttpCredential> = {};
+  for (const entry of (process.env.GIT_TOKENS || '').split(',')) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+    const host = entry.slice(0, separator).trim().toLowerCase();
+    const value = entry.slice(separator + 1).trim();
+    const colon = value.indexOf(':');
+    tokens[host] = colon > 0
+      ? { username: value.slice(0, colon), token: value.slice(colon + 1) }
+      : { token: value };
+  }
+
+  return {
+    tokens,
+    sshKeyPath: process.env.GIT_SSH_KEY_PATH,
+    strictHostKeyChecking: process.env.GIT_SSH_STRICT_HOST_KEY_CHECKING === 'true',
+  };
+}
+
+/**
+ * Reads the working directory cleanup mode from the environment
+ */
+function getWorkDirCleanup(): WorkDirCleanup {
+  const cleanup = (process.env.WORK_DIR_CLEANUP || 'keep') as WorkDirCleanup;
+  if (!CLEANUP_MODES.includes(cleanup)) {
+    throw new Error(`Unknown WORK_DIR_CLEANUP mode: ${cleanup}`);
+  }
+  return cleanup;
+}
+
+/**
+ * Reads additional language definitions from the JSON file named by LANGUAGES_FILE
+ */
+function getLanguages(): LanguageDefinition[] | undefined {
+  if (!process.env.LANGUAGES_FILE) {
+    return undefined;
+  }
+
+  const languages = JSON.parse(fs.readFileSync(process.env.LANGUAGES_FILE, 'utf-8'));
+  if (!Array.isArray(languages) || !languages.every(language => typeof language?.id === 'string' && language.id)) {
+    throw new Error(`${process.env.LANGUAGES_FILE} must contain an array of languages with an id`);
+  }
+  return languages;
+}
+
+// Local paths give API clients access to the server's file system, so they
+// must be enabled explicitly
+const allowLocalRepositories = process.env.ALLOW_LOCAL_REPOSITORIES === 'true';
+
+// Embedding provider
+const embeddingProvider = createEmbeddingProvider(getEmbeddingConfig());
+
+// Chat provider, if one is configured
+const chatConfig = getChatConfig();
+const chatProvider = chatConfig && createChatProvider(chatConfig);
 
 // DB Configuration
 const dbConfig: VectorDBConfig = {
   connection: {
     host: process.env.OPENSEARCH_HOST || 'localhost',
-    port: parseInt(process.env.OPENSEARCH_PORT || '9200'),
+    port: getPositiveIntegerEnv('OPENSEARCH_PORT') ?? 9200,
     ssl: process.env.OPENSEARCH_SSL === 'true',
     auth: process.env.OPENSEARCH_USERNAME ? {
       username: process.env.OPENSEARCH_USERNAME,
@@ -19,80 +236,866 @@ const dbConfig: VectorDBConfig = {
   },
   index: {
     name: process.env.OPENSEARCH_INDEX || 'github-rag',
-    dimensions: 1536, // Default for many embedding models
+    dimensions: embeddingProvider.dimensions,
+  },
+  embedding: {
+    maxBatchSize: getPositiveIntegerEnv('EMBEDDING_BATCH_SIZE'),
+    concurrency: getPositiveIntegerEnv('EMBEDDING_CONCURRENCY'),
+    tokensPerMinute: getPositiveIntegerEnv('EMBEDDING_TOKENS_PER_MINUTE'),
   },
 };
 
+// Embedding cache, shared across repositories and runs
+const embeddingCacheMaxMb = getPositiveIntegerEnv('EMBEDDING_CACHE_MAX_MB');
+const embeddingCache = process.env.EMBEDDING_CACHE === 'off'
+  ? undefined
+  : new FileEmbeddingCache({
+      directory: process.env.EMBEDDING_CACHE_DIR || path.join(os.tmpdir(), 'github-rag-system', 'embedding-cache'),
+      maxBytes: embeddingCacheMaxMb && embeddingCacheMaxMb * 1024 * 1024,
+    });
+
 // Create ETL processor
-const etl = new GitHubETL(dbConfig);
+const workDirQuotaMb = getPositiveIntegerEnv('WORK_DIR_QUOTA_MB');
+const etl = new GitHubETL(dbConfig, embeddingProvider, {
+  embeddingCache,
+  credentials: getGitCredentials(),
+  clone: {
+    depth: getPositiveIntegerEnv('CLONE_DEPTH'),
+    sparse: process.env.SPARSE_CHECKOUT ? process.env.SPARSE_CHECKOUT === 'true' : undefined,
+  },
+  batchSize: getPositiveIntegerEnv('INDEX_BATCH_SIZE'),
+  cleanup: getWorkDirCleanup(),
+  languages: getLanguages(),
+  chatProvider,
+  conversationsFile: process.env.CONVERSATIONS_FILE,
+  queryClassifier: getQueryClassifier(chatProvider),
+  workDirQuota: workDirQuotaMb && workDirQuotaMb * 1024 * 1024,
+});
+
+// Ingestion job queue, persisted so that jobs survive restarts
+const jobQueue = new JobQueue(
+  async (request, signal, onProgress) => {
+    // Initialize the database if needed
+    await etl.initializeDatabase();
+    return etl.processRepository(request.repositoryUrl, {
+      ref: request.ref,
+      fullRebuild: request.fullRebuild,
+      fileSelection: request.fileSelection,
+      clone: request.clone,
+      summarize: request.summarize,
+      signal,
+      onProgress,
+    });
+  },
+  {
+    filePath: process.env.JOBS_FILE || path.join(os.tmpdir(), 'github-rag-system', 'jobs.json'),
+    concurrency: getPositiveIntegerEnv('JOB_CONCURRENCY'),
+  }
+);
+
+/**
+ * Validates a repository processing request body and converts it into job parameters
+ * @param body The request body
+ * @returns The job parameters, or the status and error to respond with
+ */
+function parseProcessRequest(body: any):
+  { request: ProcessRepositoryJobRequest } | { status: number; error: Record<string, unknown> } {
+  const { repositoryUrl, ref, branch, fullRebuild, fileSelection, clone, summarize } = body;
+  
+  if (!repositoryUrl) {
+    return { status: 400, error: { error: 'Repository URL is required' } };
+  }
+  
+  if ((ref !== undefined && typeof ref !== 'string') || (branch !== undefined && typeof branch !== 'string')) {
+    return { status: 400, error: { error: 'ref must be a branch, tag or commit name' } };
+  }
+  
+  if ((ref || branch) && !isValidRefName(ref || branch)) {
+    return { status: 400, error: { error: `Invalid ref name: ${ref || branch}` } };
+  }
+  
+  if (fileSelection !== undefined) {
+    const errors = validateFileSelection(fileSelection);
+    if (errors.length > 0) {
+      return { status: 400, error: { error: 'Invalid fileSelection', details: errors } };
+    }
+  }
+  
+  if (clone !== undefined) {
+    if (typeof clone !== 'object' || clone === null || Array.isArray(clone)) {
+      return { status: 400, error: { error: 'clone must be an object' } };
+    }
+    if (clone.depth !== undefined && (!Number.isInteger(clone.depth) || clone.depth < 1)) {
+      return { status: 400, error: { error: 'clone.depth must be a positive integer' } };
+    }
+    if (clone.sparse !== undefined && typeof clone.sparse !== 'boolean') {
+      return { status: 400, error: { error: 'clone.sparse must be a boolean' } };
+    }
+  }
+  
+  if (summarize !== undefined && typeof summarize !== 'boolean') {
+    return { status: 400, error: { error: 'summarize must be a boolean' } };
+  }
+  
+  if (summarize && !chatProvider) {
+    return { status: 400, error: { error: 'Summaries require a chat provider; set CHAT_PROVIDER to enable them' } };
+  }
+  
+  if (typeof repositoryUrl !== 'string') {
+    return { status: 400, error: { error: 'Repository URL must be a string' } };
+  }
+  
+  let source: RepositorySource;
+  try {
+    source = parseRepositorySource(repositoryUrl);
+  } catch (error) {
+    if (error instanceof InvalidRepositorySourceError) {
+      return { status: 400, error: { error: error.message } };
+    }
+    throw error;
+  }
+  
+  if (source.kind === 'local' && !allowLocalRepositories) {
+    return { status: 403, error: { error: 'Local repositories are disabled; set ALLOW_LOCAL_REPOSITORIES=true to enable them' } };
+  }
+  
+  return {
+    request: {
+      // Relative paths are resolved now, as the job may run after a restart
+      repositoryUrl: source.kind === 'local' ? source.url : repositoryUrl,
+      ref: ref || branch || undefined,
+      fullRebuild: fullRebuild === true,
+      fileSelection,
+      clone: clone && { depth: clone.depth, sparse: clone.sparse },
+      summarize: summarize === true || undefined,
+    },
+  };
+}
 
 /**
- * Process a GitHub repository
+ * Submit a GitHub repository for processing in the background
  */
 export async function processRepository(req: Request, res: Response) {
   try {
-    const { repositoryUrl, branch } = req.body;
+    const parsed = parseProcessRequest(req.body);
+    if ('error' in parsed) {
+      return res.status(parsed.status).json(parsed.error);
+    }
     
-    if (!repositoryUrl) {
-      return res.status(400).json({ error: 'Repository URL is required' });
+    const job = jobQueue.submit(parsed.request);
+    
+    return res.status(202).json({
+      success: true,
+      message: `Queued repository for processing: ${req.body.repositoryUrl}`,
+      jobId: job.id,
+      job,
+    });
+  } catch (error) {
+    console.error('Failed to submit repository:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to submit repository',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Submit a repository for processing and stream the job's progress as
+ * server-sent events. Disconnecting cancels the job.
+ */
+export async function processRepositoryStream(req: Request, res: Response) {
+  try {
+    const parsed = parseProcessRequest(req.body);
+    if ('error' in parsed) {
+      return res.status(parsed.status).json(parsed.error);
     }
     
-    // Initialize the database if needed
-    await etl.initializeDatabase();
+    streamJob(res, jobQueue.submit(parsed.request), true);
+  } catch (error) {
+    console.error('Failed to submit repository:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to submit repository',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * List ingestion jobs, optionally filtered by status
+ */
+export async function listJobs(req: Request, res: Response) {
+  const status = req.query.status as JobStatus | undefined;
+  
+  if (status !== undefined && !JOB_STATUSES.includes(status)) {
+    return res.status(400).json({
+      error: 'Invalid job status',
+      validStatuses: JOB_STATUSES,
+    });
+  }
+  
+  return res.status(200).json({
+    success: true,
+    jobs: jobQueue.list(status),
+  });
+}
+
+/**
+ * Get the status and progress of an ingestion job
+ */
+export async function getJob(req: Request, res: Response) {
+  const job = jobQueue.get(req.params.id);
+  
+  if (!job) {
+    return res.status(404).json({ error: `Job not found: ${req.params.id}` });
+  }
+  
+  return res.status(200).json({
+    success: true,
+    job,
+  });
+}
+
+/**
+ * Stream the status and progress of an ingestion job as server-sent events.
+ * Disconnecting stops the stream but not the job.
+ */
+export async function streamJobEvents(req: Request, res: Response) {
+  const job = jobQueue.get(req.params.id);
+  
+  if (!job) {
+    return res.status(404).json({ error: `Job not found: ${req.params.id}` });
+  }
+  
+  streamJob(res, job, false);
+}
+
+/**
+ * Streams a job as server-sent events: `status` when it is queued or starts
+ * running, `progress` with each progress update, and finally `completed`,
+ * `failed` or `cancelled`, after which the stream ends
+ * @param res The response to stream to
+ * @param job The job
+ * @param cancelOnDisconnect Whether the job is cancelled when the client disconnects first
+ */
+function streamJob(res: Response, job: Job, cancelOnDisconnect: boolean): void {
+  const stream = openEventStream(res);
+  let status = job.status;
+  
+  const send = (job: Job) => {
+    if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+      stream.send(job.status, { job });
+      unsubscribe();
+      stream.end();
+    } else if (job.status !== status) {
+      status = job.status;
+      stream.send('status', { job });
+    } else if (job.progress) {
+      stream.send('progress', { jobId: job.id, progress: job.progress });
+    }
+  };
+  
+  const unsubscribe = jobQueue.subscribe(job.id, send);
+  stream.signal.addEventListener('abort', () => {
+    unsubscribe();
+    if (cancelOnDisconnect) {
+      jobQueue.cancel(job.id);
+    }
+  });
+  
+  if (job.status === 'queued' || job.status === 'running') {
+    stream.send('status', { job });
+  } else {
+    send(job);
+  }
+}
+
+/**
+ * Cancel a queued or running ingestion job
+ */
+export async function cancelJob(req: Request, res: Response) {
+  const existing = jobQueue.get(req.params.id);
+  
+  if (!existing) {
+    return res.status(404).json({ error: `Job not found: ${req.params.id}` });
+  }
+  
+  if (existing.status !== 'queued' && existing.status !== 'running') {
+    return res.status(409).json({ error: `Job has already ${existing.status === 'cancelled' ? 'been cancelled' : existing.status}` });
+  }
+  
+  const job = jobQueue.cancel(req.params.id);
+  
+  // Running jobs stop at their next checkpoint, so report the request as accepted
+  return res.status(job?.status === 'cancelled' ? 200 : 202).json({
+    success: true,
+    job,
+  });
+}
+
+/**
+ * Validates a search request body and converts it into search parameters
+ * @param body The request body
+ * @returns The search request, or the error to respond with
+ */
+function parseSearchRequest(body: any): { request: SearchRequest } | { error: Record<string, unknown> } {
+  const { query, useCase, limit, minScore, filters, expandContext, mode, hybrid } = body;
+  
+  if (!query) {
+    return { error: { error: 'Search query is required' } };
+  }
+  
+  const useCases: unknown[] = Array.isArray(useCase) ? useCase : [useCase];
+  if (useCase !== 'auto' && (useCases.length === 0 ||
+      !useCases.every(value => Object.values(UseCase).includes(value as UseCase)))) {
+    return {
+      error: {
+        error: 'Valid use case is required: one use case, an array of use cases, or auto',
+        validUseCases: [...Object.values(UseCase), 'auto'],
+      },
+    };
+  }
+  
+  if (expandContext !== undefined && typeof expandContext !== 'boolean' &&
+      (typeof expandContext !== 'object' || expandContext === null || Array.isArray(expandContext))) {
+    return { error: { error: 'expandContext must be a boolean or an object with a tokenBudget' } };
+  }
+  
+  const tokenBudget = typeof expandContext === 'object' ? expandContext?.tokenBudget : undefined;
+  if (tokenBudget !== undefined && (!Number.isInteger(tokenBudget) || tokenBudget < 1)) {
+    return { error: { error: 'expandContext.tokenBudget must be a positive integer' } };
+  }
+  
+  if (minScore !== undefined && (typeof minScore !== 'number' || !Number.isFinite(minScore))) {
+    return { error: { error: 'minScore must be a number' } };
+  }
+  
+  if (filters !== undefined) {
+    const filterErrors = validateSearchFilter(filters);
+    if (filterErrors.length > 0) {
+      return { error: { error: 'Invalid filters', details: filterErrors } };
+    }
+  }
+  
+  if (mode !== undefined && !Object.values(SearchMode).includes(mode as SearchMode)) {
+    return {
+      error: {
+        error: 'Invalid search mode',
+        validModes: Object.values(SearchMode),
+      },
+    };
+  }
+  
+  if (hybrid !== undefined && (typeof hybrid !== 'object' || hybrid === null || Array.isArray(hybrid))) {
+    return { error: { error: 'hybrid must be an object' } };
+  }
+  
+  if (hybrid?.fusion !== undefined && !Object.values(FusionMethod).includes(hybrid.fusion as FusionMethod)) {
+    return {
+      error: {
+        error: 'Invalid fusion method',
+        validFusionMethods: Object.values(FusionMethod),
+      },
+    };
+  }
+  
+  for (const name of ['vectorWeight', 'keywordWeight']) {
+    const weight = hybrid?.[name];
+    if (weight !== undefined && (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0)) {
+      return { error: { error: `hybrid.${name} must be a non-negative number` } };
+    }
+  }
+  
+  if (hybrid?.rankConstant !== undefined &&
+      (typeof hybrid.rankConstant !== 'number' || !Number.isFinite(hybrid.rankConstant) || hybrid.rankConstant <= 0)) {
+    return { error: { error: 'hybrid.rankConstant must be a positive number' } };
+  }
+  
+  if (hybrid?.candidates !== undefined && (!Number.isInteger(hybrid.candidates) || hybrid.candidates < 1)) {
+    return { error: { error: 'hybrid.candidates must be a positive integer' } };
+  }
+  
+  return {
+    request: {
+      query,
+      useCase: useCase as UseCase | UseCase[] | 'auto',
+      limit: limit ? parseInt(limit.toString()) : undefined,
+      minScore,
+      filters: filters as SearchFilter | undefined,
+      mode: mode as SearchMode | undefined,
+      hybrid: hybrid ? {
+        fusion: hybrid.fusion as FusionMethod | undefined,
+        vectorWeight: hybrid.vectorWeight,
+        keywordWeight: hybrid.keywordWeight,
+        rankConstant: hybrid.rankConstant,
+        candidates: hybrid.candidates,
+      } : undefined,
+      expandContext: expandContext === true
+        ? {}
+        : expandContext
+          ? { tokenBudget }
+          : undefined,
+    },
+  };
+}
+
+/**
+ * Search for relevant code based on a natural language query
+ */
+export async function search(req: Request, res: Response) {
+  const signal = abortOnClose(res);
+  try {
+    const parsed = parseSearchRequest(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json(parsed.error);
+    }
     
-    // Start processing (this could be moved to a background job in production)
-    const result = await etl.processRepository(repositoryUrl, branch);
+    // Perform the search
+    const results = await etl.search(parsed.request, signal);
     
     return res.status(200).json({
       success: true,
-      message: `Successfully processed repository: ${repositoryUrl}`,
-      chunksIndexed: result,
+      results,
     });
   } catch (error) {
-    console.error('Failed to process repository:', error);
+    // A client that went away gets no response
+    if (signal.aborted) {
+      return;
+    }
+    console.error('Search failed:', error);
     return res.status(500).json({
       success: false,
-      error: 'Failed to process repository',
+      error: 'Search failed',
       message: error instanceof Error ? error.message : String(error),
     });
   }
 }
 
 /**
- * Search for relevant code based on a natural language query
+ * Validates a question request body and converts it into question parameters
+ * @param body The request body
+ * @returns The question, or the error to respond with
  */
-export async function search(req: Request, res: Response) {
+function parseAskRequest(body: any): { request: AskRequest } | { error: Record<string, unknown> } {
+  const parsed = parseSearchRequest(body);
+  if ('error' in parsed) {
+    return parsed;
+  }
+  
+  const { maxContextTokens, maxAnswerTokens } = body;
+  for (const [name, value] of Object.entries({ maxContextTokens, maxAnswerTokens })) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      return { error: { error: `${name} must be a positive integer` } };
+    }
+  }
+  
+  return { request: { ...parsed.request, maxContextTokens, maxAnswerTokens } };
+}
+
+/**
+ * Prepares a response to a question: responds with 503 when no chat provider
+ * is configured, and otherwise returns a signal that stops retrieval and
+ * generation when the client goes away
+ * @param res The response
+ * @returns The abort signal, or undefined if the response has been sent
+ */
+function startAnswer(res: Response): AbortSignal | undefined {
+  if (!chatProvider) {
+    res.status(503).json({ error: 'Answer generation requires a chat provider; set CHAT_PROVIDER to enable it' });
+    return undefined;
+  }
+  
+  return abortOnClose(res);
+}
+
+/**
+ * Creates a signal that stops work for a request when its client goes away
+ * @param res The response
+ * @returns The abort signal
+ */
+function abortOnClose(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  return controller.signal;
+}
+
+/**
+ * Answer a question from the code retrieved for it, citing the retrieved chunks
+ */
+export async function ask(req: Request, res: Response) {
+  const signal = startAnswer(res);
+  if (!signal) {
+    return;
+  }
+  
   try {
-    const { query, useCase, limit } = req.body;
+    const parsed = parseAskRequest(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json(parsed.error);
+    }
+    
+    const result = await etl.ask(parsed.request, signal);
     
-    if (!query) {
-      return res.status(400).json({ error: 'Search query is required' });
+    return res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    // A client that went away gets no response
+    if (signal.aborted) {
+      return;
+    }
+    console.error('Answer generation failed:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Answer generation failed',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Answer a question as server-sent events: `citations` once code is retrieved,
+ * `token` for each fragment of the answer, then `done` with the complete
+ * answer, or `error`. Disconnecting stops retrieval and generation.
+ */
+export async function askStream(req: Request, res: Response) {
+  const signal = startAnswer(res);
+  if (!signal) {
+    return;
+  }
+  
+  const parsed = parseAskRequest(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json(parsed.error);
+  }
+  
+  const stream = openEventStream(res);
+  try {
+    for await (const event of etl.askStream(parsed.request, signal)) {
+      if (event.type === 'citations') {
+        stream.send('citations', { citations: event.citations });
+      } else if (event.type === 'token') {
+        stream.send('token', { text: event.text });
+      } else {
+        stream.send('done', { success: true, ...event.result });
+      }
+    }
+  } catch (error) {
+    if (!signal.aborted) {
+      console.error('Answer generation failed:', error);
+      stream.send('error', {
+        success: false,
+        error: 'Answer generation failed',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  } finally {
+    stream.end();
+  }
+}
+
+/**
+ * Start a conversation about a set of indexed repositories
+ */
+export async function createConversation(req: Request, res: Response) {
+  try {
+    const { repositories, title } = req.body;
+    
+    if (!Array.isArray(repositories) || repositories.length === 0 ||
+        repositories.some(repository => typeof repository !== 'string')) {
+      return res.status(400).json({ error: 'repositories must be a non-empty array of repository URLs' });
     }
     
-    if (!useCase || !Object.values(UseCase).includes(useCase as UseCase)) {
-      return res.status(400).json({ 
-        error: 'Valid use case is required',
-        validUseCases: Object.values(UseCase),
+    if (title !== undefined && typeof title !== 'string') {
+      return res.status(400).json({ error: 'title must be a string' });
+    }
+    
+    const urls: string[] = [];
+    for (const repository of repositories) {
+      let url: string;
+      try {
+        url = parseRepositorySource(repository).url;
+      } catch (error) {
+        if (error instanceof InvalidRepositorySourceError) {
+          return res.status(400).json({ error: error.message });
+        }
+        throw error;
+      }
+      if (!await etl.getRepository(repositoryId(url))) {
+        return res.status(400).json({ error: `Repository is not indexed: ${repository}` });
+      }
+      urls.push(url);
+    }
+    
+    return res.status(201).json({
+      success: true,
+      conversation: etl.createConversation(urls, title || undefined),
+    });
+  } catch (error) {
+    console.error('Failed to create conversation:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create conversation',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * List conversations, most recently active first
+ */
+export async function listConversations(req: Request, res: Response) {
+  return res.status(200).json({
+    success: true,
+    conversations: etl.listConversations(),
+  });
+}
+
+/**
+ * Get a conversation with its questions and answers
+ */
+export async function getConversation(req: Request, res: Response) {
+  const conversation = etl.getConversation(req.params.id);
+  
+  if (!conversation) {
+    return res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+  }
+  
+  return res.status(200).json({
+    success: true,
+    conversation,
+  });
+}
+
+/**
+ * Delete a conversation
+ */
+export async function deleteConversation(req: Request, res: Response) {
+  if (!etl.deleteConversation(req.params.id)) {
+    return res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+  }
+  
+  return res.status(200).json({
+    success: true,
+    message: `Deleted conversation: ${req.params.id}`,
+  });
+}
+
+/**
+ * Ask a question in a conversation, resolving follow-ups against the earlier
+ * questions and answers
+ */
+export async function askInConversation(req: Request, res: Response) {
+  const signal = startAnswer(res);
+  if (!signal) {
+    return;
+  }
+  
+  try {
+    if (!etl.getConversation(req.params.id)) {
+      return res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+    }
+    
+    const parsed = parseAskRequest(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json(parsed.error);
+    }
+    
+    const result = await etl.askInConversation(req.params.id, parsed.request, signal);
+    
+    return res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    // A client that went away gets no response
+    if (signal.aborted) {
+      return;
+    }
+    console.error('Answer generation failed:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Answer generation failed',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Run the same search against several refs and compare the results
+ */
+export async function compareRefs(req: Request, res: Response) {
+  const signal = abortOnClose(res);
+  try {
+    const { refs } = req.body;
+    
+    if (
+      !Array.isArray(refs) ||
+      refs.length < 2 ||
+      refs.length > MAX_COMPARED_REFS ||
+      refs.some(ref => typeof ref !== 'string')
+    ) {
+      return res.status(400).json({
+        error: `refs must be an array of 2 to ${MAX_COMPARED_REFS} ref names (an empty ref selects the default branch)`
       });
     }
     
-    // Perform the search
-    const results = await etl.search(
-      query, 
-      useCase as UseCase, 
-      limit ? parseInt(limit.toString()) : undefined
-    );
+    const parsed = parseSearchRequest(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json(parsed.error);
+    }
+    
+    const comparison = await etl.compareRefs(parsed.request, [...new Set<string>(refs)], signal);
     
     return res.status(200).json({
       success: true,
-      results,
+      ...comparison,
     });
   } catch (error) {
-    console.error('Search failed:', error);
+    // A client that went away gets no response
+    if (signal.aborted) {
+      return;
+    }
+    console.error('Ref comparison failed:', error);
     return res.status(500).json({
       success: false,
-      error: 'Search failed',
+      error: 'Ref comparison failed',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Get a single chunk by its stable ID
+ */
+export async function getChunk(req: Request, res: Response) {
+  try {
+    const chunk = await etl.getChunk(req.params.id);
+    
+    if (!chunk) {
+      return res.status(404).json({ error: `Chunk not found: ${req.params.id}` });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      chunk,
+    });
+  } catch (error) {
+    console.error('Failed to get chunk:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get chunk',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * List all indexed repositories
+ */
+export async function listRepositories(req: Request, res: Response) {
+  try {
+    const repositories = await etl.listRepositories();
+    
+    return res.status(200).json({
+      success: true,
+      repositories,
+    });
+  } catch (error) {
+    console.error('Failed to list repositories:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to list repositories',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Get an indexed repository with its branches, commits and statistics
+ */
+export async function getRepository(req: Request, res: Response) {
+  try {
+    const repository = await etl.getRepository(req.params.id);
+    
+    if (!repository) {
+      return res.status(404).json({ error: `Repository not found: ${req.params.id}` });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      repository,
+    });
+  } catch (error) {
+    console.error('Failed to get repository:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get repository',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Delete an indexed repository and all of its chunks, or only one ref with `?ref=`
+ * (an empty ref selects the default branch)
+ */
+export async function deleteRepository(req: Request, res: Response) {
+  try {
+    const repository = await etl.getRepository(req.params.id);
+    
+    if (!repository) {
+      return res.status(404).json({ error: `Repository not found: ${req.params.id}` });
+    }
+    
+    const refParam = req.query.ref;
+    if (refParam !== undefined && typeof refParam !== 'string') {
+      return res.status(400).json({ error: 'ref must be a single branch, tag or commit name' });
+    }
+    if (refParam && !isValidRefName(refParam)) {
+      return res.status(400).json({ error: `Invalid ref name: ${refParam}` });
+    }
+    const ref = refParam === undefined ? undefined : refParam || null;
+    
+    const activeJob = [...jobQueue.list('queued'), ...jobQueue.list('running')]
+      .find(job => {
+        let url: string;
+        try {
+          url = parseRepositorySource(job.request.repositoryUrl).url;
+        } catch {
+          // Invalid locations fail when the job runs and never match an indexed repository
+          return false;
+        }
+        return url === repository.url && (ref === undefined || (job.request.ref || null) === ref);
+      });
+    if (activeJob) {
+      return res.status(409).json({
+        error: 'Repository is being processed; cancel the job or wait for it to finish',
+        jobId: activeJob.id,
+      });
+    }
+    
+    const chunksDeleted = await etl.deleteRepository(req.params.id, ref);
+    
+    if (chunksDeleted === null) {
+      return res.status(404).json({ error: `Ref not found: ${ref ?? '(default branch)'}` });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: ref === undefined
+        ? `Deleted repository: ${repository.url}`
+        : `Deleted ref ${ref ?? '(default branch)'} of repository: ${repository.url}`,
+      chunksDeleted,
+    });
+  } catch (error) {
+    console.error('Failed to delete repository:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete repository',
       message: error instanceof Error ? error.message : String(error),
     });
   }
-}
\ No newline at end of file
+}
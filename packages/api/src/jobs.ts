@@ -0,0 +1,298 @@
+/**
+ * Background job queue for repository ingestion
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  Job,
+  JobStatus,
+  ProcessingProgress,
+  ProcessRepositoryJobRequest,
+  ProcessRepositoryResult
+} from '@github-rag-system/common';
+import { parseRepositorySource, readJsonFile, writeJsonFile } from '@github-rag-system/etl';
+
+/**
+ * Runs the work of a job
+ * @param request The job parameters
+ * @param signal Aborted when the job is cancelled
+ * @param onProgress Records the job's progress
+ * @returns Promise resolving to the processing summary
+ */
+export type JobHandler = (
+  request: ProcessRepositoryJobRequest,
+  signal: AbortSignal,
+  onProgress: (progress: ProcessingProgress) => void
+) => Promise<ProcessRepositoryResult>;
+
+/**
+ * Receives a job whenever its status or progress changes
+ * @param job The job in its new state
+ */
+export type JobListener = (job: Job) => void;
+
+/**
+ * Options for the job queue
+ */
+export interface JobQueueOptions {
+  /**
+   * Path of the JSON file jobs are persisted to
+   */
+  filePath: string;
+
+  /**
+   * Maximum number of jobs running at the same time (defaults to 1)
+   */
+  concurrency?: number;
+
+  /**
+   * Number of finished jobs to keep (defaults to 1000)
+   */
+  maxFinishedJobs?: number;
+}
+
+/**
+ * Statuses of jobs that will not change anymore
+ */
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Queue that runs ingestion jobs in the background with bounded concurrency.
+ * Jobs are persisted, and jobs interrupted by a restart are queued again.
+ */
+export class JobQueue {
+  private handler: JobHandler;
+  private filePath: string;
+  private concurrency: number;
+  private maxFinishedJobs: number;
+  private jobs = new Map<string, Job>();
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Map<string, Set<JobListener>>();
+
+  /**
+   * Creates a new JobQueue and resumes persisted jobs
+   * @param handler Runs the work of each job
+   * @param options Persistence and concurrency options
+   */
+  constructor(handler: JobHandler, options: JobQueueOptions) {
+    this.handler = handler;
+    this.filePath = options.filePath;
+    this.concurrency = Math.max(1, options.concurrency || 1);
+    this.maxFinishedJobs = options.maxFinishedJobs ?? 1000;
+
+    for (const job of this.read()) {
+      if (job.status === 'running') {
+        console.warn(`Job ${job.id} was interrupted by a restart, queueing it again`);
+        job.status = 'queued';
+      }
+      this.jobs.set(job.id, job);
+    }
+    this.write();
+    this.schedule();
+  }
+
+  /**
+   * Submits a new job
+   * @param request The job parameters
+   * @returns The queued job
+   */
+  submit(request: ProcessRepositoryJobRequest): Job {
+    const job: Job = {
+      id: randomUUID(),
+      status: 'queued',
+      request,
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.id, job);
+    this.prune();
+    this.write();
+    this.schedule();
+    return job;
+  }
+
+  /**
+   * Gets a job by ID
+   * @param id The job ID
+   * @returns The job, or undefined if it does not exist
+   */
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Lists jobs, newest first
+   * @param status Only list jobs in this state
+   * @returns Array of jobs
+   */
+  list(status?: JobStatus): Job[] {
+    return [...this.jobs.values()]
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Subscribes to the status and progress changes of a job
+   * @param id The job ID
+   * @param listener Called with the job after every change
+   * @returns Function that removes the listener
+   */
+  subscribe(id: string, listener: JobListener): () => void {
+    let listeners = this.listeners.get(id);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(id, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(id) === listeners) {
+        this.listeners.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Cancels a job. Queued jobs are cancelled immediately; running jobs are
+   * cancelled once their current step has stopped.
+   * @param id The job ID
+   * @returns The job, or undefined if it does not exist
+   */
+  cancel(id: string): Job | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+
+    if (job.status === 'queued') {
+      job.status = 'cancelled';
+      job.finishedAt = new Date().toISOString();
+      this.write();
+      this.notify(job);
+    } else if (job.status === 'running') {
+      this.controllers.get(id)?.abort();
+    }
+
+    return job;
+  }
+
+  /**
+   * Starts queued jobs, oldest first, while there are free slots. Jobs for a
+   * repository ref that is already being processed wait for that job to finish.
+   */
+  private schedule(): void {
+    const running = [...this.jobs.values()].filter(job => job.status === 'running');
+    const busy = new Set(running.map(job => this.repositoryKey(job)));
+
+    const queued = [...this.jobs.values()]
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    let slots = this.concurrency - running.length;
+    for (const job of queued) {
+      if (slots <= 0) {
+        break;
+      }
+      const key = this.repositoryKey(job);
+      if (!busy.has(key)) {
+        busy.add(key);
+        slots--;
+        void this.run(job);
+      }
+    }
+  }
+
+  /**
+   * Runs a job to completion and records the outcome
+   * @param job The job to run
+   */
+  private async run(job: Job): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    job.progress = undefined;
+    job.error = undefined;
+    this.write();
+    this.notify(job);
+
+    try {
+      job.result = await this.handler(job.request, controller.signal, progress => {
+        job.progress = progress;
+        this.write();
+        this.notify(job);
+      });
+      job.status = 'completed';
+    } catch (error) {
+      if (controller.signal.aborted) {
+        job.status = 'cancelled';
+      } else {
+        console.error(`Job ${job.id} failed:`, error);
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+      }
+    } finally {
+      job.finishedAt = new Date().toISOString();
+      this.controllers.delete(job.id);
+      this.write();
+      this.notify(job);
+      this.schedule();
+    }
+  }
+
+  /**
+   * Passes a changed job to its listeners
+   * @param job The changed job
+   */
+  private notify(job: Job): void {
+    for (const listener of this.listeners.get(job.id) || []) {
+      try {
+        listener(job);
+      } catch (error) {
+        console.error(`Listener of job ${job.id} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Removes the oldest finished jobs beyond the retention limit
+   */
+  private prune(): void {
+    const finished = this.list().filter(job => FINISHED_STATUSES.includes(job.status));
+    for (const job of finished.slice(this.maxFinishedJobs)) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  /**
+   * Builds the key identifying the repository ref a job processes, so that
+   * different locations of the same repository share a key
+   */
+  private repositoryKey(job: Job): string {
+    let url = job.request.repositoryUrl;
+    try {
+      url = parseRepositorySource(url).url;
+    } catch {
+      // Invalid locations fail when the job runs
+    }
+    return `${url}#${job.request.ref || 'HEAD'}`;
+  }
+
+  /**
+   * Reads the persisted jobs, treating a missing or corrupt file as empty
+   */
+  private read(): Job[] {
+    return readJsonFile(this.filePath, []);
+  }
+
+  /**
+   * Writes all jobs to the file atomically
+   */
+  private write(): void {
+    try {
+      writeJsonFile(this.filePath, [...this.jobs.values()]);
+    } catch (error) {
+      console.error('Failed to persist jobs:', error);
+    }
+  }
+}
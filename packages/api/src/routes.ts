@@ -4,15 +4,62 @@
 
 import { Router } from 'express';
 import type { Router as RouterType } from 'express';
-import { processRepository, search } from './controllers';
+import {
+  processRepository,
+  processRepositoryStream,
+  search,
+  compareRefs,
+  ask,
+  askStream,
+  createConversation,
+  listConversations,
+  getConversation,
+  deleteConversation,
+  askInConversation,
+  getChunk,
+  listJobs,
+  getJob,
+  streamJobEvents,
+  cancelJob,
+  listRepositories,
+  getRepository,
+  deleteRepository
+} from './controllers';
 
 const router: RouterType = Router();
 
 // Repository processing endpoint
 router.post('/repository/process', processRepository);
+router.post('/repository/process/stream', processRepositoryStream);
+
+// Repository management endpoints
+router.get('/repositories', listRepositories);
+router.get('/repositories/:id', getRepository);
+router.delete('/repositories/:id', deleteRepository);
+
+// Ingestion job endpoints
+router.get('/jobs', listJobs);
+router.get('/jobs/:id', getJob);
+router.get('/jobs/:id/events', streamJobEvents);
+router.post('/jobs/:id/cancel', cancelJob);
 
 // Search endpoint
 router.post('/search', search);
+router.post('/search/compare', compareRefs);
+
+// Answer generation endpoints
+router.post('/ask', ask);
+router.post('/ask/stream', askStream);
+
+// Conversation endpoints
+router.post('/conversations', createConversation);
+router.get('/conversations', listConversations);
+router.get('/conversations/:id', getConversation);
+router.delete('/conversations/:id', deleteConversation);
+router.post('/conversations/:id/ask', askInConversation);
+
+// Chunk lookup endpoint
+router.get('/chunks/:id', getChunk);
 
 // Health check endpoint
 router.get('/health', (req, res) => {
@@ -0,0 +1,75 @@
+/**
+ * Server-sent event streams
+ */
+
+import { Response } from 'express';
+
+/**
+ * Interval between keep-alive comments, so that proxies do not close idle streams
+ */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * An open server-sent event stream to a client
+ */
+export interface EventStream {
+  /**
+   * Aborted when the client disconnects before the stream is ended
+   */
+  readonly signal: AbortSignal;
+
+  /**
+   * Sends an event; does nothing once the stream is closed
+   * @param event The event name
+   * @param data The event payload, sent as JSON
+   */
+  send(event: string, data: unknown): void;
+
+  /**
+   * Ends the stream
+   */
+  end(): void;
+}
+
+/**
+ * Starts a server-sent event response
+ * @param res The response to stream events to
+ * @returns The event stream
+ */
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+  let ended = false;
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Keep reverse proxies such as nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    if (!ended) {
+      controller.abort();
+    }
+  });
+
+  return {
+    signal: controller.signal,
+    send(event: string, data: unknown) {
+      if (!ended && !controller.signal.aborted) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    end() {
+      if (!ended) {
+        ended = true;
+        clearInterval(heartbeat);
+        res.end();
+      }
+    },
+  };
+}
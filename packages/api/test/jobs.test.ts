@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Job, ProcessRepositoryJobRequest, ProcessRepositoryResult } from '@github-rag-system/common';
+import { JobHandler, JobQueue } from '../src/jobs';
+
+/**
+ * Handler whose runs are finished by the test. Records the request of every run.
+ */
+function controlledHandler() {
+  const runs: { request: ProcessRepositoryJobRequest; signal: AbortSignal; finish: (error?: Error) => void }[] = [];
+  const handler: JobHandler = (request, signal, onProgress) =>
+    new Promise((resolve, reject) => {
+      onProgress({ phase: 'cloning', chunksIndexed: 0, chunksFailed: 0 });
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+      runs.push({
+        request,
+        signal,
+        finish: error => (error ? reject(error) : resolve({ repositoryId: request.repositoryUrl } as ProcessRepositoryResult)),
+      });
+    });
+  return { handler, runs };
+}
+
+/**
+ * Waits until pending promise callbacks have run
+ */
+function settle(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('JobQueue', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-test-'));
+    filePath = path.join(dir, 'jobs.json');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs jobs, reports their progress and persists the outcome', async () => {
+    const { handler, runs } = controlledHandler();
+    const queue = new JobQueue(handler, { filePath });
+    const job = queue.submit({ repositoryUrl: 'https://github.com/acme/app' });
+    const updates: string[] = [];
+    queue.subscribe(job.id, update => updates.push(`${update.status}:${update.progress?.phase}`));
+
+    expect(queue.get(job.id)?.status).toBe('running');
+    runs[0].finish();
+    await settle();
+
+    expect(updates).toEqual(['completed:cloning']);
+    expect(queue.get(job.id)).toMatchObject({ status: 'completed', result: { repositoryId: 'https://github.com/acme/app' } });
+    const persisted: Job[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    expect(persisted).toMatchObject([{ id: job.id, status: 'completed' }]);
+  });
+
+  it('records the error of failed jobs', async () => {
+    const { handler, runs } = controlledHandler();
+    const queue = new JobQueue(handler, { filePath });
+    const job = queue.submit({ repositoryUrl: 'https://github.com/acme/app' });
+
+    runs[0].finish(new Error('clone failed'));
+    await settle();
+
+    expect(queue.get(job.id)).toMatchObject({ status: 'failed', error: 'clone failed' });
+  });
+
+  it('runs up to the concurrency limit, one job per repository ref at a time', async () => {
+    const { handler, runs } = controlledHandler();
+    const queue = new JobQueue(handler, { filePath, concurrency: 2 });
+    const first = queue.submit({ repositoryUrl: 'https://github.com/acme/app' });
+    const sameRef = queue.submit({ repositoryUrl: 'git@github.com:acme/app.git' });
+    const otherRef = queue.submit({ repositoryUrl: 'https://github.com/acme/app', ref: 'v1' });
+    const third = queue.submit({ repositoryUrl: 'https://github.com/acme/lib' });
+
+    expect([first, sameRef, otherRef, third].map(job => queue.get(job.id)?.status))
+      .toEqual(['running', 'queued', 'running', 'queued']);
+
+    runs[0].finish();
+    await settle();
+    expect(queue.get(sameRef.id)?.status).toBe('running');
+    expect(queue.get(third.id)?.status).toBe('queued');
+  });
+
+  it('cancels queued jobs at once and running jobs through their signal', async () => {
+    const { handler, runs } = controlledHandler();
+    const queue = new JobQueue(handler, { filePath });
+    const running = queue.submit({ repositoryUrl: 'https://github.com/acme/app' });
+    const queued = queue.submit({ repositoryUrl: 'https://github.com/acme/lib' });
+
+    expect(queue.cancel(queued.id)?.status).toBe('cancelled');
+    queue.cancel(running.id);
+    await settle();
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0].signal.aborted).toBe(true);
+    expect(queue.get(running.id)?.status).toBe('cancelled');
+    expect(queue.cancel('unknown')).toBeUndefined();
+  });
+
+  it('queues jobs interrupted by a restart again', async () => {
+    const first = controlledHandler();
+    const previous = new JobQueue(first.handler, { filePath });
+    const interrupted = previous.submit({ repositoryUrl: 'https://github.com/acme/app' });
+    const waiting = previous.submit({ repositoryUrl: 'https://github.com/acme/app', ref: 'v1' });
+
+    const second = controlledHandler();
+    const queue = new JobQueue(second.handler, { filePath });
+
+    expect(second.runs.map(run => run.request.ref)).toEqual([undefined]);
+    expect(queue.get(interrupted.id)?.status).toBe('running');
+    expect(queue.get(waiting.id)?.status).toBe('queued');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(interrupted.id));
+  });
+
+  it('drops the oldest finished jobs beyond the limit when jobs are submitted', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { handler, runs } = controlledHandler();
+    const queue = new JobQueue(handler, { filePath, maxFinishedJobs: 2 });
+    const ids: string[] = [];
+    for (let index = 0; index < 4; index++) {
+      vi.advanceTimersByTime(1000);
+      ids.push(queue.submit({ repositoryUrl: `https://github.com/acme/app${index}` }).id);
+      runs[index].finish();
+      await settle();
+    }
+    vi.useRealTimers();
+
+    expect(queue.list().map(job => job.id)).toEqual([ids[3], ids[2], ids[1]]);
+    expect(queue.list('completed')).toHaveLength(3);
+  });
+});
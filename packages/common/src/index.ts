@@ -6,4 +6,34 @@
 export * from './types/github';
 
 // Export all vector database related types
-export * from './types/vector-db';
\ No newline at end of file
+export * from './types/vector-db';
+
+// Export all embedding related types
+export * from './types/embedding';
+
+// Export all use case classification related types
+export * from './types/classification';
+
+// Export all stack trace related types
+export * from './types/stack-traces';
+
+// Export all chat model related types
+export * from './types/chat';
+
+// Export all answer generation related types
+export * from './types/answers';
+
+// Export all conversation related types
+export * from './types/conversations';
+
+// Export all ingestion job related types
+export * from './types/jobs';
+
+// Export all repository registry related types
+export * from './types/repositories';
+
+// Export all language detection related types
+export * from './types/languages';
+
+// Export the language registry
+export * from './languages';
@@ -0,0 +1,229 @@
+/**
+ * Registry of languages and detection of a file's language
+ */
+
+import { createHash } from 'crypto';
+import { LanguageDefinition } from './types/languages';
+
+/**
+ * The built-in languages. Only languages with a grammar or brace-delimited
+ * blocks use the code chunker; symbol detection cannot find where functions
+ * end in the others, so their files are split by size only.
+ */
+export const DEFAULT_LANGUAGES: LanguageDefinition[] = [
+  { id: 'typescript', extensions: ['.ts', '.tsx', '.mts', '.cts'], interpreters: ['ts-node', 'tsx', 'deno'], aliases: ['ts'], chunker: 'code' },
+  { id: 'javascript', extensions: ['.js', '.jsx', '.mjs', '.cjs'], interpreters: ['node', 'nodejs'], aliases: ['js'], chunker: 'code' },
+  { id: 'python', extensions: ['.py', '.pyw', '.pyi'], interpreters: ['python', 'python2', 'python3'], aliases: ['py'], chunker: 'code' },
+  { id: 'java', extensions: ['.java'], chunker: 'code' },
+  { id: 'ruby', extensions: ['.rb', '.rake', '.gemspec'], filenames: ['Rakefile', 'Gemfile'], interpreters: ['ruby'], aliases: ['rb'] },
+  { id: 'go', extensions: ['.go'], aliases: ['golang'], chunker: 'code' },
+  { id: 'rust', extensions: ['.rs'], aliases: ['rs'], chunker: 'code' },
+  { id: 'c_cpp', extensions: ['.c', '.cpp', '.cc', '.cxx', '.h', '.hpp', '.hh', '.hxx'], aliases: ['c', 'cpp', 'c++'], chunker: 'code' },
+  { id: 'csharp', extensions: ['.cs'], aliases: ['cs'], chunker: 'code' },
+  { id: 'php', extensions: ['.php'], interpreters: ['php'], contentMarkers: ['<?php'], chunker: 'code' },
+  { id: 'swift', extensions: ['.swift'], chunker: 'code' },
+  { id: 'kotlin', extensions: ['.kt', '.kts'], chunker: 'code' },
+  { id: 'scala', extensions: ['.scala', '.sc'], interpreters: ['scala'] },
+  { id: 'dart', extensions: ['.dart'] },
+  { id: 'vue', extensions: ['.vue'] },
+  { id: 'svelte', extensions: ['.svelte'] },
+  { id: 'groovy', extensions: ['.groovy', '.gradle'], filenames: ['Jenkinsfile'], interpreters: ['groovy'] },
+  { id: 'perl', extensions: ['.pl', '.pm'], interpreters: ['perl'] },
+  { id: 'lua', extensions: ['.lua'], interpreters: ['lua'] },
+  { id: 'r', extensions: ['.r'], interpreters: ['Rscript'] },
+  { id: 'elixir', extensions: ['.ex', '.exs'], interpreters: ['elixir'] },
+  { id: 'haskell', extensions: ['.hs'], interpreters: ['runhaskell'] },
+  {
+    id: 'shell',
+    extensions: ['.sh', '.bash', '.zsh', '.ksh'],
+    filenames: ['.bashrc', '.bash_profile', '.zshrc', '.profile'],
+    interpreters: ['sh', 'bash', 'zsh', 'dash', 'ksh'],
+    aliases: ['sh', 'bash', 'zsh'],
+  },
+  { id: 'powershell', extensions: ['.ps1', '.psm1'], interpreters: ['pwsh', 'powershell'] },
+  { id: 'sql', extensions: ['.sql'] },
+  { id: 'markdown', extensions: ['.md', '.markdown', '.mdx'], aliases: ['md'], chunker: 'markdown' },
+  { id: 'restructuredtext', extensions: ['.rst'], aliases: ['rst'] },
+  { id: 'json', extensions: ['.json', '.jsonc', '.json5'], chunker: 'structured' },
+  { id: 'yaml', extensions: ['.yml', '.yaml'], aliases: ['yml'], chunker: 'structured' },
+  { id: 'toml', extensions: ['.toml'], filenames: ['Cargo.lock', 'poetry.lock'], chunker: 'structured' },
+  { id: 'jupyter', extensions: ['.ipynb'], aliases: ['ipynb'], chunker: 'notebook' },
+  { id: 'ini', extensions: ['.ini', '.cfg'], filenames: ['.editorconfig', '.gitconfig'], aliases: ['dosini'] },
+  { id: 'xml', extensions: ['.xml', '.xsd', '.xsl', '.svg', '.plist'], contentMarkers: ['<?xml'] },
+  { id: 'html', extensions: ['.html', '.htm'], contentMarkers: ['<!DOCTYPE html>', '<html>'] },
+  { id: 'css', extensions: ['.css', '.scss', '.sass', '.less'], aliases: ['scss', 'less'] },
+  { id: 'graphql', extensions: ['.graphql', '.gql'] },
+  { id: 'protobuf', extensions: ['.proto'], aliases: ['proto'] },
+  { id: 'hcl', extensions: ['.tf', '.tfvars', '.hcl'], aliases: ['terraform'] },
+  { id: 'dockerfile', extensions: ['.dockerfile'], filenames: ['Dockerfile', 'Containerfile'], aliases: ['docker'] },
+  { id: 'makefile', extensions: ['.mk', '.mak'], filenames: ['Makefile', 'GNUmakefile', 'makefile'], interpreters: ['make'], aliases: ['make'] },
+  { id: 'cmake', extensions: ['.cmake'], filenames: ['CMakeLists.txt'] },
+];
+
+/**
+ * Number of lines at the start and end of a file searched for modelines
+ */
+const MODELINE_SEARCH_LINES = 5;
+
+/**
+ * Vim modelines, e.g. `vim: set ft=python:` or `vi: filetype=sh`
+ */
+const VIM_MODELINE = /\b(?:vim?|ex):.*?\b(?:ft|filetype|syntax)=([\w+#-]+)/i;
+
+/**
+ * Emacs modelines, e.g. `-*- mode: python -*-` or `-*- python -*-`
+ */
+const EMACS_MODELINE = /-\*-\s*(?:[^*]*?\bmode:\s*([\w+#-]+)|([\w+#-]+)\s*-\*-)/i;
+
+/**
+ * Shebang lines, capturing the interpreter path and its first argument
+ */
+const SHEBANG = /^#!\s*(\S+)(?:\s+(.*))?/;
+
+/**
+ * Maps file names, extensions, shebangs, modelines and content to languages.
+ * Definitions registered later take precedence over earlier ones.
+ */
+export class LanguageRegistry {
+  private languages = new Map<string, LanguageDefinition>();
+  private byExtension = new Map<string, string>();
+  private byFilename = new Map<string, string>();
+  private byInterpreter = new Map<string, string>();
+  private byAlias = new Map<string, string>();
+
+  /**
+   * Creates a new LanguageRegistry
+   * @param definitions The languages to start with (defaults to the built-in languages)
+   */
+  constructor(definitions: LanguageDefinition[] = DEFAULT_LANGUAGES) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Adds a language, or changes the given fields of a registered one
+   * @param definition The language; for a registered ID, only the given fields are replaced
+   */
+  register(definition: LanguageDefinition): void {
+    const language = { ...this.languages.get(definition.id), ...definition };
+    this.languages.set(language.id, language);
+
+    language.extensions?.forEach(extension => this.byExtension.set(extension.toLowerCase(), language.id));
+    language.filenames?.forEach(filename => this.byFilename.set(filename, language.id));
+    language.interpreters?.forEach(interpreter => this.byInterpreter.set(interpreter, language.id));
+    [language.id, ...(language.aliases || [])].forEach(alias => this.byAlias.set(alias.toLowerCase(), language.id));
+  }
+
+  /**
+   * Gets a language by ID
+   * @param id The language ID
+   * @returns The language, or undefined if it is not registered
+   */
+  get(id: string): LanguageDefinition | undefined {
+    return this.languages.get(id);
+  }
+
+  /**
+   * Lists all registered languages
+   * @returns The languages in registration order
+   */
+  list(): LanguageDefinition[] {
+    return [...this.languages.values()];
+  }
+
+  /**
+   * Builds a stable key for the registered languages, so that runs with
+   * different language settings can be told apart
+   * @returns The key
+   */
+  key(): string {
+    return createHash('sha256').update(JSON.stringify(this.list())).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Detects the language of a file. A modeline wins, followed by the file
+   * name, the extension, the shebang and finally content markers.
+   * @param filePath Path of the file
+   * @param content The file content, if available
+   * @returns The language, or undefined if it cannot be determined
+   */
+  detect(filePath: string, content?: string): LanguageDefinition | undefined {
+    const id =
+      (content !== undefined ? this.detectByModeline(content) : undefined) ??
+      this.detectByPath(filePath) ??
+      (content !== undefined ? this.detectByShebang(content) ?? this.detectByContent(content) : undefined);
+
+    return id ? this.languages.get(id) : undefined;
+  }
+
+  /**
+   * Looks up the language of a file name or extension
+   * @param filePath Path of the file
+   * @returns The language ID, or undefined
+   */
+  private detectByPath(filePath: string): string | undefined {
+    const filename = filePath.split(/[\\/]/).pop() || '';
+    const byFilename = this.byFilename.get(filename);
+    if (byFilename) {
+      return byFilename;
+    }
+
+    // Leading dots start dotfile names, not extensions
+    const dot = filename.lastIndexOf('.');
+    return dot > 0 ? this.byExtension.get(filename.slice(dot).toLowerCase()) : undefined;
+  }
+
+  /**
+   * Looks up the language named in a Vim or Emacs modeline
+   * @param content The file content
+   * @returns The language ID, or undefined
+   */
+  private detectByModeline(content: string): string | undefined {
+    const lines = content.split('\n');
+    const candidates = lines.length > MODELINE_SEARCH_LINES * 2
+      ? [...lines.slice(0, MODELINE_SEARCH_LINES), ...lines.slice(-MODELINE_SEARCH_LINES)]
+      : lines;
+
+    for (const line of candidates) {
+      const vim = VIM_MODELINE.exec(line);
+      const emacs = EMACS_MODELINE.exec(line);
+      const name = vim?.[1] ?? emacs?.[1] ?? emacs?.[2];
+      const id = name && this.byAlias.get(name.toLowerCase());
+      if (id) {
+        return id;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Looks up the language of the interpreter named in a shebang line
+   * @param content The file content
+   * @returns The language ID, or undefined
+   */
+  private detectByShebang(content: string): string | undefined {
+    const match = SHEBANG.exec(content.split('\n', 1)[0]);
+    if (!match) {
+      return undefined;
+    }
+
+    // `#!/usr/bin/env -S python3 -u` names the interpreter as an argument
+    let interpreter = match[1].split('/').pop() || '';
+    if (interpreter === 'env') {
+      interpreter = (match[2] || '').split(/\s+/).find(arg => arg && !arg.startsWith('-') && !arg.includes('=')) || '';
+    }
+
+    // Versioned interpreters such as python3.12 fall back to their base name
+    return this.byInterpreter.get(interpreter) ?? this.byInterpreter.get(interpreter.replace(/[\d.]+$/, ''));
+  }
+
+  /**
+   * Looks up the first language with a content marker present in the content
+   * @param content The file content
+   * @returns The language ID, or undefined
+   */
+  private detectByContent(content: string): string | undefined {
+    return this.list().find(language =>
+      language.contentMarkers?.some(marker => content.includes(marker))
+    )?.id;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Types related to answer generation
+ */
+
+import { ChunkType, UseCase } from './github';
+import { SearchRequest } from './vector-db';
+import { UseCaseClassification } from './classification';
+
+/**
+ * A question answered from retrieved code
+ */
+export interface AskRequest extends SearchRequest {
+  /**
+   * Maximum tokens of retrieved code included in the prompt (defaults to 6000)
+   */
+  maxContextTokens?: number;
+
+  /**
+   * Maximum tokens of the generated answer (defaults to 1000)
+   */
+  maxAnswerTokens?: number;
+}
+
+/**
+ * A retrieved chunk given to the model as a source
+ */
+export interface Citation {
+  /**
+   * The number the model cites the source by, e.g. 1 for `[1]`
+   */
+  index: number;
+
+  /**
+   * The ID of the chunk
+   */
+  chunkId: string;
+
+  /**
+   * The chunk type
+   */
+  type: ChunkType;
+
+  /**
+   * The repository the chunk is from
+   */
+  repositoryUrl: string;
+
+  /**
+   * The ref the chunk is from, undefined for the default branch
+   */
+  ref?: string;
+
+  /**
+   * The path of the file the chunk is from
+   */
+  filePath: string;
+
+  /**
+   * First line of the chunk (1-based), if known
+   */
+  startLine?: number;
+
+  /**
+   * Last line of the chunk (1-based, inclusive), if known
+   */
+  endLine?: number;
+
+  /**
+   * The function, class, heading or key name, if any
+   */
+  symbolName?: string;
+
+  /**
+   * The search score of the chunk
+   */
+  score: number;
+
+  /**
+   * Whether the answer refers to the source
+   */
+  cited: boolean;
+}
+
+/**
+ * An answer generated from retrieved code
+ */
+export interface AskResult {
+  /**
+   * The generated answer, referring to sources as `[1]`, `[2]`, ...
+   */
+  answer: string;
+
+  /**
+   * The sources given to the model, in the order they were numbered
+   */
+  citations: Citation[];
+
+  /**
+   * The use case the prompt was built for
+   */
+  useCase: UseCase;
+
+  /**
+   * How the question was classified, when the use case was `auto`
+   */
+  classification?: UseCaseClassification;
+
+  /**
+   * Identifier of the chat model that generated the answer
+   */
+  model: string;
+}
+
+/**
+ * An event of a streamed answer: the numbered sources once code is
+ * retrieved, then fragments of the answer, then the complete answer with the
+ * sources it cites
+ */
+export type AskStreamEvent =
+  | { type: 'citations'; citations: Citation[] }
+  | { type: 'token'; text: string }
+  | { type: 'done'; result: AskResult };
@@ -0,0 +1,125 @@
+/**
+ * Types related to chat completion models
+ */
+
+/**
+ * The author of a chat message
+ */
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+/**
+ * A message of a chat conversation
+ */
+export interface ChatMessage {
+  /**
+   * Who wrote the message
+   */
+  role: ChatRole;
+
+  /**
+   * The message text
+   */
+  content: string;
+}
+
+/**
+ * Options for a single completion request
+ */
+export interface ChatCompletionOptions {
+  /**
+   * Maximum number of tokens to generate
+   */
+  maxTokens?: number;
+
+  /**
+   * Sampling temperature; lower values give more deterministic output
+   */
+  temperature?: number;
+
+  /**
+   * Cancels the request when aborted
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat completion model
+ */
+export interface ChatProvider {
+  /**
+   * Identifier of the provider and model (e.g. `openai:gpt-4o-mini`)
+   */
+  readonly id: string;
+
+  /**
+   * Generates the next assistant message of a conversation
+   * @param messages The conversation so far
+   * @param options Generation limits and abort signal
+   * @returns Promise resolving to the generated text
+   */
+  complete(messages: ChatMessage[], options?: ChatCompletionOptions): Promise<string>;
+
+  /**
+   * Generates the next assistant message of a conversation piece by piece
+   * @param messages The conversation so far
+   * @param options Generation limits and abort signal
+   * @returns Async iterator over the generated text fragments, in order
+   */
+  stream(messages: ChatMessage[], options?: ChatCompletionOptions): AsyncIterable<string>;
+}
+
+/**
+ * Configuration for the OpenAI chat provider
+ */
+export interface OpenAIChatConfig {
+  type: 'openai';
+
+  /**
+   * The OpenAI API key
+   */
+  apiKey: string;
+
+  /**
+   * The chat model to use (defaults to gpt-4o-mini)
+   */
+  model?: string;
+}
+
+/**
+ * Configuration for an OpenAI-compatible HTTP chat endpoint, such as a local
+ * llama.cpp or Ollama server
+ */
+export interface HttpChatConfig {
+  type: 'http';
+
+  /**
+   * Base URL of the API, without the `/chat/completions` suffix
+   * @example http://localhost:11434/v1
+   */
+  baseUrl: string;
+
+  /**
+   * The model name sent with each request
+   */
+  model: string;
+
+  /**
+   * Optional bearer token for the endpoint
+   */
+  apiKey?: string;
+}
+
+/**
+ * Configuration for the deterministic stub model, which works fully offline
+ */
+export interface StubChatConfig {
+  type: 'stub';
+}
+
+/**
+ * Configuration for any of the supported chat providers
+ */
+export type ChatProviderConfig =
+  | OpenAIChatConfig
+  | HttpChatConfig
+  | StubChatConfig;
@@ -0,0 +1,55 @@
+/**
+ * Types related to use case classification of queries
+ */
+
+import { UseCase } from './github';
+
+/**
+ * The use cases a query was classified into
+ */
+export interface UseCaseClassification {
+  /**
+   * The most likely use case, which answers are written for
+   */
+  useCase: UseCase;
+
+  /**
+   * The use cases searched, most likely first: the most likely one and any
+   * other use case scoring close to it
+   */
+  useCases: UseCase[];
+
+  /**
+   * Share of the total score held by the most likely use case, from 0 to 1;
+   * 0 when nothing in the query pointed to any use case
+   */
+  confidence: number;
+
+  /**
+   * Share of the total score per use case, from 0 to 1
+   */
+  scores: Record<UseCase, number>;
+
+  /**
+   * Which classifier made the decision: `rules`, or the ID of the chat model
+   */
+  classifier: string;
+}
+
+/**
+ * Decides which use cases a query is about
+ */
+export interface QueryClassifier {
+  /**
+   * Identifier reported in classifications
+   */
+  readonly id: string;
+
+  /**
+   * Classifies a query
+   * @param query The query text
+   * @param signal Cancels the classification when aborted
+   * @returns Promise resolving to the classification
+   */
+  classify(query: string, signal?: AbortSignal): Promise<UseCaseClassification>;
+}
@@ -0,0 +1,102 @@
+/**
+ * Types related to multi-turn conversations
+ */
+
+import { UseCase } from './github';
+import { AskResult, Citation } from './answers';
+
+/**
+ * A question asked in a conversation and its answer
+ */
+export interface ConversationTurn {
+  /**
+   * The question as it was asked
+   */
+  question: string;
+
+  /**
+   * The standalone query code was retrieved with; differs from the question
+   * when a follow-up was rewritten using the conversation
+   */
+  query: string;
+
+  /**
+   * The generated answer
+   */
+  answer: string;
+
+  /**
+   * The sources given to the model for the answer
+   */
+  citations: Citation[];
+
+  /**
+   * The use case the answer was generated for
+   */
+  useCase: UseCase;
+
+  /**
+   * When the question was answered (ISO 8601)
+   */
+  askedAt: string;
+}
+
+/**
+ * A conversation about a set of repositories
+ */
+export interface Conversation {
+  /**
+   * Unique ID of the conversation
+   */
+  id: string;
+
+  /**
+   * URLs of the repositories code is retrieved from
+   */
+  repositories: string[];
+
+  /**
+   * A title for the conversation; defaults to the first question
+   */
+  title?: string;
+
+  /**
+   * When the conversation was created (ISO 8601)
+   */
+  createdAt: string;
+
+  /**
+   * When the last question was answered, or the creation time (ISO 8601)
+   */
+  updatedAt: string;
+
+  /**
+   * The questions and answers so far, oldest first
+   */
+  turns: ConversationTurn[];
+}
+
+/**
+ * A conversation as listed, without its turns
+ */
+export type ConversationInfo = Omit<Conversation, 'turns'> & {
+  /**
+   * Number of questions asked so far
+   */
+  turnCount: number;
+};
+
+/**
+ * The answer to a question asked in a conversation
+ */
+export interface ConversationAskResult extends AskResult {
+  /**
+   * The conversation the question was asked in
+   */
+  conversationId: string;
+
+  /**
+   * The standalone query code was retrieved with
+   */
+  query: string;
+}
@@ -0,0 +1,157 @@
+/**
+ * Types related to embedding generation
+ */
+
+/**
+ * A source of vector embeddings for text
+ */
+export interface EmbeddingProvider {
+  /**
+   * Identifier of the provider and model, used to tell embeddings from
+   * different models apart (e.g. `openai:text-embedding-3-small`)
+   */
+  readonly id: string;
+
+  /**
+   * The dimensionality of the vectors produced by this provider
+   */
+  readonly dimensions: number;
+
+  /**
+   * Creates embeddings for a list of texts
+   * @param texts The texts to embed
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to one vector per input text, in input order
+   */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+/**
+ * Configuration for the OpenAI embedding provider
+ */
+export interface OpenAIEmbeddingConfig {
+  type: 'openai';
+
+  /**
+   * The OpenAI API key
+   */
+  apiKey: string;
+
+  /**
+   * The embedding model to use (defaults to text-embedding-3-small)
+   */
+  model?: string;
+
+  /**
+   * Requested vector size; only supported by text-embedding-3 models
+   */
+  dimensions?: number;
+}
+
+/**
+ * Configuration for an OpenAI-compatible HTTP embedding endpoint,
+ * such as a local llama.cpp or Ollama server
+ */
+export interface HttpEmbeddingConfig {
+  type: 'http';
+
+  /**
+   * Base URL of the API, without the `/embeddings` suffix
+   * @example http://localhost:11434/v1
+   */
+  baseUrl: string;
+
+  /**
+   * The model name sent with each request
+   */
+  model: string;
+
+  /**
+   * The dimensionality of the vectors returned by the model
+   */
+  dimensions: number;
+
+  /**
+   * Optional bearer token for the endpoint
+   */
+  apiKey?: string;
+}
+
+/**
+ * Configuration for the in-process hashing embedder, which works fully offline
+ */
+export interface LocalEmbeddingConfig {
+  type: 'local';
+
+  /**
+   * The dimensionality of the hashed vectors (defaults to 384)
+   */
+  dimensions?: number;
+}
+
+/**
+ * Configuration for any of the supported embedding providers
+ */
+export type EmbeddingProviderConfig =
+  | OpenAIEmbeddingConfig
+  | HttpEmbeddingConfig
+  | LocalEmbeddingConfig;
+
+/**
+ * Options controlling how embeddings are requested from a provider
+ */
+export interface EmbeddingBatchOptions {
+  /**
+   * Maximum number of texts sent in a single request (defaults to 64)
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Maximum estimated tokens sent in a single request (defaults to 8000)
+   */
+  maxBatchTokens?: number;
+
+  /**
+   * Number of requests allowed in flight at once (defaults to 4)
+   */
+  concurrency?: number;
+
+  /**
+   * Number of retries for rate-limited or failed requests (defaults to 5)
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled on each attempt (defaults to 1000)
+   */
+  initialRetryDelayMs?: number;
+
+  /**
+   * Upper bound for the retry delay in milliseconds (defaults to 60000)
+   */
+  maxRetryDelayMs?: number;
+
+  /**
+   * Maximum estimated tokens sent per minute; unlimited when not set
+   */
+  tokensPerMinute?: number;
+}
+
+/**
+ * A persistent store of embeddings keyed by embedding model and text hash
+ */
+export interface EmbeddingCache {
+  /**
+   * Looks up a cached embedding
+   * @param key The cache key
+   * @returns Promise resolving to the embedding, or undefined on a miss
+   */
+  get(key: string): Promise<number[] | undefined>;
+
+  /**
+   * Stores an embedding
+   * @param key The cache key
+   * @param embedding The embedding vector
+   */
+  set(key: string, embedding: number[]): Promise<void>;
+}
@@ -2,6 +2,8 @@
  * Types related to GitHub repositories and ETL processing
  */
 
+import { DocumentFailure } from './vector-db';
+
 export interface GitHubRepositoryInfo {
   /**
    * The full URL of the GitHub repository
@@ -23,6 +25,95 @@ export interface GitHubRepositoryInfo {
    * The branch to process (defaults to main)
    */
   branch?: string;
+
+  /**
+   * The branch, tag or commit being processed, or undefined for the
+   * repository's default branch
+   */
+  ref?: string;
+
+  /**
+   * What kind of ref `ref` is, once resolved
+   */
+  refType?: RefType;
+}
+
+/**
+ * Kinds of git refs that can be indexed
+ */
+export type RefType = 'branch' | 'tag' | 'commit';
+
+/**
+ * Where a repository is cloned from
+ */
+export interface RepositorySource {
+  /**
+   * How the repository is accessed
+   */
+  kind: 'https' | 'ssh' | 'local';
+
+  /**
+   * The URL or absolute path git clones from
+   */
+  cloneUrl: string;
+
+  /**
+   * Normalised identity of the repository, shared by all ways of reaching it
+   * @example https://gitlab.com/group/subgroup/repo
+   */
+  url: string;
+
+  /**
+   * The host name, with the port if not the default; empty for local paths
+   */
+  host: string;
+
+  /**
+   * The namespace path, including any subgroups
+   * @example group/subgroup
+   */
+  owner: string;
+
+  /**
+   * The name of the repository
+   */
+  name: string;
+}
+
+/**
+ * A token used for HTTPS remotes
+ */
+export interface HttpCredential {
+  /**
+   * The access token
+   */
+  token: string;
+
+  /**
+   * The user name sent with the token (defaults to `x-access-token`; GitLab uses `oauth2`)
+   */
+  username?: string;
+}
+
+/**
+ * Credentials for private repositories, configured server-side
+ */
+export interface GitCredentials {
+  /**
+   * Credentials for HTTPS remotes, keyed by host
+   */
+  tokens?: Record<string, HttpCredential>;
+
+  /**
+   * Path of the private key used for SSH remotes
+   */
+  sshKeyPath?: string;
+
+  /**
+   * Whether unknown SSH host keys are rejected instead of accepted on first
+   * use (defaults to false)
+   */
+  strictHostKeyChecking?: boolean;
 }
 
 /**
@@ -57,7 +148,10 @@ export enum ChunkType {
   FILE = 'file',
   CLASS = 'class',
   FUNCTION = 'function',
-  SUMMARY = 'summary'
+  SUMMARY = 'summary',
+  SECTION = 'section',
+  CONFIG_ENTRY = 'config_entry',
+  NOTEBOOK_CELL = 'notebook_cell'
 }
 
 /**
@@ -69,12 +163,49 @@ export enum UseCase {
   EXPLANATION = 'explanation'
 }
 
+/**
+ * Counts tokens the way an embedding model would
+ */
+export interface Tokenizer {
+  /**
+   * Counts the tokens in a text
+   * @param text The text to measure
+   * @returns The number of tokens
+   */
+  count(text: string): number;
+}
+
+/**
+ * Size limits for chunks of one type
+ */
+export interface ChunkSizeOptions {
+  /**
+   * Maximum tokens per chunk; larger chunks are split into parts
+   */
+  maxTokens: number;
+
+  /**
+   * Tokens repeated between consecutive parts
+   */
+  overlapTokens: number;
+
+  /**
+   * Tokenizer used to measure chunks (defaults to the cl100k_base encoding)
+   */
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * Size limits per chunk type
+ */
+export type ChunkSplittingConfig = Partial<Record<ChunkType, ChunkSizeOptions>>;
+
 /**
  * Represents a code chunk from a GitHub repository
  */
 export interface CodeChunk {
   /**
-   * Unique identifier for the chunk
+   * Stable identifier for the chunk, derived from its origin and content
    */
   id: string;
   
@@ -113,12 +244,12 @@ export interface CodeChunk {
     language?: string;
     
     /**
-     * Starting line number in the original file
+     * Starting line number in the original file (1-based)
      */
     startLine?: number;
     
     /**
-     * Ending line number in the original file
+     * Ending line number in the original file (1-based, inclusive)
      */
     endLine?: number;
     
@@ -126,5 +257,354 @@ export interface CodeChunk {
      * Name of the function or class (if applicable)
      */
     symbolName?: string;
+
+    /**
+     * SHA-256 hash of the chunk content
+     */
+    contentHash?: string;
+
+    /**
+     * For parts of an oversized chunk: the ID the unsplit chunk would have had
+     */
+    splitGroupId?: string;
+
+    /**
+     * For parts of an oversized chunk: the position of this part (0-based)
+     */
+    partIndex?: number;
+
+    /**
+     * For parts of an oversized chunk: the total number of parts
+     */
+    partCount?: number;
+
+    /**
+     * For parts of an oversized chunk: the ID of the preceding part
+     */
+    previousPartId?: string;
+
+    /**
+     * For parts of an oversized chunk: the ID of the following part
+     */
+    nextPartId?: string;
+
+    /**
+     * ID of the enclosing chunk (file for top-level symbols, class for methods)
+     */
+    parentId?: string;
+
+    /**
+     * IDs of the chunks directly enclosed by this chunk
+     */
+    childIds?: string[];
+
+    /**
+     * Declaration header of a class or function, without its body
+     */
+    signature?: string;
+
+    /**
+     * Import statements of the file, on file-level chunks
+     */
+    imports?: string[];
+
+    /**
+     * For Markdown sections: titles of the enclosing headings and the section's own, outermost first
+     */
+    headingPath?: string[];
+
+    /**
+     * For notebook cells: the position of the cell in the notebook (0-based)
+     */
+    cellIndex?: number;
+
+    /**
+     * For notebook cells: whether the cell holds code or markdown
+     */
+    cellType?: 'code' | 'markdown';
+
+    /**
+     * For summaries: whether a file, a directory or the whole repository is
+     * summarized; `filePath` is the file or directory, empty for the repository
+     */
+    summaryScope?: SummaryScope;
   };
-}
\ No newline at end of file
+}
+
+/**
+ * What a summary chunk summarizes
+ */
+export type SummaryScope = 'file' | 'directory' | 'repository';
+
+/**
+ * A file change between two commits
+ */
+export interface FileChange {
+  /**
+   * The kind of change
+   */
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+
+  /**
+   * The path of the file after the change (the deleted path for deletions)
+   */
+  path: string;
+
+  /**
+   * The path of the file before a rename
+   */
+  previousPath?: string;
+}
+
+/**
+ * Options for processing a repository
+ */
+export interface ProcessRepositoryOptions {
+  /**
+   * The branch, tag or commit to process (defaults to the repository's default branch).
+   * Each ref is indexed separately, in its own worktree.
+   */
+  ref?: string;
+
+  /**
+   * The branch to process
+   * @deprecated Use ref
+   */
+  branch?: string;
+
+  /**
+   * Re-index every file instead of only the files changed since the last indexed commit
+   */
+  fullRebuild?: boolean;
+
+  /**
+   * Which files to index, in addition to the repository's own `.ragconfig.json`
+   */
+  fileSelection?: FileSelectionOptions;
+
+  /**
+   * How much of the repository to download, overriding the processor's defaults
+   */
+  clone?: CloneOptions;
+
+  /**
+   * Generate natural-language summaries of each file, each directory and the
+   * repository; requires a chat provider to be configured
+   */
+  summarize?: boolean;
+
+  /**
+   * Called whenever processing enters a new phase or makes progress
+   */
+  onProgress?: (progress: ProcessingProgress) => void;
+
+  /**
+   * Cancels processing when aborted
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Rules selecting the files of a repository to index. Used both for the
+ * `.ragconfig.json` file in a repository and per processing request.
+ */
+export interface FileSelectionOptions {
+  /**
+   * Only index files matching one of these path globs
+   */
+  include?: string[];
+
+  /**
+   * Never index files matching one of these path globs
+   */
+  exclude?: string[];
+
+  /**
+   * Maximum file size in bytes (defaults to 2 MiB)
+   */
+  maxFileSize?: number;
+}
+
+/**
+ * Options limiting how much of a repository is downloaded
+ */
+export interface CloneOptions {
+  /**
+   * Only fetch this many commits of history per ref (defaults to the full history)
+   */
+  depth?: number;
+
+  /**
+   * Check out only the files matched by the include globs of the file
+   * selection, downloading file contents on demand (defaults to true when
+   * include globs are given)
+   */
+  sparse?: boolean;
+}
+
+/**
+ * What to remove from the work directory once a repository ref is processed:
+ * nothing, the ref's checked out files, or the whole clone. Keeping the clone
+ * makes later incremental runs cheaper.
+ */
+export type WorkDirCleanup = 'keep' | 'worktree' | 'all';
+
+/**
+ * Why a file was not indexed
+ */
+export type SkipReason =
+  | 'gitignored'
+  | 'generated'
+  | 'vendored'
+  | 'excluded'
+  | 'not-included'
+  | 'too-large'
+  | 'minified'
+  | 'binary'
+  | 'empty'
+  | 'unreadable';
+
+/**
+ * A file that was not indexed
+ */
+export interface SkippedFile {
+  /**
+   * Path of the file relative to the repository root
+   */
+  path: string;
+
+  /**
+   * Why the file was skipped
+   */
+  reason: SkipReason;
+
+  /**
+   * The rule or limit that caused the skip, where there is one
+   */
+  detail?: string;
+}
+
+/**
+ * The stages of repository processing
+ */
+export type ProcessingPhase = 'cloning' | 'chunking' | 'embedding' | 'indexing' | 'summarizing';
+
+/**
+ * Progress of a repository processing run
+ */
+export interface ProcessingProgress {
+  /**
+   * The current phase
+   */
+  phase: ProcessingPhase;
+
+  /**
+   * Number of files being processed, once known
+   */
+  filesTotal?: number;
+
+  /**
+   * Number of files read and chunked so far
+   */
+  filesProcessed?: number;
+
+  /**
+   * Number of chunks to index, known once all files are chunked
+   */
+  chunksTotal?: number;
+
+  /**
+   * Number of chunks written to the vector database so far
+   */
+  chunksIndexed: number;
+
+  /**
+   * Number of chunks that could not be indexed so far
+   */
+  chunksFailed: number;
+}
+
+/**
+ * Summary of a repository processing run
+ */
+export interface ProcessRepositoryResult {
+  /**
+   * The ID of the repository in the repository registry
+   */
+  repositoryId: string;
+
+  /**
+   * The processed ref, or undefined for the default branch
+   */
+  ref?: string;
+
+  /**
+   * What kind of ref was processed
+   */
+  refType?: RefType;
+
+  /**
+   * Whether the whole repository or only changed files were processed
+   */
+  mode: 'full' | 'incremental';
+
+  /**
+   * The commit that was indexed
+   */
+  commit: string;
+
+  /**
+   * The previously indexed commit, for incremental runs
+   */
+  previousCommit?: string;
+
+  /**
+   * The files that changed since the previous commit, for incremental runs
+   */
+  changedFiles?: FileChange[];
+
+  /**
+   * Number of stale chunks removed from the vector database
+   */
+  chunksDeleted: number;
+
+  /**
+   * Files that were considered but not indexed, and why
+   */
+  skippedFiles: SkippedFile[];
+
+  /**
+   * Number of chunks written to the vector database
+   */
+  chunksIndexed: number;
+
+  /**
+   * Chunks that were indexed without an embedding, and why
+   */
+  chunksWithoutEmbedding: DocumentFailure[];
+
+  /**
+   * Chunks that could not be indexed at all, and why
+   */
+  failedChunks: DocumentFailure[];
+
+  /**
+   * Number of embeddings served from the embedding cache
+   */
+  embeddingCacheHits: number;
+
+  /**
+   * Number of embeddings that had to be requested from the provider
+   */
+  embeddingCacheMisses: number;
+
+  /**
+   * Number of file, directory and repository summaries generated, zero when summaries were not requested
+   */
+  summariesGenerated: number;
+
+  /**
+   * Paths of the files and directories that could not be summarized
+   */
+  summariesFailed: string[];
+}
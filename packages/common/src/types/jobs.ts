@@ -0,0 +1,100 @@
+/**
+ * Types related to background ingestion jobs
+ */
+
+import {
+  CloneOptions,
+  FileSelectionOptions,
+  ProcessingProgress,
+  ProcessRepositoryResult
+} from './github';
+
+/**
+ * Lifecycle states of a job
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Parameters of a repository ingestion job
+ */
+export interface ProcessRepositoryJobRequest {
+  /**
+   * URL of the repository to process
+   */
+  repositoryUrl: string;
+
+  /**
+   * The branch, tag or commit to process (defaults to the repository's default branch)
+   */
+  ref?: string;
+
+  /**
+   * Re-index every file instead of only changed files
+   */
+  fullRebuild?: boolean;
+
+  /**
+   * Which files to index, in addition to the repository's `.ragconfig.json`
+   */
+  fileSelection?: FileSelectionOptions;
+
+  /**
+   * How much of the repository to download
+   */
+  clone?: CloneOptions;
+
+  /**
+   * Generate summaries of files, directories and the repository
+   */
+  summarize?: boolean;
+}
+
+/**
+ * A repository ingestion job
+ */
+export interface Job {
+  /**
+   * The job ID
+   */
+  id: string;
+
+  /**
+   * The current state
+   */
+  status: JobStatus;
+
+  /**
+   * What the job processes
+   */
+  request: ProcessRepositoryJobRequest;
+
+  /**
+   * The latest progress report, once the job has started
+   */
+  progress?: ProcessingProgress;
+
+  /**
+   * The processing summary, once the job has completed
+   */
+  result?: ProcessRepositoryResult;
+
+  /**
+   * Why the job failed
+   */
+  error?: string;
+
+  /**
+   * When the job was submitted (ISO 8601)
+   */
+  createdAt: string;
+
+  /**
+   * When the job last started running (ISO 8601)
+   */
+  startedAt?: string;
+
+  /**
+   * When the job completed, failed or was cancelled (ISO 8601)
+   */
+  finishedAt?: string;
+}
@@ -0,0 +1,52 @@
+/**
+ * Types related to language detection
+ */
+
+/**
+ * How files of a language are split below the file level: `code` extracts
+ * classes and functions (with tree-sitter where a grammar is available,
+ * line heuristics otherwise), `markdown` splits at headings, `structured`
+ * splits JSON, YAML and TOML files at their top-level keys, `notebook`
+ * extracts the cells of Jupyter notebooks and `none` only indexes whole files
+ */
+export type LanguageChunker = 'code' | 'markdown' | 'structured' | 'notebook' | 'none';
+
+/**
+ * A language and the ways to recognize its files
+ */
+export interface LanguageDefinition {
+  /**
+   * Identifier stored in chunk metadata and used in filters, e.g. `typescript`
+   */
+  id: string;
+
+  /**
+   * File extensions including the dot, e.g. `.ts`; matched case-insensitively
+   */
+  extensions?: string[];
+
+  /**
+   * Exact file names, e.g. `Dockerfile` or `Makefile`
+   */
+  filenames?: string[];
+
+  /**
+   * Interpreters named in a shebang line, e.g. `python3` or `node`
+   */
+  interpreters?: string[];
+
+  /**
+   * Names used in Vim and Emacs modelines, in addition to the ID
+   */
+  aliases?: string[];
+
+  /**
+   * Strings whose presence identifies the language when nothing else does
+   */
+  contentMarkers?: string[];
+
+  /**
+   * How the language's files are chunked (defaults to `none`)
+   */
+  chunker?: LanguageChunker;
+}
@@ -0,0 +1,95 @@
+/**
+ * Types related to the registry of indexed repositories
+ */
+
+import { RefType } from './github';
+
+/**
+ * Indexing state of one ref of a repository
+ */
+export interface RepositoryRefRecord {
+  /**
+   * The branch, tag or commit, or undefined for the repository's default branch
+   */
+  ref?: string;
+
+  /**
+   * What kind of ref this is
+   */
+  refType?: RefType;
+
+  /**
+   * The last indexed commit SHA
+   */
+  commit: string;
+
+  /**
+   * Number of chunks stored for the ref
+   */
+  chunkCount: number;
+
+  /**
+   * Number of indexed files per language
+   */
+  languages: Record<string, number>;
+
+  /**
+   * When the ref was last indexed (ISO 8601)
+   */
+  indexedAt: string;
+}
+
+/**
+ * A repository known to the system
+ */
+export interface RepositoryRecord {
+  /**
+   * Stable ID derived from the repository URL
+   */
+  id: string;
+
+  /**
+   * The repository URL
+   */
+  url: string;
+
+  /**
+   * The owner or organization name
+   */
+  owner: string;
+
+  /**
+   * The name of the repository
+   */
+  name: string;
+
+  /**
+   * The indexed branches, tags and commits
+   */
+  refs: RepositoryRefRecord[];
+
+  /**
+   * When the repository was first indexed (ISO 8601)
+   */
+  createdAt: string;
+
+  /**
+   * When any ref was last indexed (ISO 8601)
+   */
+  updatedAt: string;
+}
+
+/**
+ * Chunk statistics of an indexed repository ref
+ */
+export interface RepositoryStats {
+  /**
+   * Number of chunks stored
+   */
+  chunkCount: number;
+
+  /**
+   * Number of indexed files per language
+   */
+  languages: Record<string, number>;
+}
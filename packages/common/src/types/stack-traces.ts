@@ -0,0 +1,59 @@
+/**
+ * Types related to stack traces in queries
+ */
+
+/**
+ * The runtimes whose stack traces are recognized
+ */
+export type StackTraceFormat = 'node' | 'python' | 'java' | 'go';
+
+/**
+ * A frame of a stack trace found in a query
+ */
+export interface StackFrame {
+  /**
+   * The runtime that printed the frame
+   */
+  format: StackTraceFormat;
+
+  /**
+   * The file path as printed, with forward slashes; for Java, the path derived
+   * from the package and file name
+   */
+  filePath: string;
+
+  /**
+   * The function or method name as printed, if any
+   */
+  functionName?: string;
+
+  /**
+   * The line number (1-based), if printed
+   */
+  line?: number;
+}
+
+/**
+ * How a search hit matched a stack frame
+ */
+export interface FrameMatch {
+  /**
+   * Position of the frame in the result's `stackFrames`
+   */
+  frameIndex: number;
+
+  /**
+   * The frame
+   */
+  frame: StackFrame;
+
+  /**
+   * What matched: always the file, and the line range and symbol name where they match
+   */
+  matchedBy: ('file' | 'line' | 'symbol')[];
+
+  /**
+   * Whether the hit was added for the frame rather than found by the search
+   */
+  forced: boolean;
+}
@@ -2,7 +2,10 @@
  * Types related to vector database operations
  */
 
-import { CodeChunk, UseCase } from './github';
+import { CodeChunk, ChunkType, UseCase } from './github';
+import { EmbeddingBatchOptions } from './embedding';
+import { UseCaseClassification } from './classification';
+import { FrameMatch, StackFrame } from './stack-traces';
 
 /**
  * Vector database document structure
@@ -74,7 +77,17 @@ export interface VectorDBConfig {
      * The dimensionality of the vector embeddings
      */
     dimensions: number;
+
+    /**
+     * The name of the repository registry index (defaults to `<name>-repositories`)
+     */
+    registryName?: string;
   };
+
+  /**
+   * Options for batching and rate limiting embedding requests
+   */
+  embedding?: EmbeddingBatchOptions;
 }
 
 /**
@@ -87,9 +100,9 @@ export interface VectorSearchParams {
   query: string;
   
   /**
-   * The use case for this search
+   * The use case for this search; with several, chunks of any of them are searched
    */
-  useCase: UseCase;
+  useCase: UseCase | UseCase[];
   
   /**
    * Maximum number of results to return
@@ -97,14 +110,220 @@ export interface VectorSearchParams {
   limit?: number;
   
   /**
-   * Minimum similarity score threshold
+   * Minimum score of returned hits; the scale depends on the search mode
+   * and fusion method
    */
   minScore?: number;
   
   /**
    * Additional filters to apply
    */
-  filters?: Record<string, any>;
+  filters?: SearchFilter;
+
+  /**
+   * How candidates are retrieved (defaults to hybrid)
+   */
+  mode?: SearchMode;
+
+  /**
+   * How keyword and vector results are combined in hybrid mode
+   */
+  hybrid?: HybridSearchOptions;
+}
+
+/**
+ * Structured search filter. All conditions present in one filter must hold;
+ * use `or` and `not` for other combinations. Fields accepting arrays match
+ * any of the given values.
+ */
+export interface SearchFilter {
+  /**
+   * Repository URLs
+   */
+  repository?: string | string[];
+
+  /**
+   * Branch names
+   */
+  branch?: string | string[];
+
+  /**
+   * Indexed refs: branch names, tag names or commit SHAs, or an empty string
+   * for the default branch
+   */
+  ref?: string | string[];
+
+  /**
+   * Languages, as detected when the repository was indexed
+   */
+  language?: string | string[];
+
+  /**
+   * Chunk types
+   */
+  chunkType?: ChunkType | ChunkType[];
+
+  /**
+   * File path prefixes, e.g. `packages/db/`
+   */
+  pathPrefix?: string | string[];
+
+  /**
+   * File path globs, e.g. `src/**` or `*.test.ts`. `*` does not cross directory
+   * boundaries, `**` does; globs without a slash match the file name in any directory
+   */
+  pathGlob?: string | string[];
+
+  /**
+   * Prefix of the function or class name
+   */
+  symbolPrefix?: string;
+
+  /**
+   * Line range the chunk must overlap; chunks without line information,
+   * such as whole files, never match
+   */
+  lines?: LineRange;
+
+  /**
+   * Filters that must all match
+   */
+  and?: SearchFilter[];
+
+  /**
+   * Filters of which at least one must match
+   */
+  or?: SearchFilter[];
+
+  /**
+   * Filter that must not match
+   */
+  not?: SearchFilter;
+}
+
+/**
+ * An inclusive, 1-based range of lines; either end may be left open
+ */
+export interface LineRange {
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Retrieval strategies for search
+ */
+export enum SearchMode {
+  /**
+   * Nearest neighbours of the query embedding only
+   */
+  VECTOR = 'vector',
+
+  /**
+   * BM25 full-text matching only
+   */
+  KEYWORD = 'keyword',
+
+  /**
+   * Both, with the two result lists fused into one ranking
+   */
+  HYBRID = 'hybrid',
+}
+
+/**
+ * Methods for fusing keyword and vector result lists
+ */
+export enum FusionMethod {
+  /**
+   * Reciprocal rank fusion: sums weight / (rankConstant + rank) over both lists
+   */
+  RRF = 'rrf',
+
+  /**
+   * Weighted sum of scores normalized to [0, 1] within each list
+   */
+  WEIGHTED = 'weighted',
+}
+
+/**
+ * Options for hybrid search
+ */
+export interface HybridSearchOptions {
+  /**
+   * The fusion method (defaults to RRF)
+   */
+  fusion?: FusionMethod;
+
+  /**
+   * Weight of the vector results (defaults to 1 for RRF, 0.5 for weighted)
+   */
+  vectorWeight?: number;
+
+  /**
+   * Weight of the keyword results (defaults to 1 for RRF, 0.5 for weighted)
+   */
+  keywordWeight?: number;
+
+  /**
+   * The RRF rank constant (defaults to 60)
+   */
+  rankConstant?: number;
+
+  /**
+   * Number of candidates fetched from each list before fusion
+   * (defaults to four times the limit)
+   */
+  candidates?: number;
+}
+
+/**
+ * Options for expanding search hits with their surrounding code
+ */
+export interface ContextExpansionOptions {
+  /**
+   * Maximum tokens of context added per hit (defaults to 1000)
+   */
+  tokenBudget?: number;
+}
+
+/**
+ * A search request, including options applied on top of the vector search
+ */
+export interface SearchRequest extends Omit<VectorSearchParams, 'useCase'> {
+  /**
+   * The use case for this search, several use cases to search across, or
+   * `auto` to classify the query
+   */
+  useCase: UseCase | UseCase[] | 'auto';
+
+  /**
+   * Expand each hit with its enclosing signatures, imports and neighbouring chunks
+   */
+  expandContext?: ContextExpansionOptions;
+}
+
+/**
+ * Surrounding code for a search hit
+ */
+export interface ChunkContext {
+  /**
+   * Signatures of the enclosing classes, outermost first
+   */
+  enclosingSignatures: string[];
+
+  /**
+   * Import statements of the file the hit is from
+   */
+  imports: string[];
+
+  /**
+   * Neighbouring chunks in source order: siblings within the same parent and adjacent parts of a split chunk
+   */
+  neighbours: CodeChunk[];
+
+  /**
+   * Tokens used by this context
+   */
+  tokens: number;
 }
 
 /**
@@ -120,4 +339,130 @@ export interface SearchResult {
    * The similarity scores for each chunk
    */
   scores: number[];
-}
\ No newline at end of file
+
+  /**
+   * Surrounding code for each chunk, when context expansion was requested
+   */
+  contexts?: ChunkContext[];
+
+  /**
+   * How the query was classified, when the use case was `auto`
+   */
+  classification?: UseCaseClassification;
+
+  /**
+   * Frames of a stack trace found in a bug fixing query, innermost first
+   */
+  stackFrames?: StackFrame[];
+
+  /**
+   * The frame each chunk matched, null for chunks matching no frame; present
+   * when `stackFrames` is
+   */
+  frameMatches?: (FrameMatch | null)[];
+}
+
+/**
+ * Search results for one ref in a cross-ref comparison
+ */
+export interface RefSearchResult extends SearchResult {
+  /**
+   * The ref that was searched, empty for the default branch
+   */
+  ref: string;
+}
+
+/**
+ * A code location found in the results of one or more refs
+ */
+export interface RefComparisonEntry {
+  /**
+   * The file path
+   */
+  filePath: string;
+
+  /**
+   * The function or class name, if any
+   */
+  symbolName?: string;
+
+  /**
+   * The chunk type
+   */
+  type: ChunkType;
+
+  /**
+   * The matching chunk in each ref whose results contain the location
+   */
+  refs: Record<string, { chunkId: string; score: number; contentHash?: string }>;
+
+  /**
+   * Whether the content differs between the refs whose results contain the location
+   */
+  changed: boolean;
+}
+
+/**
+ * Results of running the same search against several refs
+ */
+export interface RefComparisonResult {
+  /**
+   * The results of each ref, in the order the refs were given
+   */
+  results: RefSearchResult[];
+
+  /**
+   * The code locations found, ordered by their best score in any ref
+   */
+  entries: RefComparisonEntry[];
+
+  /**
+   * How the query was classified, when the use case was `auto`
+   */
+  classification?: UseCaseClassification;
+}
+
+/**
+ * A document that could not be fully processed
+ */
+export interface DocumentFailure {
+  /**
+   * The document ID
+   */
+  id: string;
+
+  /**
+   * The error message
+   */
+  error: string;
+}
+
+/**
+ * Result of indexing a batch of documents
+ */
+export interface IndexResult {
+  /**
+   * Number of documents successfully written to the index
+   */
+  indexed: number;
+
+  /**
+   * Documents that were indexed, but without an embedding because embedding failed
+   */
+  missingEmbeddings: DocumentFailure[];
+
+  /**
+   * Documents that could not be written to the index
+   */
+  failed: DocumentFailure[];
+
+  /**
+   * Number of embeddings served from the embedding cache
+   */
+  cacheHits: number;
+
+  /**
+   * Number of embeddings that had to be requested from the provider
+   */
+  cacheMisses: number;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { LanguageRegistry } from '../src/languages';
+
+/**
+ * Detects the language ID of a file with the built-in languages
+ */
+function detect(filePath: string, content?: string): string | undefined {
+  return new LanguageRegistry().detect(filePath, content)?.id;
+}
+
+describe('LanguageRegistry.detect', () => {
+  it('detects languages by file name and case-insensitive extension', () => {
+    expect(detect('build/Dockerfile')).toBe('dockerfile');
+    expect(detect('Makefile')).toBe('makefile');
+    expect(detect('src/App.TSX')).toBe('typescript');
+    expect(detect('lib\\util.py')).toBe('python');
+    expect(detect('.bashrc')).toBe('shell');
+    expect(detect('.env')).toBeUndefined();
+    expect(detect('LICENSE')).toBeUndefined();
+  });
+
+  it.each([
+    ['#!/usr/bin/python3', 'python'],
+    ['#!/usr/bin/env python3.12', 'python'],
+    ['#!/usr/bin/env -S NODE_OPTIONS=--inspect node --harmony', 'javascript'],
+    ['#! /bin/bash -e', 'shell'],
+    ['#!/usr/bin/env deno run', 'typescript'],
+  ])('detects "%s" scripts by their interpreter', (shebang, language) => {
+    expect(detect('bin/tool', `${shebang}\nmain\n`)).toBe(language);
+  });
+
+  it('ignores unknown interpreters and shebangs after the first line', () => {
+    expect(detect('bin/tool', '#!/usr/bin/env unknown\n')).toBeUndefined();
+    expect(detect('bin/tool', '\n#!/usr/bin/python3\n')).toBeUndefined();
+  });
+
+  it.each([
+    ['# vim: set ft=python:', 'python'],
+    ['// vi: filetype=sh', 'shell'],
+    ['# -*- mode: ruby -*-', 'ruby'],
+    ['# -*- yaml -*-', 'yaml'],
+    ['/* ex: syntax=JS */', 'javascript'],
+  ])('detects the modeline "%s"', (modeline, language) => {
+    expect(detect('config/settings', `${modeline}\nvalue\n`)).toBe(language);
+  });
+
+  it('lets modelines override the extension but only near the start and end of a file', () => {
+    const body = Array.from({ length: 20 }, (_, index) => `line ${index}`);
+
+    expect(detect('scripts/run.txt', ['#!/bin/sh', '# vim: ft=python', ...body].join('\n'))).toBe('python');
+    expect(detect('scripts/run.js', [...body, '// vim: ft=typescript'].join('\n'))).toBe('typescript');
+    expect(detect('scripts/run.js', [...body.slice(0, 10), '// vim: ft=typescript', ...body].join('\n'))).toBe('javascript');
+    expect(detect('scripts/run.js', '// vim: ft=unknown\n')).toBe('javascript');
+  });
+
+  it('prefers the path over the shebang and falls back to content markers', () => {
+    expect(detect('tool.rb', '#!/usr/bin/env python3\n')).toBe('ruby');
+    expect(detect('templates/page', '<!DOCTYPE html>\n<html></html>\n')).toBe('html');
+    expect(detect('feed', '<?xml version="1.0"?>\n<rss/>\n')).toBe('xml');
+    expect(detect('index', '<?php echo 1;\n')).toBe('php');
+  });
+
+  it('uses languages registered later over earlier ones', () => {
+    const registry = new LanguageRegistry();
+    registry.register({ id: 'jsonnet', extensions: ['.json'], interpreters: ['jsonnet'] });
+    registry.register({ id: 'python', aliases: ['snake'] });
+
+    expect(registry.detect('a.json')?.id).toBe('jsonnet');
+    expect(registry.detect('a', '# vim: ft=snake\n')?.id).toBe('python');
+    expect(registry.get('python')?.extensions).toContain('.py');
+  });
+});
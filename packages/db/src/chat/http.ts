@@ -0,0 +1,132 @@
+/**
+ * Chat provider for OpenAI-compatible HTTP endpoints
+ */
+
+import {
+  ChatProvider,
+  ChatMessage,
+  ChatCompletionOptions,
+  HttpChatConfig
+} from '@github-rag-system/common';
+
+/**
+ * Error returned by a chat endpoint, carrying the HTTP status
+ */
+export class ChatRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ChatRequestError';
+  }
+}
+
+/**
+ * Chat provider that talks to any server implementing the OpenAI
+ * `/chat/completions` API, such as llama.cpp or Ollama
+ */
+export class HttpChatProvider implements ChatProvider {
+  readonly id: string;
+  private config: Omit<HttpChatConfig, 'type'>;
+
+  /**
+   * Creates a new HttpChatProvider
+   * @param config The endpoint configuration
+   */
+  constructor(config: Omit<HttpChatConfig, 'type'>) {
+    if (!config.baseUrl || !config.model) {
+      throw new Error('Base URL and model are required for the HTTP chat provider');
+    }
+
+    this.config = config;
+    this.id = `http:${config.model}`;
+  }
+
+  /**
+   * Generates a completion by calling the remote endpoint
+   * @param messages The conversation so far
+   * @param options Generation limits and abort signal
+   * @returns Promise resolving to the generated text
+   */
+  async complete(messages: ChatMessage[], options: ChatCompletionOptions = {}): Promise<string> {
+    const response = await this.request(messages, options, false);
+    const body = await response.json() as { choices: { message?: { content?: string } }[] };
+    return body.choices[0]?.message?.content || '';
+  }
+
+  /**
+   * Streams a completion from the remote endpoint, which sends it as server-sent events
+   * @param messages The conversation so far
+   * @param options Generation limits and abort signal
+   * @returns Async iterator over the generated text fragments
+   */
+  async *stream(messages: ChatMessage[], options: ChatCompletionOptions = {}): AsyncGenerator<string> {
+    const response = await this.request(messages, options, true);
+    if (!response.body) {
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        // Events are separated by blank lines; keep an incomplete one for the next read
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+          if (data === '[DONE]') {
+            return;
+          }
+          if (data) {
+            const event = JSON.parse(data) as { choices: { delta?: { content?: string } }[] };
+            const text = event.choices[0]?.delta?.content;
+            if (text) {
+              yield text;
+            }
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Sends a chat completion request
+   * @param messages The conversation so far
+   * @param options Generation limits and abort signal
+   * @param stream Whether to request a streamed response
+   * @returns Promise resolving to the successful response
+   */
+  private async request(messages: ChatMessage[], options: ChatCompletionOptions, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw new ChatRequestError(
+        `Chat request failed with status ${response.status}: ${await response.text()}`,
+        response.status
+      );
+    }
+    return response;
+  }
+}
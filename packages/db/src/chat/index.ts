@@ -0,0 +1,28 @@
+/**
+ * Chat completion providers
+ */
+
+import { ChatProvider, ChatProviderConfig } from '@github-rag-system/common';
+import { OpenAIChatProvider } from './openai';
+import { HttpChatProvider } from './http';
+import { StubChatProvider } from './stub';
+
+/**
+ * Creates a chat provider from its configuration
+ * @param config The provider configuration
+ * @returns The configured chat provider
+ */
+export function createChatProvider(config: ChatProviderConfig): ChatProvider {
+  switch (config.type) {
+    case 'openai':
+      return new OpenAIChatProvider(config);
+    case 'http':
+      return new HttpChatProvider(config);
+    case 'stub':
+      return new StubChatProvider();
+  }
+}
+
+export * from './openai';
+export * from './http';
+export * from './stub';
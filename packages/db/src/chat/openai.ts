@@ -0,0 +1,80 @@
+/**
+ * OpenAI chat provider
+ */
+
+import OpenAI from 'openai';
+import {
+  ChatProvider,
+  ChatMessage,
+  ChatCompletionOptions,
+  OpenAIChatConfig
+} from '@github-rag-system/common';
+
+/**
+ * Chat provider backed by the OpenAI chat completions API
+ */
+export class OpenAIChatProvider implements ChatProvider {
+  readonly id: string;
+  private client: OpenAI;
+  private model: string;
+
+  /**
+   * Creates a new OpenAIChatProvider
+   * @param config The OpenAI provider configuration
+   */
+  constructor(config: Omit<OpenAIChatConfig, 'type'>) {
+    if (!config.apiKey) {
+      throw new Error('OpenAI API key is required for the OpenAI chat provider');
+    }
+
+    this.client = new OpenAI({ apiKey: config.apiKey });
+    this.model = config.model || 'gpt-4o-mini';
+    this.id = `openai:${this.model}`;
+  }
+
+  /**
+   * Generates a completion using OpenAI's API
+   * @param messages The conversation so far
+   * @param options Generation limits and abort signal
+   * @returns Promise resolving to the generated text
+   */
+  async complete(messages: ChatMessage[], options: ChatCompletionOptions = {}): Promise<string> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+      },
+      { signal: options.signal }
+    );
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  /**
+   * Streams a completion from OpenAI's API
+   * @param messages The conversation so far
+   * @param options Generation limits and abort signal
+   * @returns Async iterator over the generated text fragments
+   */
+  async *stream(messages: ChatMessage[], options: ChatCompletionOptions = {}): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        stream: true,
+      },
+      { signal: options.signal }
+    );
+
+    for await (const part of stream) {
+      const text = part.choices[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+}
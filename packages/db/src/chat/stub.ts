@@ -0,0 +1,54 @@
+/**
+ * Deterministic in-process chat provider
+ */
+
+import { createHash } from 'crypto';
+import { ChatProvider, ChatMessage, ChatCompletionOptions } from '@github-rag-system/common';
+
+/**
+ * Maximum number of characters of the last user message repeated in a response
+ */
+const MAX_ECHO_LENGTH = 200;
+
+/**
+ * Chat provider that answers without a model, by echoing the start of the
+ * last user message. The same conversation always yields the same response,
+ * so it is suitable for offline use and tests.
+ */
+export class StubChatProvider implements ChatProvider {
+  readonly id = 'stub';
+
+  /**
+   * Generates a deterministic response
+   * @param messages The conversation so far
+   * @param options Only the abort signal is used
+   * @returns Promise resolving to the response
+   */
+  async complete(messages: ChatMessage[], options: ChatCompletionOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+
+    const digest = createHash('sha256')
+      .update(messages.map(message => `${message.role}\0${message.content}`).join('\0'))
+      .digest('hex')
+      .slice(0, 8);
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+    const text = (lastUserMessage?.content || '').replace(/\s+/g, ' ').trim();
+    const echo = text.length > MAX_ECHO_LENGTH ? `${text.slice(0, MAX_ECHO_LENGTH)}...` : text;
+
+    return `Stub response ${digest}: ${echo}`;
+  }
+
+  /**
+   * Generates the same response as `complete`, one word at a time
+   * @param messages The conversation so far
+   * @param options Only the abort signal is used
+   * @returns Async iterator over the words of the response, with their trailing whitespace
+   */
+  async *stream(messages: ChatMessage[], options: ChatCompletionOptions = {}): AsyncGenerator<string> {
+    const response = await this.complete(messages, options);
+    for (const word of response.match(/\S+\s*/g) || []) {
+      options.signal?.throwIfAborted();
+      yield word;
+    }
+  }
+}
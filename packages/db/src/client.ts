@@ -0,0 +1,53 @@
+/**
+ * OpenSearch client creation
+ */
+
+import { Client } from '@opensearch-project/opensearch';
+import { VectorDBConfig } from '@github-rag-system/common';
+
+/**
+ * Creates an OpenSearch client for a connection configuration
+ * @param connection The connection options
+ * @returns The client
+ */
+export function createOpenSearchClient(connection: VectorDBConfig['connection']): Client {
+  return new Client({
+    node: `http${connection.ssl ? 's' : ''}://${connection.host}:${connection.port}`,
+    auth: connection.auth ? {
+      username: connection.auth.username,
+      password: connection.auth.password,
+    } : undefined,
+  });
+}
+
+/**
+ * Ties an OpenSearch request to an abort signal. The client cancels requests
+ * through the promise it returns rather than through signals.
+ * @param request The pending request
+ * @param signal Aborts the request when aborted
+ * @returns Promise resolving to the response, or rejecting with the signal's
+ * reason once aborted
+ */
+export async function abortable<T>(request: Promise<T> & { abort(): unknown }, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return request;
+  }
+
+  // The client's abort returns the request itself, which an event listener
+  // must not return: its rejection would be reported as unhandled
+  const abort = () => {
+    request.abort();
+  };
+  if (signal.aborted) {
+    abort();
+  }
+  signal.addEventListener('abort', abort, { once: true });
+  try {
+    return await request;
+  } catch (error) {
+    signal.throwIfAborted();
+    throw error;
+  } finally {
+    signal.removeEventListener('abort', abort);
+  }
+}
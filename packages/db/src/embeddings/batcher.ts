@@ -0,0 +1,236 @@
+/**
+ * Batched, concurrent and rate-limited embedding generation
+ */
+
+import { EmbeddingProvider, EmbeddingBatchOptions } from '@github-rag-system/common';
+
+/**
+ * Outcome of embedding a single text
+ */
+export type EmbeddingOutcome =
+  | { embedding: number[]; error?: undefined }
+  | { embedding?: undefined; error: string };
+
+/**
+ * A group of texts sent to the provider in one request
+ */
+interface Batch {
+  indices: number[];
+  tokens: number;
+}
+
+/**
+ * Estimates the number of tokens in a text (roughly four characters per token)
+ * @param text The text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Gets the HTTP status code carried by a provider error, if any
+ * @param error The error thrown by the provider
+ * @returns The status code, or undefined for network and other errors
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Checks whether a failed request is worth retrying
+ * @param error The error thrown by the provider
+ * @returns True for rate limiting, server errors and network failures
+ */
+function isRetryable(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Waits for the given number of milliseconds
+ * @param ms The delay in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Sliding-window limiter for the number of tokens sent per minute
+ */
+class TokenRateLimiter {
+  private window: { time: number; tokens: number }[] = [];
+
+  /**
+   * Creates a new TokenRateLimiter
+   * @param tokensPerMinute The token budget per minute
+   */
+  constructor(private tokensPerMinute: number) {}
+
+  /**
+   * Waits until the given number of tokens fits into the budget, then reserves them
+   * @param tokens The number of tokens to send
+   */
+  async acquire(tokens: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.window = this.window.filter(entry => entry.time > now - 60_000);
+      const used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+
+      // A request larger than the whole budget is let through on an empty window
+      if (used + tokens <= this.tokensPerMinute || this.window.length === 0) {
+        this.window.push({ time: now, tokens });
+        return;
+      }
+
+      await sleep(this.window[0].time + 60_000 - now);
+    }
+  }
+}
+
+/**
+ * Splits texts into provider requests and runs them with bounded
+ * concurrency, retries and an optional per-minute token budget
+ */
+export class EmbeddingBatcher {
+  private provider: EmbeddingProvider;
+  private options: Required<Omit<EmbeddingBatchOptions, 'tokensPerMinute'>>;
+  private rateLimiter: TokenRateLimiter | null;
+
+  /**
+   * Creates a new EmbeddingBatcher
+   * @param provider The provider to request embeddings from
+   * @param options Batching, concurrency and retry options
+   */
+  constructor(provider: EmbeddingProvider, options: EmbeddingBatchOptions = {}) {
+    this.provider = provider;
+    this.options = {
+      maxBatchSize: options.maxBatchSize || 64,
+      maxBatchTokens: options.maxBatchTokens || 8000,
+      concurrency: options.concurrency || 4,
+      maxRetries: options.maxRetries ?? 5,
+      initialRetryDelayMs: options.initialRetryDelayMs ?? 1000,
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 60_000,
+    };
+    this.rateLimiter = options.tokensPerMinute ? new TokenRateLimiter(options.tokensPerMinute) : null;
+  }
+
+  /**
+   * Embeds all texts, reporting success or failure for each one
+   * @param texts The texts to embed
+   * @returns Promise resolving to one outcome per input text, in input order
+   */
+  async embedAll(texts: string[]): Promise<EmbeddingOutcome[]> {
+    const outcomes: EmbeddingOutcome[] = new Array(texts.length);
+    const queue = this.createBatches(texts);
+
+    const worker = async () => {
+      for (let batch = queue.shift(); batch; batch = queue.shift()) {
+        await this.runBatch(texts, batch, outcomes);
+      }
+    };
+
+    const workerCount = Math.min(this.options.concurrency, queue.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    return outcomes;
+  }
+
+  /**
+   * Groups texts into batches limited by count and estimated tokens
+   * @param texts The texts to group
+   * @returns Array of batches
+   */
+  private createBatches(texts: string[]): Batch[] {
+    const batches: Batch[] = [];
+    let current: Batch = { indices: [], tokens: 0 };
+
+    texts.forEach((text, index) => {
+      const tokens = estimateTokens(text);
+      if (
+        current.indices.length > 0 &&
+        (current.indices.length >= this.options.maxBatchSize ||
+          current.tokens + tokens > this.options.maxBatchTokens)
+      ) {
+        batches.push(current);
+        current = { indices: [], tokens: 0 };
+      }
+      current.indices.push(index);
+      current.tokens += tokens;
+    });
+
+    if (current.indices.length > 0) {
+      batches.push(current);
+    }
+
+    return batches;
+  }
+
+  /**
+   * Embeds one batch and records the outcome of each of its texts. When a
+   * batch is rejected outright, it is split in half to isolate the offending texts.
+   * @param texts All texts being embedded
+   * @param batch The batch to embed
+   * @param outcomes The outcome array to fill in
+   */
+  private async runBatch(texts: string[], batch: Batch, outcomes: EmbeddingOutcome[]): Promise<void> {
+    try {
+      const embeddings = await this.requestWithRetry(batch.indices.map(index => texts[index]), batch.tokens);
+      batch.indices.forEach((index, position) => {
+        outcomes[index] = { embedding: embeddings[position] };
+      });
+    } catch (error) {
+      if (batch.indices.length > 1 && !isRetryable(error)) {
+        const middle = Math.ceil(batch.indices.length / 2);
+        for (const indices of [batch.indices.slice(0, middle), batch.indices.slice(middle)]) {
+          const tokens = indices.reduce((sum, index) => sum + estimateTokens(texts[index]), 0);
+          await this.runBatch(texts, { indices, tokens }, outcomes);
+        }
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      for (const index of batch.indices) {
+        outcomes[index] = { error: message };
+      }
+    }
+  }
+
+  /**
+   * Requests embeddings from the provider, backing off exponentially on
+   * rate limiting and server errors
+   * @param texts The texts to embed
+   * @param tokens The estimated token count of the texts
+   * @returns Promise resolving to the embeddings
+   */
+  private async requestWithRetry(texts: string[], tokens: number): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter?.acquire(tokens);
+
+      try {
+        const embeddings = await this.provider.embed(texts);
+        if (embeddings.length !== texts.length) {
+          throw new Error(`Provider returned ${embeddings.length} embeddings for ${texts.length} texts`);
+        }
+        return embeddings;
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = Math.min(
+          this.options.initialRetryDelayMs * 2 ** attempt,
+          this.options.maxRetryDelayMs
+        );
+        // Add jitter so concurrent workers do not retry in lockstep
+        const jitteredDelay = delay / 2 + Math.random() * delay / 2;
+        console.warn(
+          `Embedding request failed (status ${getErrorStatus(error) ?? 'n/a'}), ` +
+          `retrying in ${Math.round(jitteredDelay)}ms`
+        );
+        await sleep(jitteredDelay);
+      }
+    }
+  }
+}
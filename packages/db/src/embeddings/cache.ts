@@ -0,0 +1,172 @@
+/**
+ * On-disk embedding cache
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { EmbeddingCache } from '@github-rag-system/common';
+
+/**
+ * Options for the file-based embedding cache
+ */
+export interface FileEmbeddingCacheOptions {
+  /**
+   * Directory holding the cache entries
+   */
+  directory: string;
+
+  /**
+   * Maximum total size of the cache in bytes (defaults to 512MB)
+   */
+  maxBytes?: number;
+}
+
+/**
+ * Builds the cache key for a text embedded by a given provider
+ * @param providerId The embedding provider ID, which includes the model
+ * @param text The embedded text
+ * @returns Hex-encoded cache key
+ */
+export function embeddingCacheKey(providerId: string, text: string): string {
+  return createHash('sha256').update(providerId).update('\0').update(text).digest('hex');
+}
+
+/**
+ * Embedding cache storing one float32 file per entry. When the cache grows
+ * beyond its size limit, the least recently used entries are evicted.
+ */
+export class FileEmbeddingCache implements EmbeddingCache {
+  private directory: string;
+  private maxBytes: number;
+  private entries: Map<string, { size: number; lastUsed: number }> | null = null;
+  private totalBytes = 0;
+
+  /**
+   * Creates a new FileEmbeddingCache
+   * @param options The cache directory and size limit
+   */
+  constructor(options: FileEmbeddingCacheOptions) {
+    this.directory = options.directory;
+    this.maxBytes = options.maxBytes || 512 * 1024 * 1024;
+  }
+
+  /**
+   * Looks up a cached embedding
+   * @param key The cache key
+   * @returns Promise resolving to the embedding, or undefined on a miss
+   */
+  async get(key: string): Promise<number[] | undefined> {
+    const entries = this.loadEntries();
+    const entry = entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    try {
+      const buffer = await fs.promises.readFile(this.entryPath(key));
+      const vector = new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+
+      // Record the access so eviction keeps recently used entries
+      entry.lastUsed = Date.now();
+      const now = new Date(entry.lastUsed);
+      await fs.promises.utimes(this.entryPath(key), now, now);
+
+      return Array.from(vector);
+    } catch {
+      // The entry disappeared or is unreadable
+      entries.delete(key);
+      this.totalBytes -= entry.size;
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores an embedding, evicting old entries if the cache is full
+   * @param key The cache key
+   * @param embedding The embedding vector
+   */
+  async set(key: string, embedding: number[]): Promise<void> {
+    const entries = this.loadEntries();
+    const buffer = Buffer.from(new Float32Array(embedding).buffer);
+    const filePath = this.entryPath(key);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, buffer);
+
+    const previous = entries.get(key);
+    if (previous) {
+      this.totalBytes -= previous.size;
+    }
+    entries.set(key, { size: buffer.byteLength, lastUsed: Date.now() });
+    this.totalBytes += buffer.byteLength;
+
+    if (this.totalBytes > this.maxBytes) {
+      await this.evict();
+    }
+  }
+
+  /**
+   * Removes least recently used entries until the cache is below 90% of its limit
+   */
+  private async evict(): Promise<void> {
+    const entries = this.loadEntries();
+    const target = this.maxBytes * 0.9;
+    const byAge = [...entries.entries()].sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+
+    for (const [key, entry] of byAge) {
+      if (this.totalBytes <= target) {
+        break;
+      }
+
+      await fs.promises.rm(this.entryPath(key), { force: true });
+      entries.delete(key);
+      this.totalBytes -= entry.size;
+    }
+  }
+
+  /**
+   * Scans the cache directory on first use to learn entry sizes and ages
+   * @returns The in-memory entry index
+   */
+  private loadEntries(): Map<string, { size: number; lastUsed: number }> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.entries = new Map();
+    this.totalBytes = 0;
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    for (const shard of fs.readdirSync(this.directory)) {
+      const shardPath = path.join(this.directory, shard);
+      if (!fs.statSync(shardPath).isDirectory()) {
+        continue;
+      }
+
+      for (const fileName of fs.readdirSync(shardPath)) {
+        if (!fileName.endsWith('.f32')) {
+          continue;
+        }
+
+        const stats = fs.statSync(path.join(shardPath, fileName));
+        this.entries.set(path.basename(fileName, '.f32'), {
+          size: stats.size,
+          lastUsed: stats.mtimeMs,
+        });
+        this.totalBytes += stats.size;
+      }
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * Gets the file path of a cache entry, sharded by key prefix
+   * @param key The cache key
+   * @returns The entry file path
+   */
+  private entryPath(key: string): string {
+    return path.join(this.directory, key.slice(0, 2), `${key}.f32`);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Embedding provider for OpenAI-compatible HTTP endpoints
+ */
+
+import { EmbeddingProvider, HttpEmbeddingConfig } from '@github-rag-system/common';
+
+/**
+ * Error returned by an embedding endpoint, carrying the HTTP status so callers can decide whether to retry
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+  }
+}
+
+/**
+ * Embedding provider that talks to any server implementing the OpenAI
+ * `/embeddings` API, such as llama.cpp or Ollama
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  private config: Omit<HttpEmbeddingConfig, 'type'>;
+
+  /**
+   * Creates a new HttpEmbeddingProvider
+   * @param config The endpoint configuration
+   */
+  constructor(config: Omit<HttpEmbeddingConfig, 'type'>) {
+    if (!config.baseUrl || !config.model) {
+      throw new Error('Base URL and model are required for the HTTP embedding provider');
+    }
+
+    this.config = config;
+    this.dimensions = config.dimensions;
+    this.id = `http:${config.model}:${config.dimensions}`;
+  }
+
+  /**
+   * Creates embeddings by calling the remote endpoint
+   * @param texts The texts to embed
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to one vector per input text
+   */
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        input: texts,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new EmbeddingRequestError(
+        `Embedding request failed with status ${response.status}: ${await response.text()}`,
+        response.status
+      );
+    }
+
+    const body = await response.json() as { data: { index: number; embedding: number[] }[] };
+    const embeddings = [...body.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    for (const embedding of embeddings) {
+      if (embedding.length !== this.dimensions) {
+        throw new Error(
+          `Embedding endpoint returned ${embedding.length} dimensions, expected ${this.dimensions}`
+        );
+      }
+    }
+
+    return embeddings;
+  }
+}
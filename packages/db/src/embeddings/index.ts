@@ -0,0 +1,30 @@
+/**
+ * Embedding providers for the vector database
+ */
+
+import { EmbeddingProvider, EmbeddingProviderConfig } from '@github-rag-system/common';
+import { OpenAIEmbeddingProvider } from './openai';
+import { HttpEmbeddingProvider } from './http';
+import { LocalEmbeddingProvider } from './local';
+
+/**
+ * Creates an embedding provider from its configuration
+ * @param config The provider configuration
+ * @returns The configured embedding provider
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.type) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config);
+    case 'http':
+      return new HttpEmbeddingProvider(config);
+    case 'local':
+      return new LocalEmbeddingProvider(config);
+  }
+}
+
+export * from './openai';
+export * from './http';
+export * from './local';
+export * from './batcher';
+export * from './cache';
@@ -0,0 +1,107 @@
+/**
+ * Deterministic in-process embedding provider
+ */
+
+import { EmbeddingProvider, LocalEmbeddingConfig } from '@github-rag-system/common';
+
+/**
+ * Embedding provider that hashes code-aware tokens into a fixed-size vector.
+ * It needs no network access or model files, so it is suitable for offline
+ * use and tests, at the cost of purely lexical similarity.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+
+  /**
+   * Creates a new LocalEmbeddingProvider
+   * @param config Optional provider configuration
+   */
+  constructor(config: Omit<LocalEmbeddingConfig, 'type'> = {}) {
+    this.dimensions = config.dimensions || 384;
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new Error(`Invalid dimensions for local embedding provider: ${config.dimensions}`);
+    }
+    this.id = `local:hashing:${this.dimensions}`;
+  }
+
+  /**
+   * Creates embeddings by feature-hashing the tokens of each text
+   * @param texts The texts to embed
+   * @param signal Checked before embedding, as embedding happens in process
+   * @returns Promise resolving to one vector per input text
+   */
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    signal?.throwIfAborted();
+    return texts.map(text => this.embedText(text));
+  }
+
+  /**
+   * Embeds a single text
+   * @param text The text to embed
+   * @returns The L2-normalised embedding vector
+   */
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    // Count term frequencies
+    const termCounts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      termCounts.set(token, (termCounts.get(token) || 0) + 1);
+    }
+
+    // Add sublinear TF weights into hashed buckets, using a second hash bit as
+    // the sign to reduce the bias from collisions
+    for (const [term, count] of termCounts) {
+      const hash = fnv1a(term);
+      const bucket = hash % this.dimensions;
+      const sign = (hash >>> 31) === 0 ? 1 : -1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+/**
+ * Splits text into lowercase tokens, additionally breaking identifiers on
+ * camelCase and snake_case boundaries
+ * @param text The text to tokenize
+ * @returns Array of tokens
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text.match(/[A-Za-z0-9_]+/g) || [];
+
+  for (const word of words) {
+    const lowerWord = word.toLowerCase();
+    tokens.push(lowerWord);
+
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .filter(Boolean);
+
+    if (parts.length > 1) {
+      tokens.push(...parts.map(part => part.toLowerCase()));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ * @param value The string to hash
+ * @returns Unsigned 32-bit hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
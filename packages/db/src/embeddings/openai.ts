@@ -0,0 +1,75 @@
+/**
+ * OpenAI embedding provider
+ */
+
+import OpenAI from 'openai';
+import { EmbeddingProvider, OpenAIEmbeddingConfig } from '@github-rag-system/common';
+
+/**
+ * Default vector sizes of the OpenAI embedding models
+ */
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+/**
+ * Embedding provider backed by the OpenAI embeddings API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  private client: OpenAI;
+  private model: string;
+  private requestDimensions?: number;
+
+  /**
+   * Creates a new OpenAIEmbeddingProvider
+   * @param config The OpenAI provider configuration
+   */
+  constructor(config: Omit<OpenAIEmbeddingConfig, 'type'>) {
+    if (!config.apiKey) {
+      throw new Error('OpenAI API key is required for the OpenAI embedding provider');
+    }
+
+    // Retries are handled by the EmbeddingBatcher
+    this.client = new OpenAI({ apiKey: config.apiKey, maxRetries: 0 });
+    this.model = config.model || 'text-embedding-3-small';
+
+    const defaultDimensions = MODEL_DIMENSIONS[this.model];
+    if (!config.dimensions && !defaultDimensions) {
+      throw new Error(`Unknown dimensions for embedding model ${this.model}; please configure them explicitly`);
+    }
+
+    // Only text-embedding-3 models accept a custom vector size
+    this.requestDimensions = config.dimensions && config.dimensions !== defaultDimensions
+      ? config.dimensions
+      : undefined;
+    this.dimensions = config.dimensions || defaultDimensions;
+    this.id = `openai:${this.model}:${this.dimensions}`;
+  }
+
+  /**
+   * Creates embeddings using OpenAI's API
+   * @param texts The texts to embed
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to one vector per input text
+   */
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: this.requestDimensions,
+    }, { signal });
+
+    // The API does not guarantee response order, so sort by input index
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
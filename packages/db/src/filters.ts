@@ -0,0 +1,285 @@
+/**
+ * Translation of structured search filters into OpenSearch queries
+ */
+
+import { ChunkType, SearchFilter } from '@github-rag-system/common';
+
+/**
+ * Filter fields that take one value or an array of values, and the document
+ * fields they match exactly
+ */
+const TERM_FIELDS: Record<string, string> = {
+  repository: 'metadata.repositoryInfo.url',
+  branch: 'metadata.repositoryInfo.branch',
+  ref: 'metadata.repositoryInfo.ref',
+  language: 'metadata.language',
+  chunkType: 'metadata.type',
+};
+
+/**
+ * All fields a filter may contain
+ */
+const FILTER_FIELDS = [
+  ...Object.keys(TERM_FIELDS),
+  'pathPrefix',
+  'pathGlob',
+  'symbolPrefix',
+  'lines',
+  'and',
+  'or',
+  'not',
+];
+
+/**
+ * Characters with special meaning in Lucene regular expressions, plus the
+ * `^` and `$` anchors of JavaScript ones, so that converted globs also work
+ * with `RegExp` (Lucene reads any escaped character literally)
+ */
+const REGEXP_RESERVED = /[.?+*|{}[\]()"\\#@&<>~^$]/g;
+
+/**
+ * Translates a filter into an OpenSearch query clause
+ * @param filter The filter to translate
+ * @returns A bool query matching documents that satisfy the filter
+ */
+export function buildFilterQuery(filter: SearchFilter): any {
+  const must: any[] = [];
+
+  for (const [key, field] of Object.entries(TERM_FIELDS)) {
+    const value = filter[key as keyof SearchFilter] as string | string[] | undefined;
+    if (value === undefined) {
+      continue;
+    }
+    if (key === 'ref' && toArray(value).includes('')) {
+      // Chunks of the default branch are stored without a ref
+      const refs = toArray(value).filter(ref => ref);
+      must.push(anyOf([
+        { bool: { must_not: [{ exists: { field } }] } },
+        ...(refs.length > 0 ? [{ terms: { [field]: refs } }] : [])
+      ]));
+    } else {
+      must.push({ terms: { [field]: toArray(value) } });
+    }
+  }
+
+  if (filter.pathPrefix !== undefined) {
+    must.push(anyOf(toArray(filter.pathPrefix).map(prefix => ({
+      prefix: { "metadata.filePath": prefix }
+    }))));
+  }
+
+  if (filter.pathGlob !== undefined) {
+    must.push(anyOf(toArray(filter.pathGlob).map(glob => ({
+      regexp: { "metadata.filePath": globToRegExp(glob) }
+    }))));
+  }
+
+  if (filter.symbolPrefix !== undefined) {
+    must.push({ prefix: { "metadata.symbolName": filter.symbolPrefix } });
+  }
+
+  if (filter.lines) {
+    // A chunk overlaps the range if it starts before its end and ends after its start
+    if (filter.lines.to !== undefined) {
+      must.push({ range: { "metadata.startLine": { lte: filter.lines.to } } });
+    }
+    if (filter.lines.from !== undefined) {
+      must.push({ range: { "metadata.endLine": { gte: filter.lines.from } } });
+    }
+  }
+
+  if (filter.and) {
+    must.push(...filter.and.map(buildFilterQuery));
+  }
+
+  if (filter.or) {
+    must.push(anyOf(filter.or.map(buildFilterQuery)));
+  }
+
+  if (filter.not) {
+    must.push({ bool: { must_not: [buildFilterQuery(filter.not)] } });
+  }
+
+  return { bool: { filter: must } };
+}
+
+/**
+ * Builds a query clause matching the indexed files that paths from another
+ * source, such as a stack trace, may refer to: files whose path ends with the
+ * given path, or that the given path ends with
+ * @param filePaths Paths with forward slashes, absolute or relative
+ * @returns A bool query matching documents of those files
+ */
+export function buildFilePathSuffixQuery(filePaths: string[]): any {
+  return anyOf(filePaths.map(filePath => {
+    const segments = filePath.split('/').filter(segment => segment !== '')
+      .map(segment => segment.replace(REGEXP_RESERVED, '\\$&'));
+    // Longer indexed paths end with the whole path, shorter ones are one of its suffixes
+    const suffixes = segments.slice(1).map((_, i) => segments.slice(i + 1).join('/'));
+    return { regexp: { "metadata.filePath": [`(.*/)?${segments.join('/')}`, ...suffixes].join('|') } };
+  }));
+}
+
+/**
+ * Checks that a value is a well-formed filter
+ * @param filter The value to check, typically taken from a request body
+ * @param path The location of the value, used in error messages
+ * @returns Array of error messages, empty if the filter is valid
+ */
+export function validateSearchFilter(filter: unknown, path = 'filters'): string[] {
+  if (!isPlainObject(filter)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(filter)) {
+    const fieldPath = `${path}.${key}`;
+    if (!FILTER_FIELDS.includes(key)) {
+      errors.push(`${fieldPath} is not a supported filter`);
+    } else if (key === 'chunkType') {
+      const types = Object.values(ChunkType) as string[];
+      if (!isStringOrStringArray(value) || toArray(value).some(type => !types.includes(type))) {
+        errors.push(`${fieldPath} must be one or more of: ${types.join(', ')}`);
+      }
+    } else if (key === 'ref') {
+      // An empty ref selects the default branch
+      if (!isStringOrStringArray(value, true)) {
+        errors.push(`${fieldPath} must be a string or array of strings`);
+      }
+    } else if (key in TERM_FIELDS || key === 'pathPrefix' || key === 'pathGlob') {
+      if (!isStringOrStringArray(value)) {
+        errors.push(`${fieldPath} must be a non-empty string or array of non-empty strings`);
+      }
+    } else if (key === 'symbolPrefix') {
+      if (typeof value !== 'string' || !value) {
+        errors.push(`${fieldPath} must be a non-empty string`);
+      }
+    } else if (key === 'lines') {
+      errors.push(...validateLineRange(value, fieldPath));
+    } else if (key === 'and' || key === 'or') {
+      if (!Array.isArray(value) || value.length === 0) {
+        errors.push(`${fieldPath} must be a non-empty array of filters`);
+      } else {
+        value.forEach((item, i) => errors.push(...validateSearchFilter(item, `${fieldPath}[${i}]`)));
+      }
+    } else if (key === 'not') {
+      errors.push(...validateSearchFilter(value, fieldPath));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Converts a path glob into an anchored Lucene regular expression
+ * @param glob The glob, supporting `*`, `**`, `?` and `{a,b}`
+ * @returns The regular expression
+ */
+export function globToRegExp(glob: string): string {
+  // Globs without a directory part match the file name anywhere
+  let regexp = glob.includes('/') ? '' : '(.*/)?';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        regexp += '(.*/)?';
+        i += 2;
+      } else {
+        regexp += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      regexp += '[^/]*';
+    } else if (char === '?') {
+      regexp += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      regexp += '(';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      regexp += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      regexp += '|';
+    } else {
+      regexp += char.replace(REGEXP_RESERVED, '\\$&');
+    }
+  }
+
+  return regexp;
+}
+
+/**
+ * Checks that a value is a valid line range
+ * @param value The value to check
+ * @param path The location of the value, used in error messages
+ * @returns Array of error messages
+ */
+function validateLineRange(value: unknown, path: string): string[] {
+  if (!isPlainObject(value)) {
+    return [`${path} must be an object with from and/or to`];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (key !== 'from' && key !== 'to') {
+      errors.push(`${path}.${key} is not supported`);
+    }
+  }
+  for (const key of ['from', 'to']) {
+    const line = value[key];
+    if (line !== undefined && (!Number.isInteger(line) || (line as number) < 1)) {
+      errors.push(`${path}.${key} must be a positive integer`);
+    }
+  }
+  if (value.from === undefined && value.to === undefined) {
+    errors.push(`${path} must have from and/or to`);
+  } else if (
+    typeof value.from === 'number' &&
+    typeof value.to === 'number' &&
+    value.from > value.to
+  ) {
+    errors.push(`${path}.from must not be greater than ${path}.to`);
+  }
+
+  return errors;
+}
+
+/**
+ * Combines clauses so that any one of them must match
+ * @param clauses The query clauses
+ * @returns A bool query
+ */
+function anyOf(clauses: any[]): any {
+  return { bool: { should: clauses, minimum_should_match: 1 } };
+}
+
+/**
+ * Wraps a single value in an array
+ * @param value A value or array of values
+ * @returns The values as an array
+ */
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Checks whether a value is a non-array object
+ * @param value The value to check
+ * @returns True if the value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a value is a non-empty string or a non-empty array of them
+ * @param value The value to check
+ * @param allowEmpty Whether empty strings are accepted
+ * @returns True if the value is valid
+ */
+function isStringOrStringArray(value: unknown, allowEmpty = false): value is string | string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.length > 0 && values.every(item => typeof item === 'string' && (allowEmpty || item.length > 0));
+}
@@ -0,0 +1,86 @@
+/**
+ * Fusion of keyword and vector search results
+ */
+
+/**
+ * A search hit from one of the result lists
+ */
+export interface RankedHit {
+  /**
+   * The document ID
+   */
+  id: string;
+
+  /**
+   * The score assigned by the query that produced the hit
+   */
+  score: number;
+
+  /**
+   * The stored document source
+   */
+  source: any;
+}
+
+/**
+ * A result list together with its weight in the fused ranking
+ */
+export interface WeightedHitList {
+  hits: RankedHit[];
+  weight: number;
+}
+
+/**
+ * Fuses result lists by reciprocal rank: each list contributes
+ * weight / (rankConstant + rank) for every document it contains
+ * @param lists The result lists, each ordered best first
+ * @param rankConstant Dampens the advantage of top ranks
+ * @returns The fused hits, best first
+ */
+export function reciprocalRankFusion(lists: WeightedHitList[], rankConstant: number): RankedHit[] {
+  return fuse(lists, ({ hits, weight }) =>
+    hits.map((hit, index) => weight / (rankConstant + index + 1))
+  );
+}
+
+/**
+ * Fuses result lists by a weighted sum of scores, min-max normalized within each
+ * list so that BM25 and similarity scores are comparable
+ * @param lists The result lists, each ordered best first
+ * @returns The fused hits, best first
+ */
+export function weightedScoreFusion(lists: WeightedHitList[]): RankedHit[] {
+  return fuse(lists, ({ hits, weight }) => {
+    const scores = hits.map(hit => hit.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+    return scores.map(score => weight * (range > 0 ? (score - min) / range : 1));
+  });
+}
+
+/**
+ * Sums the contributions of each list per document and sorts by the total
+ * @param lists The result lists
+ * @param contributions Computes the contribution of each hit in a list
+ * @returns The fused hits, best first
+ */
+function fuse(
+  lists: WeightedHitList[],
+  contributions: (list: WeightedHitList) => number[]
+): RankedHit[] {
+  const fused = new Map<string, RankedHit>();
+
+  for (const list of lists) {
+    const scores = contributions(list);
+    list.hits.forEach((hit, i) => {
+      const existing = fused.get(hit.id);
+      if (existing) {
+        existing.score += scores[i];
+      } else {
+        fused.set(hit.id, { ...hit, score: scores[i] });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
@@ -3,80 +3,116 @@
  */
 
 import { Client } from '@opensearch-project/opensearch';
-import OpenAI from 'openai';
 import {
   VectorDBConfig,
   VectorDocument,
   VectorSearchParams,
   SearchResult,
-  CodeChunk
+  CodeChunk,
+  ChunkType,
+  EmbeddingProvider,
+  EmbeddingCache,
+  IndexResult,
+  SearchMode,
+  FusionMethod,
+  HybridSearchOptions,
+  RepositoryStats,
+  SearchFilter
 } from '@github-rag-system/common';
+import { EmbeddingBatcher, embeddingCacheKey } from './embeddings';
+import { RankedHit, reciprocalRankFusion, weightedScoreFusion } from './fusion';
+import { buildFilterQuery, buildFilePathSuffixQuery } from './filters';
+import { abortable, createOpenSearchClient } from './client';
 
 /**
- * Extended configuration to include OpenAI API settings
+ * Analyzer that indexes identifiers both whole and split into their
+ * camelCase, PascalCase and snake_case words
  */
-export interface ExtendedVectorDBConfig extends VectorDBConfig {
-  openai?: {
-    apiKey: string;
-    model?: string;
-  };
-}
+const CODE_ANALYZER = 'code';
+
+/**
+ * Query-time counterpart of the code analyzer
+ */
+const CODE_SEARCH_ANALYZER = 'code_search';
 
 /**
  * Client for interacting with OpenSearch as a vector database
  */
 export class VectorDBClient {
   private client: Client;
-  private config: ExtendedVectorDBConfig;
-  private openai: OpenAI | null = null;
-  private embeddingModel: string;
+  private config: VectorDBConfig;
+  private embeddingProvider: EmbeddingProvider;
+  private embeddingBatcher: EmbeddingBatcher;
+  private embeddingCache?: EmbeddingCache;
 
   /**
    * Creates a new VectorDBClient
    * @param config The configuration for the vector database
+   * @param embeddingProvider The provider used to embed documents and queries
+   * @param embeddingCache Optional cache for document embeddings
    */
-  constructor(config: ExtendedVectorDBConfig) {
-    this.config = config;
-    this.client = new Client({
-      node: `http${config.connection.ssl ? 's' : ''}://${config.connection.host}:${config.connection.port}`,
-      auth: config.connection.auth ? {
-        username: config.connection.auth.username,
-        password: config.connection.auth.password,
-      } : undefined,
-    });
-
-    // Initialize OpenAI client if API key is provided
-    if (config.openai?.apiKey) {
-      this.openai = new OpenAI({
-        apiKey: config.openai.apiKey,
-      });
-      this.embeddingModel = config.openai.model || 'text-embedding-3-small';
-    } else {
-      console.warn('OpenAI API key not provided. Embedding functionality will be limited.');
-      this.embeddingModel = '';
+  constructor(config: VectorDBConfig, embeddingProvider: EmbeddingProvider, embeddingCache?: EmbeddingCache) {
+    if (config.index.dimensions !== embeddingProvider.dimensions) {
+      throw new Error(
+        `Index ${config.index.name} is configured for ${config.index.dimensions} dimensions, ` +
+        `but embedding provider ${embeddingProvider.id} produces ${embeddingProvider.dimensions}`
+      );
     }
+
+    this.config = config;
+    this.embeddingProvider = embeddingProvider;
+    this.embeddingBatcher = new EmbeddingBatcher(embeddingProvider, config.embedding);
+    this.embeddingCache = embeddingCache;
+    this.client = createOpenSearchClient(config.connection);
   }
 
   /**
-   * Creates an embedding using OpenAI's API
+   * Creates an embedding using the configured embedding provider
    * @param text The text to create an embedding for
    * @returns Promise resolving to the embedding vector
    */
-  private async createEmbedding(text: string): Promise<number[]> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not initialized. Please provide an API key.');
+  private async createEmbedding(text: string, signal?: AbortSignal): Promise<number[]> {
+    try {
+      const [embedding] = await this.embeddingProvider.embed([text], signal);
+      return embedding;
+    } catch (error) {
+      console.error('Failed to create embedding:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up a document embedding in the cache, treating cache errors as misses
+   * @param text The document text
+   * @returns Promise resolving to the cached embedding, if any
+   */
+  private async getCachedEmbedding(text: string): Promise<number[] | undefined> {
+    if (!this.embeddingCache) {
+      return undefined;
     }
 
     try {
-      const response = await this.openai.embeddings.create({
-        model: this.embeddingModel,
-        input: text,
-      });
+      return await this.embeddingCache.get(embeddingCacheKey(this.embeddingProvider.id, text));
+    } catch (error) {
+      console.warn('Failed to read from embedding cache:', error);
+      return undefined;
+    }
+  }
 
-      return response.data[0].embedding;
+  /**
+   * Stores a document embedding in the cache, ignoring cache errors
+   * @param text The document text
+   * @param embedding The embedding vector
+   */
+  private async setCachedEmbedding(text: string, embedding: number[]): Promise<void> {
+    if (!this.embeddingCache) {
+      return;
+    }
+
+    try {
+      await this.embeddingCache.set(embeddingCacheKey(this.embeddingProvider.id, text), embedding);
     } catch (error) {
-      console.error('Failed to create embedding:', error);
-      throw error;
+      console.warn('Failed to write to embedding cache:', error);
     }
   }
 
@@ -91,6 +127,41 @@ export class VectorDBClient {
       });
 
       if (indexExists.body) {
+        // Make sure the existing index can hold vectors from the current provider
+        const mapping = await this.client.indices.getMapping({
+          index: this.config.index.name,
+        });
+        const existingDimensions =
+          mapping.body[this.config.index.name]?.mappings?.properties?.embedding?.dimension;
+        if (existingDimensions && existingDimensions !== this.config.index.dimensions) {
+          throw new Error(
+            `Index ${this.config.index.name} was created with ${existingDimensions} dimensions, ` +
+            `but ${this.config.index.dimensions} are configured`
+          );
+        }
+
+        const textAnalyzer = mapping.body[this.config.index.name]?.mappings?.properties?.text?.analyzer;
+        if (textAnalyzer !== CODE_ANALYZER) {
+          console.warn(
+            `Index ${this.config.index.name} does not use the code-aware analyzer; ` +
+            'keyword search will not split camelCase or snake_case identifiers until the index is recreated'
+          );
+        }
+
+        // Fields added since the index was created are mapped now; documents indexed
+        // before then have no values for them until their repository is re-indexed
+        try {
+          await this.client.indices.putMapping({
+            index: this.config.index.name,
+            body: { properties: { metadata: this.metadataMapping() } },
+          });
+        } catch (error) {
+          throw new Error(
+            `Index ${this.config.index.name} has metadata fields that conflict with the current mapping; ` +
+            `delete the index and re-index all repositories (${error instanceof Error ? error.message : error})`
+          );
+        }
+
         console.log(`Index ${this.config.index.name} already exists`);
         return true;
       }
@@ -99,9 +170,42 @@ export class VectorDBClient {
       await this.client.indices.create({
         index: this.config.index.name,
         body: {
+          settings: {
+            index: { knn: true },
+            analysis: {
+              tokenizer: {
+                code_tokenizer: {
+                  type: 'pattern',
+                  // Split on anything that cannot be part of an identifier
+                  pattern: '[^\\p{L}\\p{N}_$]+'
+                }
+              },
+              filter: {
+                code_word_delimiter: {
+                  type: 'word_delimiter_graph',
+                  split_on_case_change: true,
+                  split_on_numerics: true,
+                  preserve_original: true
+                }
+              },
+              analyzer: {
+                [CODE_ANALYZER]: {
+                  type: 'custom',
+                  tokenizer: 'code_tokenizer',
+                  // Graph token streams must be flattened at index time
+                  filter: ['code_word_delimiter', 'flatten_graph', 'lowercase']
+                },
+                [CODE_SEARCH_ANALYZER]: {
+                  type: 'custom',
+                  tokenizer: 'code_tokenizer',
+                  filter: ['code_word_delimiter', 'lowercase']
+                }
+              }
+            }
+          },
           mappings: {
             properties: {
-              text: { type: 'text' },
+              text: { type: 'text', analyzer: CODE_ANALYZER, search_analyzer: CODE_SEARCH_ANALYZER },
               embedding: {
                 type: 'knn_vector',
                 dimension: this.config.index.dimensions,
@@ -111,27 +215,7 @@ export class VectorDBClient {
                   engine: 'nmslib',
                 },
               },
-              metadata: {
-                type: 'object',
-                properties: {
-                  repositoryInfo: {
-                    type: 'object',
-                    properties: {
-                      url: { type: 'keyword' },
-                      owner: { type: 'keyword' },
-                      name: { type: 'keyword' },
-                      branch: { type: 'keyword' }
-                    }
-                  },
-                  filePath: { type: 'keyword' },
-                  language: { type: 'keyword' },
-                  startLine: { type: 'integer' },
-                  endLine: { type: 'integer' },
-                  symbolName: { type: 'keyword' },
-                  type: { type: 'keyword' },
-                  useCases: { type: 'keyword' }
-                }
-              }
+              metadata: this.metadataMapping()
             }
           }
         }
@@ -145,30 +229,100 @@ export class VectorDBClient {
     }
   }
 
+  /**
+   * Gets the mapping of chunk metadata, shared by index creation and the
+   * update of existing indexes
+   * @returns The mapping of the metadata object
+   */
+  private metadataMapping(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        repositoryInfo: {
+          type: 'object',
+          properties: {
+            url: { type: 'keyword' },
+            owner: { type: 'keyword' },
+            name: { type: 'keyword' },
+            branch: { type: 'keyword' },
+            ref: { type: 'keyword' },
+            refType: { type: 'keyword' }
+          }
+        },
+        filePath: { type: 'keyword' },
+        language: { type: 'keyword' },
+        startLine: { type: 'integer' },
+        endLine: { type: 'integer' },
+        symbolName: { type: 'keyword' },
+        contentHash: { type: 'keyword' },
+        splitGroupId: { type: 'keyword' },
+        partIndex: { type: 'integer' },
+        partCount: { type: 'integer' },
+        previousPartId: { type: 'keyword' },
+        nextPartId: { type: 'keyword' },
+        parentId: { type: 'keyword' },
+        childIds: { type: 'keyword' },
+        signature: { type: 'text', index: false },
+        imports: { type: 'text', index: false },
+        headingPath: { type: 'keyword' },
+        cellIndex: { type: 'integer' },
+        cellType: { type: 'keyword' },
+        summaryScope: { type: 'keyword' },
+        type: { type: 'keyword' },
+        useCases: { type: 'keyword' }
+      }
+    };
+  }
+
   /**
    * Indexes a batch of documents in the vector database
    * @param documents Array of documents to index
-   * @returns Promise resolving to the number of successfully indexed documents
+   * @param onEmbedded Called once embeddings are ready, before documents are written
+   * @returns Promise resolving to the indexing result, including per-document failures
    */
-  async indexDocuments(documents: VectorDocument[]): Promise<number> {
+  async indexDocuments(documents: VectorDocument[], onEmbedded?: () => void): Promise<IndexResult> {
     try {
+      const result: IndexResult = {
+        indexed: 0,
+        missingEmbeddings: [],
+        failed: [],
+        cacheHits: 0,
+        cacheMisses: 0
+      };
       if (documents.length === 0) {
-        return 0;
+        return result;
       }
 
-      // Generate embeddings for documents that don't have them
-      const docsToProcess = [...documents];
-      for (let i = 0; i < docsToProcess.length; i++) {
-        if (!docsToProcess[i].embedding && this.openai) {
-          try {
-            docsToProcess[i].embedding = await this.createEmbedding(docsToProcess[i].text);
-          } catch (error) {
-            console.error(`Failed to create embedding for document ${docsToProcess[i].id}:`, error);
-            // Continue processing other documents
-          }
+      // Serve embeddings from the cache where possible
+      const docsToProcess = documents.map(doc => ({ ...doc }));
+      const pending = [];
+      for (const doc of docsToProcess.filter(doc => !doc.embedding)) {
+        const cached = await this.getCachedEmbedding(doc.text);
+        if (cached) {
+          doc.embedding = cached;
+          result.cacheHits++;
+        } else {
+          pending.push(doc);
+        }
+      }
+      result.cacheMisses = pending.length;
+
+      // Generate embeddings in batches for the remaining documents
+      const outcomes = await this.embeddingBatcher.embedAll(pending.map(doc => doc.text));
+
+      for (const [i, doc] of pending.entries()) {
+        const outcome = outcomes[i];
+        if (outcome.embedding) {
+          doc.embedding = outcome.embedding;
+          await this.setCachedEmbedding(doc.text, outcome.embedding);
+        } else {
+          console.error(`Failed to create embedding for document ${doc.id}: ${outcome.error}`);
+          result.missingEmbeddings.push({ id: doc.id, error: outcome.error });
         }
       }
 
+      onEmbedded?.();
+
       // Prepare bulk indexing operations
       const operations = docsToProcess.flatMap(doc => [
         { index: { _index: this.config.index.name, _id: doc.id } },
@@ -182,15 +336,23 @@ export class VectorDBClient {
       const response = await this.client.bulk({ body: operations });
       
       if (response.body.errors) {
-        const errors = response.body.items.filter((item: any) => item.index?.error);
-        console.error(`Errors during indexing: ${errors.length} failures`);
-        errors.forEach((error: any) => console.error(error.index?.error));
-        
-        // Return count of successful operations
-        return documents.length - errors.length;
+        response.body.items.forEach((item: any, i: number) => {
+          if (item.index?.error) {
+            result.failed.push({
+              id: docsToProcess[i].id,
+              error: item.index.error.reason || JSON.stringify(item.index.error),
+            });
+          }
+        });
+        console.error(`Errors during indexing: ${result.failed.length} failures`);
+
+        // Documents that failed to index are not reported as missing embeddings
+        const failedIds = new Set(result.failed.map(failure => failure.id));
+        result.missingEmbeddings = result.missingEmbeddings.filter(failure => !failedIds.has(failure.id));
       }
 
-      return documents.length;
+      result.indexed = documents.length - result.failed.length;
+      return result;
     } catch (error) {
       console.error('Failed to index documents:', error);
       throw error;
@@ -198,125 +360,398 @@ export class VectorDBClient {
   }
 
   /**
-   * Performs a vector search in OpenSearch
+   * Searches the index by keyword, by vector similarity, or both with the
+   * results fused into one ranking
    * @param params Search parameters
+   * @param signal Cancels the embedding and search requests when aborted
    * @returns Promise resolving to search results
    */
-  async search(params: VectorSearchParams): Promise<SearchResult> {
+  async search(params: VectorSearchParams, signal?: AbortSignal): Promise<SearchResult> {
     try {
-      // Build filters based on use case
-      const useCaseFilter = {
-        term: {
-          "metadata.useCases": params.useCase
-        }
-      };
-
-      // Additional filters can be added based on params.filters
-      const additionalFilters: any[] = [];
-      if (params.filters) {
-        Object.entries(params.filters).forEach(([key, value]) => {
-          additionalFilters.push({
-            term: {
-              [`metadata.${key}`]: value
-            }
-          });
-        });
-      }
+      signal?.throwIfAborted();
+      const limit = params.limit || 10;
+      const mode = params.mode || SearchMode.HYBRID;
+      const filters = this.buildFilters(params);
 
-      // Generate embedding for the query using OpenAI
+      // Generate embedding for the query
       let queryEmbedding: number[] | null = null;
-      if (this.openai) {
+      if (mode !== SearchMode.KEYWORD) {
         try {
-          queryEmbedding = await this.createEmbedding(params.query);
+          queryEmbedding = await this.createEmbedding(params.query, signal);
         } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
           console.error('Failed to create query embedding:', error);
-          // Will fall back to text search
+          // Will fall back to keyword search
         }
       }
 
-      let response;
-      if (queryEmbedding) {
-        // Build the vector search query
-        const vectorSearchBody = {
-          size: params.limit || 10,
-          query: {
-            bool: {
-              must: [
-                {
-                  knn: {
-                    embedding: {
-                      vector: queryEmbedding,
-                      k: params.limit || 10
-                    }
-                  }
-                }
-              ],
-              filter: [
-                useCaseFilter,
-                ...additionalFilters
-              ]
-            }
-          }
-        };
-
-        response = await this.client.search({
-          index: this.config.index.name,
-          body: vectorSearchBody
-        });
+      let hits: RankedHit[];
+      if (!queryEmbedding) {
+        hits = await this.keywordSearch(params.query, filters, limit, signal);
+      } else if (mode === SearchMode.VECTOR) {
+        hits = await this.vectorSearch(queryEmbedding, filters, limit, signal);
       } else {
-        // Fallback to text search if embedding generation fails
-        const fallbackSearchBody = {
-          size: params.limit || 10,
-          query: {
-            bool: {
-              must: [
-                {
-                  match: {
-                    text: params.query
-                  }
-                }
-              ],
-              filter: [
-                useCaseFilter,
-                ...additionalFilters
-              ]
+        hits = await this.hybridSearch(params.query, queryEmbedding, filters, limit, params.hybrid || {}, signal);
+      }
+
+      if (params.minScore !== undefined) {
+        hits = hits.filter(hit => hit.score >= params.minScore!);
+      }
+
+      return {
+        chunks: hits.map(hit => this.toCodeChunk(hit.id, hit.source)),
+        scores: hits.map(hit => hit.score)
+      };
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error('Search failed:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the filter clauses shared by all search modes
+   * @param params Search parameters
+   * @returns Array of filter clauses
+   */
+  private buildFilters(params: Pick<VectorSearchParams, 'useCase' | 'filters'>): any[] {
+    // Build filters based on use case
+    const filters: any[] = [
+      {
+        terms: {
+          "metadata.useCases": Array.isArray(params.useCase) ? params.useCase : [params.useCase]
+        }
+      }
+    ];
+
+    if (params.filters) {
+      filters.push(buildFilterQuery(params.filters));
+    }
+
+    return filters;
+  }
+
+  /**
+   * Runs a BM25 query on the chunk text, boosting exact symbol name matches
+   * @param query The query text
+   * @param filters Filter clauses
+   * @param size Number of hits to return
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to the hits, best first
+   */
+  private async keywordSearch(query: string, filters: any[], size: number, signal?: AbortSignal): Promise<RankedHit[]> {
+    return this.runQuery(size, {
+      bool: {
+        should: [
+          { match: { text: query } },
+          { term: { "metadata.symbolName": { value: query, boost: 3 } } }
+        ],
+        minimum_should_match: 1,
+        filter: filters
+      }
+    }, signal);
+  }
+
+  /**
+   * Runs a k-nearest-neighbour query on the chunk embeddings
+   * @param embedding The query embedding
+   * @param filters Filter clauses
+   * @param size Number of hits to return
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to the hits, best first
+   */
+  private async vectorSearch(embedding: number[], filters: any[], size: number, signal?: AbortSignal): Promise<RankedHit[]> {
+    return this.runQuery(size, {
+      bool: {
+        must: [
+          {
+            knn: {
+              embedding: {
+                vector: embedding,
+                k: size
+              }
             }
           }
-        };
+        ],
+        filter: filters
+      }
+    }, signal);
+  }
+
+  /**
+   * Runs the keyword and vector queries and fuses their results
+   * @param query The query text
+   * @param embedding The query embedding
+   * @param filters Filter clauses
+   * @param limit Number of hits to return
+   * @param options Fusion options
+   * @param signal Cancels the requests when aborted
+   * @returns Promise resolving to the fused hits, best first
+   */
+  private async hybridSearch(
+    query: string,
+    embedding: number[],
+    filters: any[],
+    limit: number,
+    options: HybridSearchOptions,
+    signal?: AbortSignal
+  ): Promise<RankedHit[]> {
+    const candidates = Math.max(options.candidates || limit * 4, limit);
+    const [keywordHits, vectorHits] = await Promise.all([
+      this.keywordSearch(query, filters, candidates, signal),
+      this.vectorSearch(embedding, filters, candidates, signal),
+    ]);
+
+    let fused: RankedHit[];
+    if (options.fusion === FusionMethod.WEIGHTED) {
+      fused = weightedScoreFusion([
+        { hits: keywordHits, weight: options.keywordWeight ?? 0.5 },
+        { hits: vectorHits, weight: options.vectorWeight ?? 0.5 },
+      ]);
+    } else {
+      fused = reciprocalRankFusion([
+        { hits: keywordHits, weight: options.keywordWeight ?? 1 },
+        { hits: vectorHits, weight: options.vectorWeight ?? 1 },
+      ], options.rankConstant ?? 60);
+    }
 
-        response = await this.client.search({
+    return fused.slice(0, limit);
+  }
+
+  /**
+   * Runs a query against the index
+   * @param size Number of hits to return
+   * @param query The query clause
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to the hits, best first
+   */
+  private async runQuery(size: number, query: any, signal?: AbortSignal): Promise<RankedHit[]> {
+    const response = await abortable(this.client.search({
+      index: this.config.index.name,
+      body: { size, query }
+    }), signal);
+
+    return response.body.hits.hits.map((hit: any) => ({
+      id: hit._id,
+      score: hit._score,
+      source: hit._source
+    }));
+  }
+
+  /**
+   * Gets a single chunk by its ID
+   * @param id The chunk ID
+   * @returns Promise resolving to the chunk, or null if it does not exist
+   */
+  async getChunk(id: string): Promise<CodeChunk | null> {
+    try {
+      const response = await this.client.get(
+        { index: this.config.index.name, id },
+        { ignore: [404] }
+      );
+
+      if (!response.body.found) {
+        return null;
+      }
+
+      return this.toCodeChunk(response.body._id, response.body._source);
+    } catch (error) {
+      console.error(`Failed to get chunk ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets multiple chunks by their IDs
+   * @param ids The chunk IDs
+   * @param filters Only return chunks matching this filter
+   * @returns Promise resolving to the chunks that exist, keyed by ID
+   */
+  async getChunks(ids: string[], filters?: SearchFilter): Promise<Map<string, CodeChunk>> {
+    const chunks = new Map<string, CodeChunk>();
+    if (ids.length === 0) {
+      return chunks;
+    }
+
+    try {
+      const uniqueIds = [...new Set(ids)];
+      if (filters) {
+        const response = await this.client.search({
           index: this.config.index.name,
-          body: fallbackSearchBody
+          body: {
+            size: uniqueIds.length,
+            query: { bool: { filter: [{ ids: { values: uniqueIds } }, buildFilterQuery(filters)] } },
+            _source: { excludes: ['embedding'] }
+          }
         });
+
+        for (const hit of response.body.hits.hits) {
+          chunks.set(hit._id, this.toCodeChunk(hit._id, hit._source));
+        }
+        return chunks;
+      }
+
+      const response = await this.client.mget({
+        index: this.config.index.name,
+        body: { ids: uniqueIds }
+      });
+
+      for (const doc of response.body.docs) {
+        if (doc.found) {
+          chunks.set(doc._id, this.toCodeChunk(doc._id, doc._source));
+        }
       }
 
-      // Process and return results
-      const hits = response.body.hits.hits;
-      const chunks: CodeChunk[] = hits.map((hit: any) => {
-        const source = hit._source;
-        return {
-          id: hit._id,
-          content: source.text,
-          type: source.metadata.type,
-          useCases: source.metadata.useCases,
-          metadata: source.metadata
-        };
+      return chunks;
+    } catch (error) {
+      console.error('Failed to get chunks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets all chunks of one type in a repository ref
+   * @param repositoryUrl The repository URL
+   * @param ref The branch, tag or commit, or undefined for the default branch
+   * @param type The chunk type
+   * @returns Promise resolving to the chunks
+   */
+  async getChunksByType(repositoryUrl: string, ref: string | undefined, type: ChunkType): Promise<CodeChunk[]> {
+    try {
+      // Make chunks written by recent bulk requests visible
+      await this.client.indices.refresh({ index: this.config.index.name });
+
+      const query = this.refQuery(repositoryUrl, ref);
+      query.bool.filter.push({ term: { "metadata.type": type } });
+
+      const chunks: CodeChunk[] = [];
+      let response = await this.client.search({
+        index: this.config.index.name,
+        scroll: '1m',
+        body: { size: 1000, query, _source: { excludes: ['embedding'] } }
       });
+      while (response.body.hits.hits.length > 0) {
+        for (const hit of response.body.hits.hits) {
+          chunks.push(this.toCodeChunk(hit._id, hit._source));
+        }
+        response = await this.client.scroll({ scroll_id: response.body._scroll_id, scroll: '1m' });
+      }
+      await this.client.clearScroll({ scroll_id: response.body._scroll_id });
 
-      const scores = hits.map((hit: any) => hit._score);
+      return chunks;
+    } catch (error) {
+      console.error(`Failed to get ${type} chunks:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the chunks of the indexed files that paths from a stack trace or
+   * similar source may refer to, see `buildFilePathSuffixQuery`
+   * @param filePaths Paths with forward slashes, absolute or relative
+   * @param params The use cases and filters the chunks must match
+   * @param signal Cancels the request when aborted
+   * @param limit Maximum number of chunks to return
+   * @returns Promise resolving to the chunks, ordered by file and line
+   */
+  async getChunksByFilePath(
+    filePaths: string[],
+    params: Pick<VectorSearchParams, 'useCase' | 'filters'>,
+    signal?: AbortSignal,
+    limit = 1000
+  ): Promise<CodeChunk[]> {
+    if (filePaths.length === 0) {
+      return [];
+    }
+
+    try {
+      signal?.throwIfAborted();
+      const response = await abortable(this.client.search({
+        index: this.config.index.name,
+        body: {
+          size: limit,
+          query: { bool: { filter: [buildFilePathSuffixQuery(filePaths), ...this.buildFilters(params)] } },
+          sort: [
+            { 'metadata.filePath': { order: 'asc' } },
+            { 'metadata.startLine': { order: 'asc', missing: '_first' } }
+          ],
+          _source: { excludes: ['embedding'] }
+        }
+      }), signal);
+
+      return response.body.hits.hits.map((hit: any) => this.toCodeChunk(hit._id, hit._source));
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error('Failed to get chunks by file path:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Converts a stored document into a code chunk
+   * @param id The document ID
+   * @param source The stored document source
+   * @returns The code chunk
+   */
+  private toCodeChunk(id: string, source: any): CodeChunk {
+    return {
+      id,
+      content: source.text,
+      type: source.metadata.type,
+      useCases: source.metadata.useCases,
+      metadata: source.metadata
+    };
+  }
+
+  /**
+   * Counts the chunks and indexed files per language of a repository ref
+   * @param repositoryUrl The repository URL
+   * @param ref The branch, tag or commit, or undefined for the default branch
+   * @returns Promise resolving to the statistics
+   */
+  async getRepositoryStats(repositoryUrl: string, ref?: string): Promise<RepositoryStats> {
+    try {
+      // Make chunks written by recent bulk requests visible
+      await this.client.indices.refresh({ index: this.config.index.name });
+
+      const response = await this.client.search({
+        index: this.config.index.name,
+        body: {
+          size: 0,
+          track_total_hits: true,
+          query: this.refQuery(repositoryUrl, ref),
+          aggs: {
+            files: {
+              filter: { term: { "metadata.type": ChunkType.FILE } },
+              aggs: {
+                languages: { terms: { field: "metadata.language", size: 100 } }
+              }
+            }
+          }
+        }
+      });
+
+      const languages: Record<string, number> = {};
+      for (const bucket of response.body.aggregations.files.languages.buckets) {
+        languages[bucket.key] = bucket.doc_count;
+      }
 
       return {
-        chunks,
-        scores
+        chunkCount: response.body.hits.total.value,
+        languages
       };
     } catch (error) {
-      console.error('Search failed:', error);
+      console.error('Failed to get repository statistics:', error);
       throw error;
     }
   }
 
   /**
-   * Deletes documents from the index by repository URL
+   * Deletes documents from the index by repository URL, across all refs
    * @param repositoryUrl The repository URL to filter documents by
    * @returns Promise resolving to the number of deleted documents
    */
@@ -339,4 +774,81 @@ export class VectorDBClient {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Deletes the documents of one ref of a repository, leaving other refs intact
+   * @param repositoryUrl The repository URL
+   * @param ref The branch, tag or commit, or undefined for the default branch
+   * @returns Promise resolving to the number of deleted documents
+   */
+  async deleteByRef(repositoryUrl: string, ref?: string): Promise<number> {
+    try {
+      const response = await this.client.deleteByQuery({
+        index: this.config.index.name,
+        refresh: true,
+        body: {
+          query: this.refQuery(repositoryUrl, ref)
+        }
+      });
+
+      return response.body.deleted;
+    } catch (error) {
+      console.error('Failed to delete ref documents:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the documents of specific files in one ref of a repository
+   * @param repositoryUrl The repository URL to filter documents by
+   * @param ref The branch, tag or commit, or undefined for the default branch
+   * @param filePaths The file paths whose documents should be removed
+   * @returns Promise resolving to the number of deleted documents
+   */
+  async deleteByFilePaths(repositoryUrl: string, ref: string | undefined, filePaths: string[]): Promise<number> {
+    if (filePaths.length === 0) {
+      return 0;
+    }
+
+    try {
+      const query = this.refQuery(repositoryUrl, ref);
+      query.bool.filter.push({ terms: { "metadata.filePath": filePaths } });
+
+      const response = await this.client.deleteByQuery({
+        index: this.config.index.name,
+        refresh: true,
+        body: { query }
+      });
+
+      return response.body.deleted;
+    } catch (error) {
+      console.error('Failed to delete file documents:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Builds a query matching the documents of one ref of a repository
+   * @param repositoryUrl The repository URL
+   * @param ref The branch, tag or commit, or undefined for the default branch
+   * @returns A bool query
+   */
+  private refQuery(repositoryUrl: string, ref?: string): any {
+    return {
+      bool: {
+        filter: [
+          { term: { "metadata.repositoryInfo.url": repositoryUrl } },
+          ...(ref ? [{ term: { "metadata.repositoryInfo.ref": ref } }] : [])
+        ],
+        // Chunks of the default branch are stored without a ref
+        must_not: ref ? [] : [{ exists: { field: "metadata.repositoryInfo.ref" } }]
+      }
+    };
+  }
+}
+
+export { validateSearchFilter, globToRegExp } from './filters';
+export * from './client';
+export * from './repository-registry';
+export * from './embeddings';
+export * from './chat';
@@ -0,0 +1,248 @@
+/**
+ * Registry of indexed repositories, stored in its own OpenSearch index
+ */
+
+import { createHash } from 'crypto';
+import { Client, errors } from '@opensearch-project/opensearch';
+import {
+  VectorDBConfig,
+  GitHubRepositoryInfo,
+  RepositoryRecord,
+  RepositoryRefRecord
+} from '@github-rag-system/common';
+import { createOpenSearchClient } from './client';
+
+/**
+ * Number of attempts to update a record that is modified concurrently
+ */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Derives the registry ID of a repository from its URL
+ * @param repositoryUrl The repository URL
+ * @returns The repository ID
+ */
+export function repositoryId(repositoryUrl: string): string {
+  return createHash('sha256').update(repositoryUrl).digest('hex').slice(0, 16);
+}
+
+/**
+ * Records which repositories and refs have been indexed, at which commit,
+ * and what they contain
+ */
+export class RepositoryRegistry {
+  private client: Client;
+  private indexName: string;
+
+  /**
+   * Creates a new RepositoryRegistry
+   * @param config The vector database configuration; the registry uses the same cluster
+   */
+  constructor(config: VectorDBConfig) {
+    this.client = createOpenSearchClient(config.connection);
+    this.indexName = config.index.registryName || `${config.index.name}-repositories`;
+  }
+
+  /**
+   * Creates the registry index if it does not exist
+   * @returns Promise resolving to true if successful
+   */
+  async initIndex(): Promise<boolean> {
+    try {
+      const indexExists = await this.client.indices.exists({ index: this.indexName });
+      if (indexExists.body) {
+        return true;
+      }
+
+      await this.client.indices.create({
+        index: this.indexName,
+        body: {
+          mappings: {
+            properties: {
+              url: { type: 'keyword' },
+              owner: { type: 'keyword' },
+              name: { type: 'keyword' },
+              refs: { type: 'object', enabled: false },
+              createdAt: { type: 'date' },
+              updatedAt: { type: 'date' }
+            }
+          }
+        }
+      });
+
+      console.log(`Index ${this.indexName} created successfully`);
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize repository registry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records the indexing state of a repository ref, replacing any previous state
+   * @param repoInfo The repository and ref
+   * @param state The ref's indexing state
+   * @returns Promise resolving to the updated record
+   */
+  async recordRef(
+    repoInfo: GitHubRepositoryInfo,
+    state: Omit<RepositoryRefRecord, 'ref' | 'refType' | 'indexedAt'>
+  ): Promise<RepositoryRecord> {
+    const id = repositoryId(repoInfo.url);
+    const now = new Date().toISOString();
+
+    try {
+      // Refs of one repository may be indexed concurrently, so update
+      // with optimistic concurrency control and retry on conflicts
+      for (let attempt = 1; ; attempt++) {
+        const response = await this.client.get({ index: this.indexName, id }, { ignore: [404] });
+        const existing: RepositoryRecord | undefined = response.body.found ? response.body._source : undefined;
+
+        const record: RepositoryRecord = {
+          id,
+          url: repoInfo.url,
+          owner: repoInfo.owner,
+          name: repoInfo.name,
+          refs: [
+            ...(existing?.refs || []).filter(record => record.ref !== repoInfo.ref),
+            { ref: repoInfo.ref, refType: repoInfo.refType, ...state, indexedAt: now }
+          ],
+          createdAt: existing?.createdAt || now,
+          updatedAt: now
+        };
+
+        try {
+          await this.client.index({
+            index: this.indexName,
+            id,
+            body: record,
+            refresh: true,
+            ...(existing
+              ? { if_seq_no: response.body._seq_no, if_primary_term: response.body._primary_term }
+              : { op_type: 'create' })
+          });
+          return record;
+        } catch (error) {
+          if (!isVersionConflict(error) || attempt >= MAX_UPDATE_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to record repository ${repoInfo.url}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes one ref from a repository, removing the repository once no refs remain
+   * @param id The repository ID
+   * @param ref The branch, tag or commit, or undefined for the default branch
+   * @returns Promise resolving to the updated record, or null if it was removed
+   */
+  async removeRef(id: string, ref?: string): Promise<RepositoryRecord | null> {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const response = await this.client.get({ index: this.indexName, id }, { ignore: [404] });
+        if (!response.body.found) {
+          return null;
+        }
+
+        const existing: RepositoryRecord = response.body._source;
+        const refs = existing.refs.filter(record => record.ref !== ref);
+        if (refs.length === 0) {
+          await this.delete(id);
+          return null;
+        }
+
+        const record: RepositoryRecord = { ...existing, refs, updatedAt: new Date().toISOString() };
+        try {
+          await this.client.index({
+            index: this.indexName,
+            id,
+            body: record,
+            refresh: true,
+            if_seq_no: response.body._seq_no,
+            if_primary_term: response.body._primary_term
+          });
+          return record;
+        } catch (error) {
+          if (!isVersionConflict(error) || attempt >= MAX_UPDATE_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to remove ref from repository ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists all registered repositories, most recently indexed first
+   * @returns Promise resolving to the repositories
+   */
+  async list(): Promise<RepositoryRecord[]> {
+    try {
+      const response = await this.client.search({
+        index: this.indexName,
+        body: {
+          size: 10000,
+          query: { match_all: {} },
+          sort: [{ updatedAt: { order: 'desc' } }]
+        }
+      }, { ignore: [404] });
+
+      // Nothing has been indexed yet when the registry index does not exist
+      if (response.statusCode === 404) {
+        return [];
+      }
+      return response.body.hits.hits.map((hit: any) => hit._source);
+    } catch (error) {
+      console.error('Failed to list repositories:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a repository by ID
+   * @param id The repository ID
+   * @returns Promise resolving to the repository, or null if it is not registered
+   */
+  async get(id: string): Promise<RepositoryRecord | null> {
+    try {
+      const response = await this.client.get({ index: this.indexName, id }, { ignore: [404] });
+      return response.body.found ? response.body._source : null;
+    } catch (error) {
+      console.error(`Failed to get repository ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a repository from the registry
+   * @param id The repository ID
+   * @returns Promise resolving to true if the repository was registered
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      const response = await this.client.delete(
+        { index: this.indexName, id, refresh: true },
+        { ignore: [404] }
+      );
+      return response.body.result === 'deleted';
+    } catch (error) {
+      console.error(`Failed to delete repository ${id}:`, error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Checks whether an update failed because the record was modified concurrently
+ * @param error The error thrown by the update
+ * @returns True for version conflicts
+ */
+function isVersionConflict(error: unknown): boolean {
+  return error instanceof errors.ResponseError && error.statusCode === 409;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { abortable } from '../src/client';
+
+/**
+ * Creates a pending request that, like the OpenSearch client, rejects when
+ * aborted and returns itself from `abort`
+ */
+function pendingRequest<T>(value?: T) {
+  let aborted = false;
+  let rejectRequest: (error: Error) => void = () => {};
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectRequest = reject;
+    if (value !== undefined) {
+      setTimeout(() => resolve(value), 0);
+    }
+  });
+  const request: Promise<T> & { abort(): Promise<T> } = Object.assign(promise, {
+    abort() {
+      aborted = true;
+      rejectRequest(new Error('Request aborted'));
+      return request;
+    },
+  });
+  return { request, wasAborted: () => aborted };
+}
+
+describe('abortable', () => {
+  it('resolves with the response when the signal is not aborted', async () => {
+    const { request, wasAborted } = pendingRequest('response');
+
+    await expect(abortable(request, new AbortController().signal)).resolves.toBe('response');
+    expect(wasAborted()).toBe(false);
+  });
+
+  it('aborts the request and rejects with the abort reason', async () => {
+    const controller = new AbortController();
+    const { request, wasAborted } = pendingRequest<string>();
+
+    const response = abortable(request, controller.signal);
+    controller.abort();
+
+    await expect(response).rejects.toMatchObject({ name: 'AbortError' });
+    expect(wasAborted()).toBe(true);
+  });
+
+  it('aborts requests made with an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { request, wasAborted } = pendingRequest<string>();
+
+    await expect(abortable(request, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(wasAborted()).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EmbeddingProvider } from '@github-rag-system/common';
+import { EmbeddingBatcher, estimateTokens } from '../src/embeddings/batcher';
+import { EmbeddingRequestError } from '../src/embeddings/http';
+
+/**
+ * Provider embedding each text as its length, or failing as `fail` decides.
+ * Records the texts of every request.
+ */
+class FakeProvider implements EmbeddingProvider {
+  readonly id = 'fake';
+  readonly dimensions = 1;
+  requests: string[][] = [];
+
+  constructor(private fail: (texts: string[], attempt: number) => Error | undefined = () => undefined) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.requests.push(texts);
+    const error = this.fail(texts, this.requests.length);
+    if (error) {
+      throw error;
+    }
+    return texts.map(text => [text.length]);
+  }
+}
+
+describe('EmbeddingBatcher', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('limits batches by text count and estimated tokens', async () => {
+    const provider = new FakeProvider();
+    const texts = ['a', 'bb', 'ccc', 'x'.repeat(40), 'y'.repeat(40), 'z'];
+
+    const outcomes = await new EmbeddingBatcher(provider, { maxBatchSize: 3, maxBatchTokens: 12, concurrency: 1 })
+      .embedAll(texts);
+
+    expect(provider.requests).toEqual([['a', 'bb', 'ccc'], ['x'.repeat(40)], ['y'.repeat(40), 'z']]);
+    expect(outcomes).toEqual(texts.map(text => ({ embedding: [text.length] })));
+  });
+
+  it('sends a text larger than the token limit on its own', async () => {
+    const provider = new FakeProvider();
+
+    await new EmbeddingBatcher(provider, { maxBatchTokens: 5, concurrency: 1 }).embedAll(['a', 'x'.repeat(100), 'b']);
+
+    expect(provider.requests).toEqual([['a'], ['x'.repeat(100)], ['b']]);
+  });
+
+  it('keeps outcomes in input order with concurrent batches', async () => {
+    const texts = Array.from({ length: 20 }, (_, index) => 'x'.repeat(index + 1));
+
+    const outcomes = await new EmbeddingBatcher(new FakeProvider(), { maxBatchSize: 3, concurrency: 4 }).embedAll(texts);
+
+    expect(outcomes.map(outcome => outcome.embedding)).toEqual(texts.map(text => [text.length]));
+  });
+
+  it('retries rate limiting, server and network errors', async () => {
+    const errors = [new EmbeddingRequestError('busy', 429), new EmbeddingRequestError('down', 503), new Error('reset')];
+    const provider = new FakeProvider((_, attempt) => errors[attempt - 1]);
+
+    const outcomes = await new EmbeddingBatcher(provider, { initialRetryDelayMs: 0 }).embedAll(['a', 'b']);
+
+    expect(provider.requests).toHaveLength(4);
+    expect(outcomes).toEqual([{ embedding: [1] }, { embedding: [1] }]);
+  });
+
+  it('reports the error once the retries are used up', async () => {
+    const provider = new FakeProvider(() => new EmbeddingRequestError('busy', 429));
+
+    const outcomes = await new EmbeddingBatcher(provider, { maxRetries: 2, initialRetryDelayMs: 0 }).embedAll(['a', 'b']);
+
+    expect(provider.requests).toHaveLength(3);
+    expect(outcomes).toEqual([{ error: 'busy' }, { error: 'busy' }]);
+  });
+
+  it('splits rejected batches to isolate the offending texts', async () => {
+    const provider = new FakeProvider(texts =>
+      texts.includes('bad') ? new EmbeddingRequestError('invalid input', 400) : undefined
+    );
+
+    const outcomes = await new EmbeddingBatcher(provider, { initialRetryDelayMs: 0 })
+      .embedAll(['a', 'bb', 'bad', 'cccc', 'ddddd']);
+
+    expect(outcomes).toEqual([
+      { embedding: [1] },
+      { embedding: [2] },
+      { error: 'invalid input' },
+      { embedding: [4] },
+      { embedding: [5] },
+    ]);
+    expect(provider.requests.filter(request => request.includes('bad')).map(request => request.length))
+      .toEqual([5, 3, 1]);
+  });
+
+  it('treats a wrong number of embeddings as an error', async () => {
+    const provider: EmbeddingProvider = { id: 'short', dimensions: 1, embed: async () => [[1]] };
+
+    const outcomes = await new EmbeddingBatcher(provider, { maxRetries: 0 }).embedAll(['a', 'b']);
+
+    expect(outcomes).toEqual([
+      { error: 'Provider returned 1 embeddings for 2 texts' },
+      { error: 'Provider returned 1 embeddings for 2 texts' },
+    ]);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('estimates four characters per token', () => {
+    expect([estimateTokens(''), estimateTokens('abcd'), estimateTokens('abcde')]).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileEmbeddingCache, embeddingCacheKey } from '../src/embeddings/cache';
+
+describe('FileEmbeddingCache', () => {
+  let directory: string;
+  let now: number;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'embedding-cache-test-'));
+    // Advance the clock on every reading so entries are ordered by use
+    now = Date.parse('2026-01-01T00:00:00.000Z');
+    vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Gets the keys of the entries that are stored in the cache directory
+   */
+  function storedKeys(): string[] {
+    return fs.readdirSync(directory)
+      .flatMap(shard => fs.readdirSync(path.join(directory, shard)))
+      .map(fileName => path.basename(fileName, '.f32'))
+      .sort();
+  }
+
+  it('returns stored embeddings and misses unknown keys', async () => {
+    const cache = new FileEmbeddingCache({ directory });
+
+    await cache.set('ab12', [0.5, -1, 2]);
+
+    expect(await cache.get('ab12')).toEqual([0.5, -1, 2]);
+    expect(await cache.get('cd34')).toBeUndefined();
+    expect(await new FileEmbeddingCache({ directory }).get('ab12')).toEqual([0.5, -1, 2]);
+  });
+
+  it('evicts the least recently used entries when full', async () => {
+    // Each entry of four floats takes 16 bytes, so three entries fit
+    const cache = new FileEmbeddingCache({ directory, maxBytes: 48 });
+    await cache.set('aa', [1, 1, 1, 1]);
+    await cache.set('bb', [2, 2, 2, 2]);
+    await cache.set('cc', [3, 3, 3, 3]);
+    await cache.get('aa');
+
+    await cache.set('dd', [4, 4, 4, 4]);
+
+    expect(storedKeys()).toEqual(['aa', 'dd']);
+    expect(await cache.get('bb')).toBeUndefined();
+    expect(await cache.get('aa')).toEqual([1, 1, 1, 1]);
+  });
+
+  it('counts the entries left by earlier runs, ordered by their last use', async () => {
+    const previous = new FileEmbeddingCache({ directory });
+    await previous.set('aa', [1, 1, 1, 1]);
+    await previous.set('bb', [2, 2, 2, 2]);
+    fs.utimesSync(path.join(directory, 'aa', 'aa.f32'), new Date(now), new Date(now));
+    fs.utimesSync(path.join(directory, 'bb', 'bb.f32'), new Date(now - 60_000), new Date(now - 60_000));
+
+    const cache = new FileEmbeddingCache({ directory, maxBytes: 40 });
+    await cache.set('cc', [3, 3, 3, 3]);
+
+    expect(storedKeys()).toEqual(['aa', 'cc']);
+  });
+
+  it('does not count an overwritten entry twice', async () => {
+    const cache = new FileEmbeddingCache({ directory, maxBytes: 48 });
+    await cache.set('aa', [1, 1, 1, 1]);
+    await cache.set('aa', [5, 5, 5, 5]);
+    await cache.set('bb', [2, 2, 2, 2]);
+    await cache.set('cc', [3, 3, 3, 3]);
+
+    expect(storedKeys()).toEqual(['aa', 'bb', 'cc']);
+    expect(await cache.get('aa')).toEqual([5, 5, 5, 5]);
+  });
+
+  it('forgets entries whose files disappeared', async () => {
+    const cache = new FileEmbeddingCache({ directory });
+    await cache.set('aa', [1]);
+    fs.rmSync(path.join(directory, 'aa', 'aa.f32'));
+
+    expect(await cache.get('aa')).toBeUndefined();
+  });
+});
+
+describe('embeddingCacheKey', () => {
+  it('depends on both the provider and the text', () => {
+    const key = embeddingCacheKey('openai:text-embedding-3-small', 'hello');
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(embeddingCacheKey('openai:text-embedding-3-small', 'hello')).toBe(key);
+    expect(embeddingCacheKey('openai:text-embedding-3-large', 'hello')).not.toBe(key);
+    expect(embeddingCacheKey('openai:text-embedding-3-small', 'hello!')).not.toBe(key);
+  });
+});
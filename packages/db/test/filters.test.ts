@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { buildFilterQuery, validateSearchFilter } from '../src/filters';
+
+describe('ref filters', () => {
+  it('matches named refs exactly', () => {
+    expect(buildFilterQuery({ ref: 'v1.0.0' })).toEqual({
+      bool: { filter: [{ terms: { 'metadata.repositoryInfo.ref': ['v1.0.0'] } }] },
+    });
+  });
+
+  it('matches the default branch, stored without a ref, for the empty ref', () => {
+    expect(buildFilterQuery({ ref: ['', 'v1.0.0'] })).toEqual({
+      bool: {
+        filter: [{
+          bool: {
+            should: [
+              { bool: { must_not: [{ exists: { field: 'metadata.repositoryInfo.ref' } }] } },
+              { terms: { 'metadata.repositoryInfo.ref': ['v1.0.0'] } },
+            ],
+            minimum_should_match: 1,
+          },
+        }],
+      },
+    });
+  });
+
+  it('accepts the empty ref but no other empty values', () => {
+    expect(validateSearchFilter({ ref: '' })).toEqual([]);
+    expect(validateSearchFilter({ ref: [''] })).toEqual([]);
+    expect(validateSearchFilter({ ref: [] })).toEqual(['filters.ref must be a string or array of strings']);
+    expect(validateSearchFilter({ language: '' })).toEqual([
+      'filters.language must be a non-empty string or array of non-empty strings',
+    ]);
+  });
+});
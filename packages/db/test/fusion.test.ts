@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { RankedHit, reciprocalRankFusion, weightedScoreFusion } from '../src/fusion';
+
+/**
+ * Creates hits with the given IDs and scores, in order
+ */
+function hits(...entries: [string, number][]): RankedHit[] {
+  return entries.map(([id, score]) => ({ id, score, source: { id } }));
+}
+
+describe('reciprocalRankFusion', () => {
+  it('sums weight / (rankConstant + rank) over the lists', () => {
+    const fused = reciprocalRankFusion([
+      { hits: hits(['a', 12], ['b', 3]), weight: 1 },
+      { hits: hits(['b', 0.9], ['c', 0.8]), weight: 2 },
+    ], 60);
+
+    expect(fused.map(hit => hit.id)).toEqual(['b', 'c', 'a']);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 2 / 61);
+    expect(fused[1].score).toBeCloseTo(2 / 62);
+    expect(fused[2].score).toBeCloseTo(1 / 61);
+  });
+
+  it('ignores the scores of the original queries', () => {
+    const fused = reciprocalRankFusion([
+      { hits: hits(['a', 0.01], ['b', 1000]), weight: 1 },
+    ], 1);
+
+    expect(fused.map(hit => [hit.id, hit.score])).toEqual([['a', 1 / 2], ['b', 1 / 3]]);
+  });
+
+  it('leaves out the contribution of a list with zero weight', () => {
+    const fused = reciprocalRankFusion([
+      { hits: hits(['a', 1]), weight: 0 },
+      { hits: hits(['b', 1]), weight: 1 },
+    ], 60);
+
+    expect(fused.map(hit => [hit.id, hit.score])).toEqual([['b', 1 / 61], ['a', 0]]);
+  });
+
+  it('keeps the source of the first list a document appears in', () => {
+    const [hit] = reciprocalRankFusion([
+      { hits: [{ id: 'a', score: 1, source: 'keyword' }], weight: 1 },
+      { hits: [{ id: 'a', score: 1, source: 'vector' }], weight: 1 },
+    ], 60);
+
+    expect(hit.source).toBe('keyword');
+  });
+});
+
+describe('weightedScoreFusion', () => {
+  it('normalizes the scores of each list before weighting them', () => {
+    const fused = weightedScoreFusion([
+      { hits: hits(['a', 20], ['b', 15], ['c', 10]), weight: 0.5 },
+      { hits: hits(['c', 0.9], ['a', 0.7]), weight: 1 },
+    ]);
+
+    expect(fused.map(hit => hit.id)).toEqual(['c', 'a', 'b']);
+    expect(fused.map(hit => hit.score)).toEqual([1, 0.5, 0.25]);
+  });
+
+  it('gives every hit the full weight when the scores of a list are equal', () => {
+    const fused = weightedScoreFusion([
+      { hits: hits(['a', 3], ['b', 3]), weight: 0.4 },
+    ]);
+
+    expect(fused.map(hit => hit.score)).toEqual([0.4, 0.4]);
+  });
+
+  it('returns no hits for empty lists', () => {
+    expect(weightedScoreFusion([{ hits: [], weight: 1 }])).toEqual([]);
+    expect(reciprocalRankFusion([], 60)).toEqual([]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Answer generation from retrieved code
+ */
+
+import {
+  AskRequest,
+  AskResult,
+  AskStreamEvent,
+  ChatMessage,
+  ChatProvider,
+  Citation,
+  CodeChunk,
+  SearchResult,
+  Tokenizer,
+  UseCase
+} from '@github-rag-system/common';
+import { TiktokenTokenizer } from './tokenizers';
+
+/**
+ * Default token budget for retrieved code in a prompt
+ */
+const DEFAULT_MAX_CONTEXT_TOKENS = 6000;
+
+/**
+ * Default token limit for a generated answer
+ */
+const DEFAULT_MAX_ANSWER_TOKENS = 1000;
+
+/**
+ * Instructions shared by all use cases
+ */
+const BASE_INSTRUCTIONS =
+  'Answer using only the numbered sources from the code base below. Cite every source you rely on ' +
+  'by its number in square brackets, e.g. [1] or [2][3]. If the sources do not contain the answer, ' +
+  'say so instead of guessing.';
+
+/**
+ * Instructions specific to each use case
+ */
+const USE_CASE_INSTRUCTIONS: Record<UseCase, string> = {
+  [UseCase.BUG_FIXING]:
+    'You are helping to fix a bug. Identify the most likely cause, point to the file and lines ' +
+    'involved, and propose a concrete fix as a code change.',
+  [UseCase.CODE_GENERATION]:
+    'You are writing new code for this code base. Follow the conventions, APIs and helpers shown ' +
+    'in the sources, and reuse existing code rather than reinventing it.',
+  [UseCase.EXPLANATION]:
+    'You are explaining how this code base works. Describe the responsibilities of the relevant ' +
+    'modules and how they interact, from the overall picture down to the details that matter.',
+};
+
+/**
+ * Builds use-case-specific prompts from search results and has a chat model
+ * answer them, citing the retrieved chunks
+ */
+export class AnswerGenerator {
+  private provider: ChatProvider;
+  private tokenizer: Tokenizer;
+
+  /**
+   * Creates a new AnswerGenerator
+   * @param provider The chat model
+   * @param tokenizer Tokenizer used to fit sources into the prompt (defaults to cl100k_base)
+   */
+  constructor(provider: ChatProvider, tokenizer: Tokenizer = new TiktokenTokenizer()) {
+    this.provider = provider;
+    this.tokenizer = tokenizer;
+  }
+
+  /**
+   * Answers a question from search results
+   * @param request The question and its generation limits
+   * @param result The chunks retrieved for the question
+   * @param signal Cancels generation when aborted
+   * @param history Earlier questions and answers of the conversation, oldest first
+   * @returns Promise resolving to the answer and its sources
+   */
+  async generate(
+    request: AskRequest,
+    result: SearchResult,
+    signal?: AbortSignal,
+    history: ChatMessage[] = []
+  ): Promise<AskResult> {
+    const { messages, citations } = this.buildPrompt(request, result, history);
+    const answer = await this.provider.complete(messages, {
+      maxTokens: request.maxAnswerTokens ?? DEFAULT_MAX_ANSWER_TOKENS,
+      temperature: 0.2,
+      signal,
+    });
+
+    return {
+      answer,
+      citations: markCited(citations, answer),
+      useCase: answerUseCase(request, result),
+      model: this.provider.id,
+      classification: result.classification,
+    };
+  }
+
+  /**
+   * Answers a question from search results, yielding the sources before the
+   * answer and the answer as it is generated
+   * @param request The question and its generation limits
+   * @param result The chunks retrieved for the question
+   * @param signal Cancels generation when aborted
+   * @param history Earlier questions and answers of the conversation, oldest first
+   * @returns Async iterator over the citations, answer fragments and final answer
+   */
+  async *stream(
+    request: AskRequest,
+    result: SearchResult,
+    signal?: AbortSignal,
+    history: ChatMessage[] = []
+  ): AsyncGenerator<AskStreamEvent> {
+    const { messages, citations } = this.buildPrompt(request, result, history);
+    yield { type: 'citations', citations };
+
+    let answer = '';
+    for await (const text of this.provider.stream(messages, {
+      maxTokens: request.maxAnswerTokens ?? DEFAULT_MAX_ANSWER_TOKENS,
+      temperature: 0.2,
+      signal,
+    })) {
+      answer += text;
+      yield { type: 'token', text };
+    }
+
+    yield {
+      type: 'done',
+      result: {
+        answer,
+        citations: markCited(citations, answer),
+        useCase: answerUseCase(request, result),
+        model: this.provider.id,
+        classification: result.classification,
+      },
+    };
+  }
+
+  /**
+   * Builds the prompt for a question, numbering as many retrieved chunks as
+   * fit the context budget, best hits first
+   * @param request The question and its limits
+   * @param result The chunks retrieved for the question
+   * @param history Earlier questions and answers of the conversation, placed
+   * between the instructions and the question
+   * @returns The messages to send and the numbered sources
+   */
+  buildPrompt(
+    request: AskRequest,
+    result: SearchResult,
+    history: ChatMessage[] = []
+  ): { messages: ChatMessage[]; citations: Citation[] } {
+    const budget = request.maxContextTokens ?? DEFAULT_MAX_CONTEXT_TOKENS;
+    const citations: Citation[] = [];
+    const sources: string[] = [];
+    let tokens = 0;
+
+    result.chunks.forEach((chunk, i) => {
+      const citation = toCitation(chunk, citations.length + 1, result.scores[i]);
+      const signatures = result.contexts?.[i]?.enclosingSignatures || [];
+      const source = formatSource(citation, chunk, signatures);
+      const sourceTokens = this.tokenizer.count(source);
+      if (tokens + sourceTokens > budget) {
+        return;
+      }
+      tokens += sourceTokens;
+      citations.push(citation);
+      sources.push(source);
+    });
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: `${USE_CASE_INSTRUCTIONS[answerUseCase(request, result)]}\n\n${BASE_INSTRUCTIONS}` },
+      ...history,
+      {
+        role: 'user',
+        content: sources.length > 0
+          ? `Sources:\n\n${sources.join('\n\n')}\n\nQuestion: ${request.query}`
+          : `No sources were found in the code base.\n\nQuestion: ${request.query}`,
+      },
+    ];
+
+    return { messages, citations };
+  }
+}
+
+/**
+ * Picks the use case an answer is written for: the classified one for `auto`,
+ * otherwise the first of the requested use cases
+ * @param request The question
+ * @param result The chunks retrieved for the question, with the classification for `auto`
+ * @returns The use case
+ */
+function answerUseCase(request: AskRequest, result: SearchResult): UseCase {
+  if (request.useCase === 'auto') {
+    return result.classification?.useCase ?? UseCase.EXPLANATION;
+  }
+  return Array.isArray(request.useCase) ? request.useCase[0] : request.useCase;
+}
+
+/**
+ * Describes a retrieved chunk as a source
+ * @param chunk The chunk
+ * @param index The source number
+ * @param score The search score
+ * @returns The citation, not yet marked as cited
+ */
+function toCitation(chunk: CodeChunk, index: number, score: number): Citation {
+  return {
+    index,
+    chunkId: chunk.id,
+    type: chunk.type,
+    repositoryUrl: chunk.metadata.repositoryInfo.url,
+    ref: chunk.metadata.repositoryInfo.ref,
+    filePath: chunk.metadata.filePath,
+    startLine: chunk.metadata.startLine,
+    endLine: chunk.metadata.endLine,
+    symbolName: chunk.metadata.symbolName,
+    score,
+    cited: false,
+  };
+}
+
+/**
+ * Renders a source for the prompt: its number, location and content
+ * @param citation The source
+ * @param chunk The chunk
+ * @param signatures Signatures of the enclosing classes, outermost first
+ * @returns The source text
+ */
+function formatSource(citation: Citation, chunk: CodeChunk, signatures: string[]): string {
+  const lines = citation.startLine !== undefined
+    ? `:${citation.startLine}-${citation.endLine ?? citation.startLine}`
+    : '';
+  const symbol = citation.symbolName ? ` (${citation.symbolName})` : '';
+  const enclosing = signatures.length > 0 ? `Enclosed in:\n${signatures.join('\n')}\n` : '';
+
+  return `[${citation.index}] ${citation.filePath || '(repository)'}${lines}${symbol}\n` +
+    `${enclosing}\`\`\`${chunk.metadata.language || ''}\n${chunk.content}\n\`\`\``;
+}
+
+/**
+ * Marks the sources referred to by an answer
+ * @param citations The numbered sources
+ * @param answer The generated answer
+ * @returns The sources with `cited` set
+ */
+export function markCited(citations: Citation[], answer: string): Citation[] {
+  const cited = new Set([...answer.matchAll(/\[(\d+)\]/g)].map(match => parseInt(match[1])));
+  return citations.map(citation => ({ ...citation, cited: cited.has(citation.index) }));
+}
@@ -0,0 +1,78 @@
+/**
+ * Deterministic identifiers for code chunks
+ */
+
+import { createHash } from 'crypto';
+import { ChunkType, GitHubRepositoryInfo } from '@github-rag-system/common';
+
+/**
+ * Computes the SHA-256 hash of chunk content
+ * @param content The content to hash
+ * @returns Hex-encoded hash
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * What tells a chunk apart from other chunks of its file with the same name
+ * and content
+ */
+export interface ChunkIdOptions {
+  /**
+   * The class enclosing the symbol, if any
+   */
+  parentName?: string;
+
+  /**
+   * Number of earlier chunks of the file that would otherwise get the same ID
+   */
+  occurrence?: number;
+
+  /**
+   * The ID of the chunk a part was split from
+   */
+  splitGroupId?: string;
+
+  /**
+   * The part number, for parts of a split chunk
+   */
+  partIndex?: number;
+}
+
+/**
+ * Derives a stable chunk ID from where the chunk comes from and what it contains,
+ * so that re-indexing an unchanged chunk produces the same ID
+ * @param repoInfo The repository the chunk belongs to
+ * @param filePath The path of the file the chunk is from
+ * @param type The chunk type
+ * @param contentHash The hash of the chunk content
+ * @param symbolName The function or class name, if any
+ * @param options The enclosing class, occurrence and split part of the chunk
+ * @returns The chunk ID, prefixed with the chunk type
+ */
+export function createChunkId(
+  repoInfo: GitHubRepositoryInfo,
+  filePath: string,
+  type: ChunkType,
+  contentHash: string,
+  symbolName?: string,
+  options: ChunkIdOptions = {}
+): string {
+  const { parentName, occurrence, splitGroupId, partIndex } = options;
+  const key = [
+    repoInfo.url,
+    repoInfo.ref || '',
+    filePath,
+    type,
+    symbolName || '',
+    contentHash,
+    // Only the options that are set are added, so chunks without them keep their IDs
+    ...(partIndex !== undefined ? [partIndex] : []),
+    ...(splitGroupId ? [`split:${splitGroupId}`] : []),
+    ...(parentName ? [`parent:${parentName}`] : []),
+    ...(occurrence ? [`occurrence:${occurrence}`] : [])
+  ].join('\0');
+
+  return `${type}-${createHash('sha256').update(key).digest('hex').slice(0, 40)}`;
+}
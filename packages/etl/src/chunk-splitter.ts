@@ -0,0 +1,239 @@
+/**
+ * Token-aware splitting of oversized chunks
+ */
+
+import {
+  CodeChunk,
+  ChunkType,
+  ChunkSizeOptions,
+  ChunkSplittingConfig,
+  Tokenizer
+} from '@github-rag-system/common';
+import { createChunkId, hashContent } from './chunk-id';
+import { TiktokenTokenizer } from './tokenizers';
+
+/**
+ * Default size limits, well below the input limits of common embedding models
+ */
+const DEFAULT_SIZE_OPTIONS: ChunkSizeOptions = {
+  maxTokens: 2000,
+  overlapTokens: 200,
+};
+
+/**
+ * A piece of chunk content: a whole line, or a slice of a line too long to fit a part
+ */
+interface Piece {
+  text: string;
+  line: number;
+  tokens: number;
+}
+
+/**
+ * Splits chunks that exceed their type's token budget into overlapping parts
+ */
+export class ChunkSplitter {
+  private config: ChunkSplittingConfig;
+  private defaultTokenizer: Tokenizer;
+
+  /**
+   * Creates a new ChunkSplitter
+   * @param config Size limits per chunk type; unspecified types use the defaults
+   */
+  constructor(config: ChunkSplittingConfig = {}) {
+    this.config = config;
+    this.defaultTokenizer = new TiktokenTokenizer();
+  }
+
+  /**
+   * Splits all oversized chunks, keeping chunks within budget unchanged
+   * @param chunks The chunks to check
+   * @returns The chunks with oversized ones replaced by their parts
+   */
+  split(chunks: CodeChunk[]): CodeChunk[] {
+    return chunks.flatMap(chunk => this.splitChunk(chunk));
+  }
+
+  /**
+   * Splits a single chunk into parts on line boundaries, preferring blank lines
+   * and lines at the chunk's outermost indentation as break points
+   * @param chunk The chunk to split
+   * @returns The parts, or the chunk itself if it fits
+   */
+  private splitChunk(chunk: CodeChunk): CodeChunk[] {
+    const options = this.getOptions(chunk.type);
+    const tokenizer = options.tokenizer || this.defaultTokenizer;
+
+    if (tokenizer.count(chunk.content) <= options.maxTokens) {
+      return [chunk];
+    }
+
+    const pieces = this.toPieces(chunk.content, tokenizer, options.maxTokens);
+    const baseIndent = this.getBaseIndent(chunk.content);
+    const windows: [number, number][] = [];
+
+    let start = 0;
+    while (start < pieces.length) {
+      // Take as many pieces as fit the budget
+      let end = start;
+      let tokens = 0;
+      while (end < pieces.length && tokens + pieces[end].tokens <= options.maxTokens) {
+        tokens += pieces[end].tokens;
+        end++;
+      }
+      end = Math.max(end, start + 1);
+
+      // Move the break back to a syntactic boundary in the last third of the window
+      if (end < pieces.length) {
+        end = this.findBoundary(pieces, start, end, baseIndent);
+      }
+
+      windows.push([start, end]);
+      if (end >= pieces.length) {
+        break;
+      }
+
+      // Start the next part early enough to repeat the overlap
+      let next = end;
+      let overlap = 0;
+      while (next > start + 1 && overlap + pieces[next - 1].tokens <= options.overlapTokens) {
+        overlap += pieces[next - 1].tokens;
+        next--;
+      }
+      start = next;
+    }
+
+    return this.createParts(chunk, pieces, windows);
+  }
+
+  /**
+   * Gets the size limits for a chunk type
+   * @param type The chunk type
+   * @returns The configured or default options
+   */
+  private getOptions(type: ChunkType): ChunkSizeOptions {
+    return { ...DEFAULT_SIZE_OPTIONS, ...this.config[type] };
+  }
+
+  /**
+   * Breaks content into measured lines, slicing lines that alone exceed the budget
+   * @param content The chunk content
+   * @param tokenizer The tokenizer to measure with
+   * @param maxTokens The token budget per part
+   * @returns Array of pieces
+   */
+  private toPieces(content: string, tokenizer: Tokenizer, maxTokens: number): Piece[] {
+    const pieces: Piece[] = [];
+
+    content.split('\n').forEach((line, index) => {
+      const tokens = tokenizer.count(line + '\n');
+      if (tokens <= maxTokens) {
+        pieces.push({ text: line, line: index, tokens });
+        return;
+      }
+
+      // Minified or generated lines: slice by characters, aiming for half a budget per slice
+      const sliceLength = Math.max(1, Math.floor(line.length * (maxTokens / 2) / tokens));
+      for (let offset = 0; offset < line.length; offset += sliceLength) {
+        const text = line.slice(offset, offset + sliceLength);
+        pieces.push({ text, line: index, tokens: tokenizer.count(text) });
+      }
+    });
+
+    return pieces;
+  }
+
+  /**
+   * Gets the smallest indentation of any non-blank line
+   * @param content The chunk content
+   * @returns The indentation width
+   */
+  private getBaseIndent(content: string): number {
+    const indents = content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => line.length - line.trimStart().length);
+    return indents.length > 0 ? Math.min(...indents) : 0;
+  }
+
+  /**
+   * Finds the best place to end a window: after a blank line or before a line
+   * at the outermost indentation, searching backwards from the budget limit
+   * @param pieces All pieces
+   * @param start The window start
+   * @param end The largest end that fits the budget
+   * @param baseIndent The outermost indentation of the chunk
+   * @returns The chosen end index
+   */
+  private findBoundary(pieces: Piece[], start: number, end: number, baseIndent: number): number {
+    const earliest = start + Math.ceil((end - start) * 2 / 3);
+    let fallback: number | null = null;
+
+    for (let candidate = end; candidate > earliest; candidate--) {
+      const previous = pieces[candidate - 1];
+      const next = pieces[candidate];
+      if (previous.line === next.line) {
+        continue;
+      }
+
+      if (!previous.text.trim()) {
+        return candidate;
+      }
+
+      const indent = next.text.length - next.text.trimStart().length;
+      if (fallback === null && next.text.trim() && indent <= baseIndent) {
+        fallback = candidate;
+      }
+    }
+
+    return fallback ?? end;
+  }
+
+  /**
+   * Builds linked part chunks from the chosen windows
+   * @param chunk The original chunk
+   * @param pieces All pieces
+   * @param windows Start (inclusive) and end (exclusive) piece indices of each part
+   * @returns The part chunks
+   */
+  private createParts(chunk: CodeChunk, pieces: Piece[], windows: [number, number][]): CodeChunk[] {
+    const firstLine = chunk.metadata.startLine ?? 1;
+
+    const parts = windows.map(([start, end], partIndex) => {
+      let content = pieces[start].text;
+      for (let i = start + 1; i < end; i++) {
+        content += (pieces[i].line === pieces[i - 1].line ? '' : '\n') + pieces[i].text;
+      }
+      const contentHash = hashContent(content);
+
+      return {
+        ...chunk,
+        id: createChunkId(
+          chunk.metadata.repositoryInfo,
+          chunk.metadata.filePath,
+          chunk.type,
+          contentHash,
+          chunk.metadata.symbolName,
+          { splitGroupId: chunk.id, partIndex }
+        ),
+        content,
+        metadata: {
+          ...chunk.metadata,
+          startLine: firstLine + pieces[start].line,
+          endLine: firstLine + pieces[end - 1].line,
+          contentHash,
+          splitGroupId: chunk.id,
+          partIndex,
+          partCount: windows.length,
+        }
+      };
+    });
+
+    parts.forEach((part, i) => {
+      part.metadata.previousPartId = parts[i - 1]?.id;
+      part.metadata.nextPartId = parts[i + 1]?.id;
+    });
+
+    return parts;
+  }
+}
@@ -2,28 +2,51 @@
  * Code chunking logic for the ETL pipeline
  */
 
-import { v4 as uuidv4 } from 'uuid';
 import * as path from 'path';
 import {
   GitHubFile,
   GitHubRepositoryInfo,
   CodeChunk,
   ChunkType,
-  UseCase
+  ChunkSplittingConfig,
+  UseCase,
+  LanguageRegistry,
+  LanguageChunker
 } from '@github-rag-system/common';
+import { createChunkId, hashContent } from './chunk-id';
+import {
+  extractSymbols,
+  CodeSymbol,
+  extractMarkdownSections,
+  extractConfigEntries,
+  parseNotebook,
+  renderNotebook,
+  Notebook
+} from './parsers';
+import { ChunkSplitter } from './chunk-splitter';
 
 /**
  * Handles code chunking for different use cases
  */
 export class CodeChunker {
   private repoInfo: GitHubRepositoryInfo;
+  private splitter: ChunkSplitter;
+  private languages: LanguageRegistry;
 
   /**
    * Creates a new CodeChunker
    * @param repoInfo The GitHub repository information
+   * @param splitting Optional token limits per chunk type for splitting oversized chunks
+   * @param languages Decides how each language is chunked (defaults to the built-in languages)
    */
-  constructor(repoInfo: GitHubRepositoryInfo) {
+  constructor(
+    repoInfo: GitHubRepositoryInfo,
+    splitting?: ChunkSplittingConfig,
+    languages: LanguageRegistry = new LanguageRegistry()
+  ) {
     this.repoInfo = repoInfo;
+    this.splitter = new ChunkSplitter(splitting);
+    this.languages = languages;
   }
 
   /**
@@ -32,255 +55,243 @@ export class CodeChunker {
    * @returns Array of code chunks
    */
   processFiles(files: GitHubFile[]): CodeChunk[] {
-    const chunks: CodeChunk[] = [];
-
-    for (const file of files) {
-      // Skip binary files or very large files
-      if (this.shouldSkipFile(file)) {
-        continue;
-      }
-
-      // Create file-level chunks
-      chunks.push(...this.createFileChunks(file));
-
-      // Only parse programming language files for more granular chunks
-      if (this.isProgrammingFile(file)) {
-        // Create class and function level chunks
-        chunks.push(...this.createCodeChunks(file));
-      }
-    }
-
-    return chunks;
+    return files.flatMap(file => this.processFile(file));
   }
 
   /**
-   * Determines if a file should be skipped
-   * @param file The file to check
-   * @returns True if the file should be skipped
+   * Processes one file into chunks
+   * @param file The file to process
+   * @returns Array of code chunks
    */
-  private shouldSkipFile(file: GitHubFile): boolean {
-    // Skip empty files
+  processFile(file: GitHubFile): CodeChunk[] {
+    // Files are selected before chunking, see FileSelector
     if (!file.content.trim()) {
-      return true;
-    }
-
-    // Skip very large files (>2MB)
-    if (file.size > 2 * 1024 * 1024) {
-      return true;
-    }
-
-    // Skip binary files (approximation)
-    if (this.isLikelyBinary(file.content)) {
-      return true;
-    }
-
-    // Skip common non-content files
-    const skipPatterns = [
-      /\.git\//,
-      /node_modules\//,
-      /\.DS_Store$/,
-      /\.env$/,
-      /\.log$/,
-      /\.lock$/,
-      /package-lock\.json$/,
-      /yarn\.lock$/,
-      /pnpm-lock\.yaml$/
-    ];
-
-    if (skipPatterns.some(pattern => pattern.test(file.path))) {
-      return true;
-    }
-
-    return false;
-  }
-
-  /**
-   * Checks if a file is likely a binary file
-   * @param content The file content
-   * @returns True if the file is likely binary
-   */
-  private isLikelyBinary(content: string): boolean {
-    // Simple heuristic: check for null bytes or high proportion of non-printable characters
-    if (content.includes('\0')) {
-      return true;
+      return [];
     }
 
-    // Count non-printable characters
-    const nonPrintable = content.match(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g);
-    if (nonPrintable && nonPrintable.length > content.length * 0.1) {
-      return true;
+    const chunker = this.getChunker(file);
+
+    // Notebooks are indexed by their cells, without outputs and metadata
+    const notebook = chunker === 'notebook' ? parseNotebook(file.content) : undefined;
+    const fileChunk = this.createFileChunk(file, notebook ? renderNotebook(notebook) : file.content);
+
+    // Split files into smaller chunks according to their language
+    let innerChunks: CodeChunk[] = [];
+    if (chunker === 'code') {
+      innerChunks = this.createCodeChunks(file, fileChunk.id);
+    } else if (chunker === 'markdown') {
+      innerChunks = this.createSectionChunks(file, fileChunk.id);
+    } else if (chunker === 'structured') {
+      innerChunks = this.createConfigChunks(file, fileChunk.id);
+    } else if (notebook) {
+      innerChunks = this.createCellChunks(file, notebook, fileChunk.id);
     }
 
-    return false;
+    // Split anything too large to embed in one piece, then link the
+    // file -> class -> method hierarchy across the resulting parts
+    return this.linkHierarchy(this.splitter.split([fileChunk, ...innerChunks]));
   }
 
   /**
-   * Checks if a file is a programming language file
+   * Gets how a file is chunked below the file level
    * @param file The file to check
-   * @returns True if the file is a programming language file
+   * @returns The chunker of the file's language, `none` for unknown languages
    */
-  private isProgrammingFile(file: GitHubFile): boolean {
-    if (!file.language) {
-      return false;
-    }
-
-    const programmingLanguages = [
-      'typescript', 'javascript', 'python', 'java', 'c_cpp', 
-      'csharp', 'go', 'ruby', 'php', 'swift', 'rust', 'kotlin'
-    ];
-
-    return programmingLanguages.includes(file.language);
+  private getChunker(file: GitHubFile): LanguageChunker {
+    return (file.language && this.languages.get(file.language)?.chunker) || 'none';
   }
 
   /**
-   * Creates file-level chunks
+   * Creates the file-level chunk
    * @param file The file to process
-   * @returns Array of file-level chunks
+   * @param content The content to index for the whole file
+   * @returns The file-level chunk
    */
-  private createFileChunks(file: GitHubFile): CodeChunk[] {
-    const chunks: CodeChunk[] = [];
-    const fileId = `file-${uuidv4()}`;
-    const fileName = path.basename(file.path);
-    const fileExt = path.extname(file.path);
+  private createFileChunk(file: GitHubFile, content: string): CodeChunk {
+    const contentHash = hashContent(content);
 
-    // Determine which use cases this file is relevant for
-    const useCases: UseCase[] = this.determineUseCases(file);
-
-    // Add the entire file as a chunk
-    chunks.push({
-      id: fileId,
-      content: file.content,
+    return {
+      id: createChunkId(this.repoInfo, file.path, ChunkType.FILE, contentHash),
+      content,
       type: ChunkType.FILE,
-      useCases,
+      useCases: this.determineUseCases(file),
       metadata: {
         repositoryInfo: this.repoInfo,
         filePath: file.path,
         language: file.language,
+        contentHash,
+        imports: this.getChunker(file) === 'code' ? this.extractImports(file.content) : undefined,
         // File-level chunks don't have line numbers
       }
-    });
+    };
+  }
 
-    // For README files, create a summary chunk that's useful for explanations
-    if (
-      fileName.toLowerCase() === 'readme.md' || 
-      fileName.toLowerCase() === 'readme' || 
-      (fileName.toLowerCase().includes('readme') && fileExt === '.md')
-    ) {
+  /**
+   * Creates one chunk per heading of a Markdown document
+   * @param file The file to process
+   * @param fileChunkId The ID of the file-level chunk, used as the parent of top-level sections
+   * @returns Array of section chunks, empty if the document has fewer than two sections
+   */
+  private createSectionChunks(file: GitHubFile, fileChunkId: string): CodeChunk[] {
+    const lines = file.content.split('\n');
+    const sections = extractMarkdownSections(file.content);
+    if (sections.length < 2) {
+      return [];
+    }
+
+    const useCases = this.determineUseCases(file);
+    const chunks: CodeChunk[] = [];
+    const enclosing: { level: number; id: string }[] = [];
+
+    for (const section of sections) {
+      while (enclosing.length > 0 && enclosing[enclosing.length - 1].level >= section.level) {
+        enclosing.pop();
+      }
+
+      // Headings without text of their own are only kept as part of the file
+      if (section.level > 0 && section.endLine === section.startLine) {
+        continue;
+      }
+
+      const content = lines.slice(section.startLine - 1, section.endLine).join('\n');
+      const contentHash = hashContent(content);
+      const id = createChunkId(this.repoInfo, file.path, ChunkType.SECTION, contentHash, section.headingPath.join(' > '));
       chunks.push({
-        id: `summary-${uuidv4()}`,
-        content: file.content,
-        type: ChunkType.SUMMARY,
-        useCases: [UseCase.EXPLANATION],
+        id,
+        content,
+        type: ChunkType.SECTION,
+        useCases,
         metadata: {
           repositoryInfo: this.repoInfo,
           filePath: file.path,
           language: file.language,
+          startLine: section.startLine,
+          endLine: section.endLine,
+          symbolName: section.title || undefined,
+          contentHash,
+          parentId: enclosing.length > 0 ? enclosing[enclosing.length - 1].id : fileChunkId,
+          headingPath: section.headingPath,
         }
       });
+      enclosing.push({ level: section.level, id });
     }
 
     return chunks;
   }
 
+  /**
+   * Creates one chunk per top-level key of a JSON, YAML or TOML file
+   * @param file The file to process
+   * @param fileChunkId The ID of the file-level chunk, used as the parent of all entries
+   * @returns Array of configuration entry chunks
+   */
+  private createConfigChunks(file: GitHubFile, fileChunkId: string): CodeChunk[] {
+    const lines = file.content.split('\n');
+    const useCases = this.determineUseCases(file);
+
+    return extractConfigEntries(file.content, file.language || '').map(entry => {
+      const content = lines.slice(entry.startLine - 1, entry.endLine).join('\n');
+      const contentHash = hashContent(content);
+
+      return {
+        id: createChunkId(this.repoInfo, file.path, ChunkType.CONFIG_ENTRY, contentHash, entry.key),
+        content,
+        type: ChunkType.CONFIG_ENTRY,
+        useCases,
+        metadata: {
+          repositoryInfo: this.repoInfo,
+          filePath: file.path,
+          language: file.language,
+          startLine: entry.startLine,
+          endLine: entry.endLine,
+          symbolName: entry.key,
+          contentHash,
+          parentId: fileChunkId,
+        }
+      };
+    });
+  }
+
+  /**
+   * Creates one chunk per code or markdown cell of a notebook
+   * @param file The file to process
+   * @param notebook The parsed notebook
+   * @param fileChunkId The ID of the file-level chunk, used as the parent of all cells
+   * @returns Array of cell chunks
+   */
+  private createCellChunks(file: GitHubFile, notebook: Notebook, fileChunkId: string): CodeChunk[] {
+    const useCases = this.determineUseCases(file);
+
+    return notebook.cells.map(cell => {
+      const contentHash = hashContent(cell.source);
+
+      return {
+        id: createChunkId(this.repoInfo, file.path, ChunkType.NOTEBOOK_CELL, contentHash, `cell ${cell.index}`),
+        content: cell.source,
+        type: ChunkType.NOTEBOOK_CELL,
+        useCases: cell.cellType === 'markdown' ? [UseCase.EXPLANATION] : useCases,
+        metadata: {
+          repositoryInfo: this.repoInfo,
+          filePath: file.path,
+          // Code cells are filtered by the kernel's language, e.g. python
+          language: cell.cellType === 'markdown' ? 'markdown' : notebook.language || file.language,
+          contentHash,
+          parentId: fileChunkId,
+          cellIndex: cell.index,
+          cellType: cell.cellType,
+        }
+      };
+    });
+  }
+
   /**
    * Creates code-level chunks (classes, functions, etc.)
    * @param file The file to process
+   * @param fileChunkId The ID of the file-level chunk, used as the parent of top-level symbols
    * @returns Array of code-level chunks
    */
-  private createCodeChunks(file: GitHubFile): CodeChunk[] {
+  private createCodeChunks(file: GitHubFile, fileChunkId: string): CodeChunk[] {
     const chunks: CodeChunk[] = [];
 
     try {
-      // Simple line-based chunking as a fallback until tree-sitter is integrated
+      // Parser-backed extraction where supported, line heuristics otherwise
       const lines = file.content.split('\n');
-      let currentFunction: {
-        name: string;
-        content: string[];
-        startLine: number;
-        endLine: number;
-        isClass: boolean;
-      } | null = null;
-
-      // Extremely simple pattern matching for function/method/class detection
-      // In a real implementation, we would use tree-sitter or a proper parser for each language
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        
-        // Very basic function detection (this is an oversimplification)
-        const functionMatch = line.match(/(?:function|def|public|private|protected)?\s*(\w+)\s*\([^)]*\)\s*(?::\s*\w+)?\s*{?/);
-        const classMatch = line.match(/(?:class|interface)\s+(\w+)(?:\s+extends|\s+implements|\s*{)?/);
-        
-        if (currentFunction) {
-          // Check for end of function/class
-          if ((currentFunction.isClass && line.trim() === '}') || 
-              (!currentFunction.isClass && line.match(/^\s*}\s*$/))) {
-            currentFunction.content.push(line);
-            currentFunction.endLine = i;
-            
-            // Add the function/class chunk
-            const chunkType = currentFunction.isClass ? ChunkType.CLASS : ChunkType.FUNCTION;
-            const useCases = this.determineUseCasesForSymbol(currentFunction.name, chunkType, file);
-            
-            chunks.push({
-              id: `${chunkType.toLowerCase()}-${uuidv4()}`,
-              content: currentFunction.content.join('\n'),
-              type: chunkType,
-              useCases,
-              metadata: {
-                repositoryInfo: this.repoInfo,
-                filePath: file.path,
-                language: file.language,
-                startLine: currentFunction.startLine,
-                endLine: currentFunction.endLine,
-                symbolName: currentFunction.name
-              }
-            });
-            
-            currentFunction = null;
-          } else {
-            // Continue collecting lines for the current function/class
-            currentFunction.content.push(line);
-          }
-        } else if (classMatch) {
-          // Start of a new class
-          currentFunction = {
-            name: classMatch[1],
-            content: [line],
-            startLine: i,
-            endLine: -1,
-            isClass: true
-          };
-        } else if (functionMatch) {
-          // Start of a new function
-          currentFunction = {
-            name: functionMatch[1],
-            content: [line],
-            startLine: i,
-            endLine: -1,
-            isClass: false
-          };
-        }
-      }
-      
-      // Handle case where the function/class extends to the end of file
-      if (currentFunction) {
-        currentFunction.endLine = lines.length - 1;
-        
-        const chunkType = currentFunction.isClass ? ChunkType.CLASS : ChunkType.FUNCTION;
-        const useCases = this.determineUseCasesForSymbol(currentFunction.name, chunkType, file);
-        
+      const symbols = extractSymbols(file);
+      const symbolIds = new Map<CodeSymbol, string>();
+      const occurrences = new Map<string, number>();
+
+      for (const symbol of symbols) {
+        const chunkType = symbol.kind === 'class' ? ChunkType.CLASS : ChunkType.FUNCTION;
+        const useCases = this.determineUseCasesForSymbol(symbol.name, chunkType, file);
+        const content = lines.slice(symbol.startLine - 1, symbol.endLine).join('\n');
+        const contentHash = hashContent(content);
+        // Symbols alike in name, class and content are told apart by their order in the file
+        const identity = [chunkType, symbol.parentName || '', symbol.name, contentHash].join('\0');
+        const occurrence = occurrences.get(identity) ?? 0;
+        occurrences.set(identity, occurrence + 1);
+        const id = createChunkId(this.repoInfo, file.path, chunkType, contentHash, symbol.name, {
+          parentName: symbol.parentName,
+          occurrence,
+        });
+        const parent = this.findParentSymbol(symbol, symbols);
+        symbolIds.set(symbol, id);
+
         chunks.push({
-          id: `${chunkType.toLowerCase()}-${uuidv4()}`,
-          content: currentFunction.content.join('\n'),
+          id,
+          content,
           type: chunkType,
           useCases,
           metadata: {
             repositoryInfo: this.repoInfo,
             filePath: file.path,
             language: file.language,
-            startLine: currentFunction.startLine,
-            endLine: currentFunction.endLine,
-            symbolName: currentFunction.name
+            startLine: symbol.startLine,
+            endLine: symbol.endLine,
+            symbolName: symbol.name,
+            contentHash,
+            // Symbols are ordered by start line, so a parent's ID is already known
+            parentId: (parent && symbolIds.get(parent)) || fileChunkId,
+            signature: this.extractSignature(lines, symbol)
           }
         });
       }
@@ -291,6 +302,100 @@ export class CodeChunker {
     return chunks;
   }
 
+  /**
+   * Finds the class a symbol belongs to
+   * @param symbol The symbol to find the parent of
+   * @param symbols All symbols in the file
+   * @returns The innermost enclosing class, or the class named by the symbol's
+   * parent name (e.g. a Go receiver type), if any
+   */
+  private findParentSymbol(symbol: CodeSymbol, symbols: CodeSymbol[]): CodeSymbol | undefined {
+    if (!symbol.parentName) {
+      return undefined;
+    }
+
+    const candidates = symbols.filter(other =>
+      other !== symbol && other.kind === 'class' && other.name === symbol.parentName
+    );
+    const enclosing = candidates.filter(other =>
+      other.startLine <= symbol.startLine && other.endLine >= symbol.endLine
+    );
+
+    return enclosing.length > 0 ? enclosing[enclosing.length - 1] : candidates[0];
+  }
+
+  /**
+   * Extracts the declaration header of a symbol, up to where its body starts
+   * @param lines The file lines
+   * @param symbol The symbol
+   * @returns The signature text
+   */
+  private extractSignature(lines: string[], symbol: CodeSymbol): string {
+    const signature: string[] = [];
+
+    for (let i = symbol.startLine - 1; i < symbol.endLine && signature.length < 5; i++) {
+      const line = lines[i];
+      signature.push(line);
+      if (line.includes('{') || line.trimEnd().endsWith(':')) {
+        break;
+      }
+    }
+
+    return signature.join('\n').replace(/\s*\{[^{]*$/, '').trimEnd();
+  }
+
+  /**
+   * Extracts import, package and include statements from a source file
+   * @param content The file content
+   * @returns The import lines
+   */
+  private extractImports(content: string): string[] {
+    const importPattern =
+      /^\s*(import\s|from\s+\S+\s+import\s|package\s|using\s|#include\s|use\s+\w|(const|let|var)\s+.+=\s*require\()/;
+
+    return content
+      .split('\n')
+      .filter(line => importPattern.test(line))
+      .slice(0, 50);
+  }
+
+  /**
+   * Resolves parent links to split parts and fills in child IDs
+   * @param chunks The chunks of a single file, after splitting
+   * @returns The same chunks with consistent parentId and childIds
+   */
+  private linkHierarchy(chunks: CodeChunk[]): CodeChunk[] {
+    const partsByGroup = new Map<string, CodeChunk[]>();
+    for (const chunk of chunks) {
+      const groupId = chunk.metadata.splitGroupId;
+      if (groupId) {
+        partsByGroup.set(groupId, [...(partsByGroup.get(groupId) || []), chunk]);
+      }
+    }
+
+    const chunksById = new Map(chunks.map(chunk => [chunk.id, chunk]));
+    for (const chunk of chunks) {
+      const parentId = chunk.metadata.parentId;
+      const parentParts = parentId ? partsByGroup.get(parentId) : undefined;
+
+      // A split parent is represented by the part containing the child's first line
+      if (parentParts) {
+        const line = chunk.metadata.startLine ?? 1;
+        const part = parentParts.find(candidate =>
+          (candidate.metadata.startLine ?? 1) <= line && line <= (candidate.metadata.endLine ?? line)
+        );
+        chunk.metadata.parentId = (part || parentParts[0]).id;
+      }
+
+      const parent = chunk.metadata.parentId ? chunksById.get(chunk.metadata.parentId) : undefined;
+      if (parent) {
+        parent.metadata.childIds = [...(parent.metadata.childIds || []), chunk.id];
+      }
+    }
+
+    return chunks;
+  }
+
   /**
    * Determines which use cases a file is relevant for
    * @param file The file to check
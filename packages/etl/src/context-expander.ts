@@ -0,0 +1,178 @@
+/**
+ * Expansion of search hits with their surrounding code
+ */
+
+import { VectorDBClient } from '@github-rag-system/db';
+import {
+  CodeChunk,
+  ChunkType,
+  ChunkContext,
+  ContextExpansionOptions,
+  Tokenizer
+} from '@github-rag-system/common';
+import { TiktokenTokenizer } from './tokenizers';
+
+/**
+ * Maximum number of ancestors followed from a hit
+ */
+const MAX_DEPTH = 5;
+
+/**
+ * Number of siblings considered on each side of a hit
+ */
+const SIBLING_RADIUS = 3;
+
+/**
+ * Adds enclosing class signatures, file imports and neighbouring chunks to
+ * search hits, within a token budget per hit
+ */
+export class ContextExpander {
+  private dbClient: VectorDBClient;
+  private tokenizer: Tokenizer;
+
+  /**
+   * Creates a new ContextExpander
+   * @param dbClient The client used to fetch related chunks
+   * @param tokenizer Tokenizer used to measure context (defaults to cl100k_base)
+   */
+  constructor(dbClient: VectorDBClient, tokenizer: Tokenizer = new TiktokenTokenizer()) {
+    this.dbClient = dbClient;
+    this.tokenizer = tokenizer;
+  }
+
+  /**
+   * Builds the context for each hit
+   * @param hits The search hits
+   * @param options Expansion options
+   * @returns Promise resolving to one context per hit, in hit order
+   */
+  async expand(hits: CodeChunk[], options: ContextExpansionOptions = {}): Promise<ChunkContext[]> {
+    const tokenBudget = options.tokenBudget ?? 1000;
+    const related = new Map<string, CodeChunk>(hits.map(hit => [hit.id, hit]));
+
+    // Fetch ancestors level by level for all hits at once
+    let frontier = hits.map(hit => hit.metadata.parentId);
+    for (let depth = 0; depth < MAX_DEPTH; depth++) {
+      const ids = frontier.filter((id): id is string => !!id);
+      if (ids.length === 0) {
+        break;
+      }
+      await this.fetchInto(ids, related);
+      frontier = ids.map(id => related.get(id)?.metadata.parentId);
+    }
+
+    // Fetch neighbour candidates for all hits at once
+    const candidateIds = hits.map(hit => this.getNeighbourCandidates(hit, related));
+    await this.fetchInto(candidateIds.flat(), related);
+
+    return hits.map((hit, i) => this.buildContext(hit, candidateIds[i], related, tokenBudget));
+  }
+
+  /**
+   * Lists the IDs of potential neighbours of a hit, nearest first
+   * @param hit The search hit
+   * @param related Chunks fetched so far
+   * @returns Array of chunk IDs
+   */
+  private getNeighbourCandidates(hit: CodeChunk, related: Map<string, CodeChunk>): string[] {
+    const candidates: string[] = [];
+
+    // Adjacent parts of a split chunk come first
+    if (hit.metadata.previousPartId) {
+      candidates.push(hit.metadata.previousPartId);
+    }
+    if (hit.metadata.nextPartId) {
+      candidates.push(hit.metadata.nextPartId);
+    }
+
+    // Then siblings under the same parent, alternating before and after the hit
+    const parent = hit.metadata.parentId ? related.get(hit.metadata.parentId) : undefined;
+    const siblings = parent?.metadata.childIds || [];
+    const position = siblings.indexOf(hit.id);
+    if (position >= 0) {
+      for (let distance = 1; distance <= SIBLING_RADIUS; distance++) {
+        for (const index of [position - distance, position + distance]) {
+          const siblingId = siblings[index];
+          if (siblingId && !candidates.includes(siblingId)) {
+            candidates.push(siblingId);
+          }
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Assembles the context of a hit, adding the most relevant pieces first
+   * @param hit The search hit
+   * @param candidateIds Neighbour candidates, nearest first
+   * @param related All fetched chunks
+   * @param tokenBudget Maximum tokens for the context
+   * @returns The hit's context
+   */
+  private buildContext(
+    hit: CodeChunk,
+    candidateIds: string[],
+    related: Map<string, CodeChunk>,
+    tokenBudget: number
+  ): ChunkContext {
+    const context: ChunkContext = { enclosingSignatures: [], imports: [], neighbours: [], tokens: 0 };
+    const fits = (text: string) => {
+      const tokens = this.tokenizer.count(text);
+      if (context.tokens + tokens > tokenBudget) {
+        return false;
+      }
+      context.tokens += tokens;
+      return true;
+    };
+
+    // Walk up to the file, collecting class signatures and the file's imports
+    const ancestors: CodeChunk[] = [];
+    let current = hit.metadata.parentId ? related.get(hit.metadata.parentId) : undefined;
+    while (current && ancestors.length < MAX_DEPTH) {
+      ancestors.unshift(current);
+      current = current.metadata.parentId ? related.get(current.metadata.parentId) : undefined;
+    }
+
+    for (const ancestor of ancestors) {
+      const signature = ancestor.metadata.signature;
+      if (ancestor.type === ChunkType.CLASS && signature && fits(signature)) {
+        context.enclosingSignatures.push(signature);
+      }
+    }
+
+    const file = ancestors.find(ancestor => ancestor.type === ChunkType.FILE)
+      || (hit.type === ChunkType.FILE ? hit : undefined);
+    for (const importLine of file?.metadata.imports || []) {
+      if (!fits(importLine)) {
+        break;
+      }
+      context.imports.push(importLine);
+    }
+
+    // Fill the remaining budget with the nearest neighbours
+    for (const id of candidateIds) {
+      const neighbour = related.get(id);
+      if (neighbour && fits(neighbour.content)) {
+        context.neighbours.push(neighbour);
+      }
+    }
+    context.neighbours.sort((a, b) => (a.metadata.startLine ?? 0) - (b.metadata.startLine ?? 0));
+
+    return context;
+  }
+
+  /**
+   * Fetches chunks that are not yet known
+   * @param ids The chunk IDs to fetch
+   * @param related The map to add fetched chunks to
+   */
+  private async fetchInto(ids: string[], related: Map<string, CodeChunk>): Promise<void> {
+    const missing = ids.filter(id => !related.has(id));
+    const fetched = await this.dbClient.getChunks(missing);
+    for (const [id, chunk] of fetched) {
+      related.set(id, chunk);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Storage of multi-turn conversations
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ChatMessage,
+  Conversation,
+  ConversationInfo,
+  ConversationTurn
+} from '@github-rag-system/common';
+import { readJsonFile, writeJsonFile } from './json-file';
+
+/**
+ * Number of most recent turns given to the model as conversation history
+ */
+const MAX_HISTORY_TURNS = 4;
+
+/**
+ * Maximum length of a title derived from the first question
+ */
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Stores conversations in a JSON file
+ */
+export class ConversationStore {
+  private filePath: string;
+
+  /**
+   * Creates a new ConversationStore
+   * @param filePath Path of the JSON file holding the conversations
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Starts a new conversation
+   * @param repositories URLs of the repositories code is retrieved from
+   * @param title Optional title
+   * @returns The new conversation
+   */
+  create(repositories: string[], title?: string): Conversation {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: randomUUID(),
+      repositories: [...new Set(repositories)],
+      title,
+      createdAt: now,
+      updatedAt: now,
+      turns: [],
+    };
+
+    const conversations = this.read();
+    conversations.set(conversation.id, conversation);
+    this.write(conversations);
+    return conversation;
+  }
+
+  /**
+   * Gets a conversation by ID
+   * @param id The conversation ID
+   * @returns The conversation, or undefined if it does not exist
+   */
+  get(id: string): Conversation | undefined {
+    return this.read().get(id);
+  }
+
+  /**
+   * Lists conversations, most recently active first
+   * @returns The conversations without their turns
+   */
+  list(): ConversationInfo[] {
+    return [...this.read().values()]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(({ turns, ...info }) => ({ ...info, turnCount: turns.length }));
+  }
+
+  /**
+   * Records a question and its answer
+   * @param id The conversation ID
+   * @param turn The question and answer
+   * @returns The updated conversation, or undefined if it does not exist
+   */
+  addTurn(id: string, turn: ConversationTurn): Conversation | undefined {
+    const conversations = this.read();
+    const conversation = conversations.get(id);
+    if (!conversation) {
+      return undefined;
+    }
+
+    conversation.turns.push(turn);
+    conversation.updatedAt = turn.askedAt;
+    if (!conversation.title) {
+      const title = turn.question.replace(/\s+/g, ' ').trim();
+      conversation.title = title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title;
+    }
+    this.write(conversations);
+    return conversation;
+  }
+
+  /**
+   * Deletes a conversation
+   * @param id The conversation ID
+   * @returns Whether the conversation existed
+   */
+  delete(id: string): boolean {
+    const conversations = this.read();
+    if (!conversations.delete(id)) {
+      return false;
+    }
+    this.write(conversations);
+    return true;
+  }
+
+  /**
+   * Reads the conversations file, treating a missing or corrupt file as empty.
+   * Conversations are keyed in a map, so IDs such as `constructor` or
+   * `__proto__` never resolve to inherited object properties.
+   */
+  private read(): Map<string, Conversation> {
+    return new Map(Object.entries(readJsonFile<Record<string, Conversation>>(this.filePath, {})));
+  }
+
+  /**
+   * Writes the conversations file atomically
+   */
+  private write(conversations: Map<string, Conversation>): void {
+    writeJsonFile(this.filePath, Object.fromEntries(conversations));
+  }
+}
+
+/**
+ * Converts the most recent turns of a conversation into chat messages
+ * @param conversation The conversation
+ * @returns Alternating user and assistant messages, oldest first
+ */
+export function conversationHistory(conversation: Conversation): ChatMessage[] {
+  return conversation.turns.slice(-MAX_HISTORY_TURNS).flatMap((turn): ChatMessage[] => [
+    { role: 'user', content: turn.question },
+    { role: 'assistant', content: turn.answer },
+  ]);
+}
@@ -0,0 +1,382 @@
+/**
+ * Selection of the repository files to index
+ */
+
+import * as path from 'path';
+import { globToRegExp } from '@github-rag-system/db';
+import {
+  GitHubFile,
+  FileSelectionOptions,
+  SkippedFile
+} from '@github-rag-system/common';
+import { GitHubRepository } from './github-repo';
+
+/**
+ * Path of the per-repository configuration file, relative to the repository root
+ */
+export const RAG_CONFIG_FILE = '.ragconfig.json';
+
+/**
+ * Default maximum size of an indexed file in bytes
+ */
+export const DEFAULT_MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Files that are never worth indexing: dependencies, lockfiles, secrets,
+ * logs, minified bundles, source maps and the selection rules themselves
+ */
+const DEFAULT_EXCLUDES = [
+  '**/node_modules/**',
+  '.DS_Store',
+  '.env',
+  '*.log',
+  '*.lock',
+  'package-lock.json',
+  'pnpm-lock.yaml',
+  '*.min.js',
+  '*.min.css',
+  '*.map',
+  RAG_CONFIG_FILE,
+];
+
+/**
+ * Files whose changes can change which other files are selected
+ */
+const RULE_FILE_NAMES = ['.gitignore', '.gitattributes'];
+
+/**
+ * Files longer than this are checked for minification
+ */
+const MINIFIED_MIN_LENGTH = 1024;
+
+/**
+ * Average line length above which a file is considered minified
+ */
+const MINIFIED_AVERAGE_LINE_LENGTH = 250;
+
+/**
+ * The files selected for indexing and the files that were skipped
+ */
+export interface FileSelection {
+  /**
+   * The selected files, read one at a time as they are iterated
+   */
+  files: AsyncIterable<GitHubFile>;
+
+  /**
+   * Number of files that passed the path, attribute and size rules; files
+   * can still be skipped for their content while they are read
+   */
+  candidates: number;
+
+  /**
+   * The skipped files and why; complete once `files` has been iterated
+   */
+  skipped: SkippedFile[];
+}
+
+/**
+ * A path glob and its compiled form
+ */
+interface CompiledGlob {
+  glob: string;
+  regexp: RegExp;
+}
+
+/**
+ * Decides which files of a repository are indexed, combining built-in
+ * excludes, `.gitignore`, the `linguist-generated` and `linguist-vendored`
+ * attributes in `.gitattributes`, the repository's `.ragconfig.json` and the
+ * options of the processing request
+ */
+export class FileSelector {
+  private repo: GitHubRepository;
+  private options: FileSelectionOptions;
+
+  /**
+   * Creates a new FileSelector
+   * @param repo The checked out repository
+   * @param options Selection options of the request; `include` and
+   * `maxFileSize` take precedence over `.ragconfig.json`, and excludes of both apply
+   */
+  constructor(repo: GitHubRepository, options: FileSelectionOptions = {}) {
+    this.repo = repo;
+    this.options = options;
+  }
+
+  /**
+   * Selects the files to index among the given paths. Rules that need no file
+   * contents are applied right away, while contents are only read, checked
+   * and held one file at a time as the selected files are iterated.
+   * @param relativePaths Candidate paths relative to the repository root
+   * @returns Promise resolving to the selected files and the skipped paths with reasons
+   */
+  async select(relativePaths: string[]): Promise<FileSelection> {
+    const config = await this.readConfig();
+    const includeGlobs = this.options.include ?? config.include;
+    const include = includeGlobs && compileGlobs(includeGlobs);
+    const exclude = compileGlobs([
+      ...DEFAULT_EXCLUDES,
+      ...(config.exclude || []),
+      ...(this.options.exclude || []),
+    ]);
+    const maxFileSize = this.options.maxFileSize ?? config.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+
+    const skipped: SkippedFile[] = [];
+    let candidates: string[] = [];
+
+    // Path rules first, as they are cheapest
+    for (const relativePath of relativePaths) {
+      const excludedBy = exclude.find(({ regexp }) => regexp.test(relativePath));
+      if (excludedBy) {
+        skipped.push({ path: relativePath, reason: 'excluded', detail: excludedBy.glob });
+      } else if (include && !include.some(({ regexp }) => regexp.test(relativePath))) {
+        skipped.push({ path: relativePath, reason: 'not-included' });
+      } else {
+        candidates.push(relativePath);
+      }
+    }
+
+    const ignored = await this.repo.getIgnoredPaths(candidates);
+    const attributes = await this.repo.getAttributes(
+      candidates.filter(relativePath => !ignored.has(relativePath)),
+      ['linguist-generated', 'linguist-vendored']
+    );
+    candidates = candidates.filter(relativePath => {
+      const values = attributes.get(relativePath) || {};
+      if (ignored.has(relativePath)) {
+        skipped.push({ path: relativePath, reason: 'gitignored' });
+      } else if (isSet(values['linguist-generated'])) {
+        skipped.push({ path: relativePath, reason: 'generated', detail: '.gitattributes' });
+      } else if (isSet(values['linguist-vendored'])) {
+        skipped.push({ path: relativePath, reason: 'vendored', detail: '.gitattributes' });
+      } else {
+        return true;
+      }
+      return false;
+    });
+
+    // Check sizes before reading, so large files are never loaded
+    const sizes = this.repo.getFileSizes(candidates);
+    candidates = candidates.filter(relativePath => {
+      const size = sizes.get(relativePath);
+      if (size !== undefined && size > maxFileSize) {
+        skipped.push({ path: relativePath, reason: 'too-large', detail: `${size} > ${maxFileSize} bytes` });
+        return false;
+      }
+      return true;
+    });
+
+    return {
+      files: this.readFiles(candidates, skipped),
+      candidates: candidates.length,
+      skipped,
+    };
+  }
+
+  /**
+   * Reads files one at a time, skipping those whose content is not worth indexing
+   * @param relativePaths The paths to read
+   * @param skipped Receives the skipped files
+   * @returns Async iterator over the files to index
+   */
+  private async *readFiles(relativePaths: string[], skipped: SkippedFile[]): AsyncGenerator<GitHubFile> {
+    for (const relativePath of relativePaths) {
+      const file = this.repo.getFile(relativePath);
+      if (!file) {
+        skipped.push({ path: relativePath, reason: 'unreadable' });
+      } else if (!file.content.trim()) {
+        skipped.push({ path: relativePath, reason: 'empty' });
+      } else if (isLikelyBinary(file.content)) {
+        skipped.push({ path: relativePath, reason: 'binary' });
+      } else if (isLikelyMinified(file.content) && !isNotebook(file)) {
+        skipped.push({ path: relativePath, reason: 'minified' });
+      } else {
+        yield file;
+      }
+    }
+  }
+
+  /**
+   * Reads the repository's selection rules, ignoring an invalid file
+   * @returns Promise resolving to the rules, empty if there are none
+   */
+  private async readConfig(): Promise<FileSelectionOptions> {
+    const file = this.repo.getFile(RAG_CONFIG_FILE);
+    if (!file) {
+      return {};
+    }
+
+    try {
+      const config = JSON.parse(file.content);
+      const errors = validateFileSelection(config, RAG_CONFIG_FILE);
+      if (errors.length > 0) {
+        console.warn(`Ignoring invalid ${RAG_CONFIG_FILE}: ${errors.join('; ')}`);
+        return {};
+      }
+      return config;
+    } catch (error) {
+      console.warn(`Ignoring invalid ${RAG_CONFIG_FILE}:`, error);
+      return {};
+    }
+  }
+}
+
+/**
+ * Checks that a value is a well-formed set of selection options
+ * @param value The value to check, from a request body or `.ragconfig.json`
+ * @param location The location of the value, used in error messages
+ * @returns Array of error messages, empty if the options are valid
+ */
+export function validateFileSelection(value: unknown, location = 'fileSelection'): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${location} must be an object`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, option] of Object.entries(value)) {
+    const optionPath = `${location}.${key}`;
+    if (key === 'include' || key === 'exclude') {
+      if (!Array.isArray(option) || !option.every(glob => typeof glob === 'string' && glob.length > 0)) {
+        errors.push(`${optionPath} must be an array of non-empty path globs`);
+      }
+    } else if (key === 'maxFileSize') {
+      if (!Number.isInteger(option) || option <= 0) {
+        errors.push(`${optionPath} must be a positive number of bytes`);
+      }
+    } else {
+      errors.push(`${optionPath} is not a supported option`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks whether a change to a file can change which files are selected
+ * @param relativePath Path relative to the repository root
+ * @returns True for `.gitignore`, `.gitattributes` and `.ragconfig.json` files
+ */
+export function isSelectionRuleFile(relativePath: string): boolean {
+  return relativePath === RAG_CONFIG_FILE || RULE_FILE_NAMES.includes(path.posix.basename(relativePath));
+}
+
+/**
+ * Builds a stable key for selection options, so that runs with different
+ * options can be told apart
+ * @param options The selection options of a request
+ * @returns The key, empty when no options are set
+ */
+export function fileSelectionKey(options: FileSelectionOptions = {}): string {
+  const { include, exclude, maxFileSize } = options;
+  if (include === undefined && exclude === undefined && maxFileSize === undefined) {
+    return '';
+  }
+  return JSON.stringify({ include, exclude, maxFileSize });
+}
+
+/**
+ * Converts include globs into sparse-checkout patterns, keeping the files
+ * that selection rules are read from
+ * @param include The include globs
+ * @returns Patterns in `.gitignore` syntax
+ */
+export function toSparseCheckoutPatterns(include: string[]): string[] {
+  const patterns = include.flatMap(expandBraces).map(glob => {
+    // As in globs, patterns without a slash match in any directory, while
+    // patterns with one are relative to the root
+    const pattern = glob.includes('/') ? `/${glob.replace(/^\/+/, '')}` : glob;
+    return /^[!#]/.test(pattern) ? `\\${pattern}` : pattern;
+  });
+  return [...patterns, `/${RAG_CONFIG_FILE}`, ...RULE_FILE_NAMES];
+}
+
+/**
+ * Expands the `{a,b}` alternatives of a glob, which `.gitignore` syntax lacks
+ * @param glob The glob
+ * @returns The globs without alternatives
+ */
+function expandBraces(glob: string): string[] {
+  const start = glob.indexOf('{');
+  if (start < 0) {
+    return [glob];
+  }
+
+  // Find the matching brace and the top-level alternatives
+  const alternatives: string[] = [];
+  let depth = 0;
+  let from = start + 1;
+  for (let i = start; i < glob.length; i++) {
+    if (glob[i] === '{') {
+      depth++;
+    } else if (glob[i] === '}' && --depth === 0) {
+      alternatives.push(glob.slice(from, i));
+      const prefix = glob.slice(0, start);
+      const suffix = glob.slice(i + 1);
+      return alternatives.flatMap(alternative => expandBraces(`${prefix}${alternative}${suffix}`));
+    } else if (glob[i] === ',' && depth === 1) {
+      alternatives.push(glob.slice(from, i));
+      from = i + 1;
+    }
+  }
+
+  // An unmatched brace is taken literally
+  return [glob];
+}
+
+/**
+ * Checks if content is likely binary
+ * @param content The file content
+ * @returns True if the content is likely binary
+ */
+function isLikelyBinary(content: string): boolean {
+  // Simple heuristic: check for null bytes or high proportion of non-printable characters
+  if (content.includes('\0')) {
+    return true;
+  }
+
+  // Count non-printable characters
+  const nonPrintable = content.match(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g);
+  return !!nonPrintable && nonPrintable.length > content.length * 0.1;
+}
+
+/**
+ * Checks if content is likely minified or otherwise machine-written on few long lines
+ * @param content The file content
+ * @returns True if the content is likely minified
+ */
+function isLikelyMinified(content: string): boolean {
+  if (content.length < MINIFIED_MIN_LENGTH) {
+    return false;
+  }
+  const lines = content.split('\n').length;
+  return content.length / lines > MINIFIED_AVERAGE_LINE_LENGTH;
+}
+
+/**
+ * Checks whether a file is a Jupyter notebook, whose outputs (such as images)
+ * are stored on long lines but are not indexed
+ * @param file The file
+ * @returns True for notebooks
+ */
+function isNotebook(file: GitHubFile): boolean {
+  return file.language === 'jupyter';
+}
+
+/**
+ * Checks whether a git attribute is set
+ * @param value The attribute value reported by git
+ * @returns True if the attribute is set or true
+ */
+function isSet(value: string | undefined): boolean {
+  return value === 'set' || value === 'true';
+}
+
+/**
+ * Compiles path globs into anchored regular expressions
+ * @param globs The globs
+ * @returns The compiled globs
+ */
+function compileGlobs(globs: string[]): CompiledGlob[] {
+  return globs.map(glob => ({ glob, regexp: new RegExp(`^(?:${globToRegExp(glob)})$`) }));
+}
@@ -5,65 +5,212 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { createHash } from 'crypto';
 import simpleGit, { SimpleGit } from 'simple-git';
-import { GitHubRepositoryInfo, GitHubFile } from '@github-rag-system/common';
+import {
+  GitHubRepositoryInfo,
+  GitHubFile,
+  FileChange,
+  RefType,
+  RepositorySource,
+  GitCredentials,
+  WorkDirCleanup,
+  LanguageRegistry
+} from '@github-rag-system/common';
+import { parseRepositorySource, buildGitEnvironment } from './repository-source';
 
 /**
- * Handler for GitHub repository operations
+ * Default base directory for local clones
+ */
+export const DEFAULT_WORK_DIR = path.join(os.tmpdir(), 'github-rag-system');
+
+/**
+ * Number of paths passed to one git command, keeping command lines short
+ */
+const GIT_PATH_BATCH_SIZE = 500;
+
+/**
+ * Characters git does not allow anywhere in a ref name
+ */
+const INVALID_REF_CHARACTERS = /[\x00-\x20\x7f~^:?*[\\]/;
+
+/**
+ * Checks whether a branch, tag or commit name is well-formed, following the
+ * rules of `git check-ref-format`. Names starting with a dash are rejected too,
+ * so that a ref can never be taken for a command line option.
+ * @param ref The ref name
+ * @returns True if the name is valid
+ */
+export function isValidRefName(ref: string): boolean {
+  return ref !== '' &&
+    ref !== '@' &&
+    !ref.startsWith('-') &&
+    !INVALID_REF_CHARACTERS.test(ref) &&
+    !ref.includes('..') &&
+    !ref.includes('@{') &&
+    !ref.endsWith('.') &&
+    ref.split('/').every(component =>
+      component !== '' && !component.startsWith('.') && !component.endsWith('.lock')
+    );
+}
+
+/**
+ * Optional settings for a repository handler
+ */
+export interface GitHubRepositoryOptions {
+  /**
+   * Where to clone from (defaults to the source parsed from the repository URL)
+   */
+  source?: RepositorySource;
+
+  /**
+   * Credentials for private repositories
+   */
+  credentials?: GitCredentials;
+
+  /**
+   * Signal that aborts running git commands
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Only fetch this many commits of history per ref
+   */
+  depth?: number;
+
+  /**
+   * Sparse-checkout patterns; when given, only matching files are checked
+   * out and file contents are downloaded on demand
+   */
+  sparsePatterns?: string[];
+
+  /**
+   * Detects the language of files (defaults to the built-in languages)
+   */
+  languages?: LanguageRegistry;
+}
+
+/**
+ * Pending git operations per local clone, used to serialise operations that
+ * modify the clone's shared .git directory
+ */
+const cloneLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs an operation once all earlier operations on the same clone have finished
+ * @param clonePath The path of the clone
+ * @param operation The operation to run
+ * @returns Promise resolving to the operation's result
+ */
+function withCloneLock<T>(clonePath: string, operation: () => Promise<T>): Promise<T> {
+  const previous = cloneLocks.get(clonePath) || Promise.resolve();
+  const result = previous.catch(() => undefined).then(operation);
+  const settled = result.catch(() => undefined);
+  cloneLocks.set(clonePath, settled);
+  settled.then(() => {
+    if (cloneLocks.get(clonePath) === settled) {
+      cloneLocks.delete(clonePath);
+    }
+  });
+  return result;
+}
+
+/**
+ * Handler for GitHub repository operations. The default branch is checked out
+ * in the main clone; every other ref gets its own worktree sharing the clone's
+ * objects, so refs can be processed side by side.
  */
 export class GitHubRepository {
   private git: SimpleGit;
   private repoInfo: GitHubRepositoryInfo;
+  private source: RepositorySource;
+  private clonePath: string;
   private localPath: string;
+  private depth?: number;
+  private sparsePatterns?: string[];
+  private languages: LanguageRegistry;
 
   /**
    * Creates a new GitHubRepository handler
    * @param repoInfo The GitHub repository information
    * @param workDir Optional custom working directory
+   * @param options Optional source, credentials, abort signal, history depth,
+   * sparse-checkout patterns and language registry
    */
-  constructor(repoInfo: GitHubRepositoryInfo, workDir?: string) {
+  constructor(repoInfo: GitHubRepositoryInfo, workDir?: string, options: GitHubRepositoryOptions = {}) {
+    if (repoInfo.ref && !isValidRefName(repoInfo.ref)) {
+      throw new Error(`Invalid ref name: ${repoInfo.ref}`);
+    }
     this.repoInfo = repoInfo;
-    this.git = simpleGit();
+    this.depth = options.depth;
+    this.sparsePatterns = options.sparsePatterns?.length ? options.sparsePatterns : undefined;
+    this.languages = options.languages || new LanguageRegistry();
+    this.source = options.source || parseRepositorySource(repoInfo.url);
+    this.git = simpleGit({ abort: options.signal }).env({
+      ...process.env,
+      ...buildGitEnvironment(this.source, options.credentials),
+    });
     
-    // Parse the repository URL to extract owner and name if not provided
-    if (!repoInfo.owner || !repoInfo.name) {
-      const urlParts = repoInfo.url.split('/');
-      if (urlParts.length >= 2) {
-        const name = urlParts.pop() || '';
-        const owner = urlParts.pop() || '';
-        this.repoInfo.owner = this.repoInfo.owner || owner;
-        this.repoInfo.name = this.repoInfo.name || name.replace('.git', '');
-      }
-    }
+    // Take owner and name from the source if not provided
+    this.repoInfo.owner = this.repoInfo.owner || this.source.owner;
+    this.repoInfo.name = this.repoInfo.name || this.source.name;
 
-    // Default to system temp directory if no workDir is provided
-    const baseDir = workDir || path.join(os.tmpdir(), 'github-rag-system');
-    this.localPath = path.join(baseDir, this.repoInfo.owner, this.repoInfo.name);
+    // Default to system temp directory if no workDir is provided. Local
+    // repositories are keyed by a hash of their path, as names can repeat,
+    // and worktrees by a hash of their ref, so no ref can change the path.
+    const baseDir = workDir || DEFAULT_WORK_DIR;
+    this.clonePath = this.source.kind === 'local'
+      ? path.join(baseDir, 'local', `${createHash('sha256').update(this.source.url).digest('hex').slice(0, 12)}-${this.source.name}`)
+      : path.join(baseDir, this.source.host, this.source.owner, this.source.name);
+    this.localPath = repoInfo.ref
+      ? path.join(`${this.clonePath}.worktrees`, createHash('sha256').update(repoInfo.ref).digest('hex').slice(0, 16))
+      : this.clonePath;
 
     // Ensure the directory exists
-    fs.mkdirSync(this.localPath, { recursive: true });
+    fs.mkdirSync(this.clonePath, { recursive: true });
   }
 
   /**
-   * Clones the repository locally, or pulls the latest changes if it already exists
-   * @returns Promise resolving to the local repository path
+   * Clones the repository locally, or fetches the latest changes if it already
+   * exists, and checks out the requested ref
+   * @returns Promise resolving to the local path of the checkout
    */
   async cloneOrPull(): Promise<string> {
     try {
-      if (fs.existsSync(path.join(this.localPath, '.git'))) {
-        // Repository already exists, pull latest changes
-        console.log(`Repository already exists at ${this.localPath}, pulling latest changes`);
-        await this.git.cwd(this.localPath).pull();
-      } else {
-        // Clone the repository
-        console.log(`Cloning repository ${this.repoInfo.url} to ${this.localPath}`);
-        await this.git.clone(this.repoInfo.url, this.localPath);
-      }
+      await withCloneLock(this.clonePath, async () => {
+        if (fs.existsSync(path.join(this.clonePath, '.git'))) {
+          // Repository already exists, fetch latest changes
+          console.log(`Repository already exists at ${this.clonePath}, fetching latest changes`);
+          // The same repository may be reached differently than last time
+          await this.git.cwd(this.clonePath).remote(['set-url', 'origin', this.source.cloneUrl]);
+        } else {
+          if (this.source.kind === 'local' && !fs.existsSync(this.source.cloneUrl)) {
+            throw new Error(`Local repository not found: ${this.source.cloneUrl}`);
+          }
 
-      // Checkout the specified branch if provided
-      if (this.repoInfo.branch) {
-        await this.git.cwd(this.localPath).checkout(this.repoInfo.branch);
-      }
+          // Clone the repository. Files are checked out per ref, so that
+          // sparse-checkout patterns apply before any file is written.
+          console.log(`Cloning repository ${this.repoInfo.url} to ${this.clonePath}`);
+          await this.git.clone(this.source.cloneUrl, this.clonePath, [
+            '--no-checkout',
+            ...(this.depth ? ['--depth', String(this.depth), '--no-single-branch'] : []),
+            ...(this.sparsePatterns ? ['--filter=blob:none'] : []),
+          ]);
+        }
+
+        // Also fetch right after cloning, as shallow clones leave out most tags
+        await this.git.cwd(this.clonePath).fetch(['origin', '--prune', '--tags', '--force', ...this.depthArgs()]);
+
+        if (this.repoInfo.ref) {
+          await this.checkoutWorktree(this.repoInfo.ref);
+        } else {
+          // Follow the remote's default branch
+          await this.git.cwd(this.clonePath).raw(['remote', 'set-head', 'origin', '--auto']);
+          await this.applySparseCheckout(this.clonePath);
+          await this.git.cwd(this.clonePath).raw(['checkout', '--force', '--detach', 'refs/remotes/origin/HEAD']);
+          this.repoInfo.refType = 'branch';
+        }
+      });
 
       return this.localPath;
     } catch (error) {
@@ -72,6 +219,129 @@ export class GitHubRepository {
     }
   }
 
+  /**
+   * Checks out a ref in its own worktree, creating the worktree if needed
+   * @param ref The branch, tag or commit
+   */
+  private async checkoutWorktree(ref: string): Promise<void> {
+    const target = await this.resolveRef(ref);
+
+    if (!fs.existsSync(path.join(this.localPath, '.git'))) {
+      // Drop registrations of worktrees whose directories were removed
+      await this.git.cwd(this.clonePath).raw(['worktree', 'prune']);
+      fs.rmSync(this.localPath, { recursive: true, force: true });
+      fs.mkdirSync(path.dirname(this.localPath), { recursive: true });
+      console.log(`Creating worktree for ${ref} at ${this.localPath}`);
+      await this.git
+        .cwd(this.clonePath)
+        .raw(['worktree', 'add', '--no-checkout', '--detach', '--force', this.localPath, target]);
+    }
+
+    await this.applySparseCheckout(this.localPath);
+    await this.git.cwd(this.localPath).raw(['checkout', '--force', '--detach', target]);
+  }
+
+  /**
+   * Applies the handler's sparse-checkout patterns to a working tree, or
+   * turns sparse checkout off if there are none. Takes effect on the next checkout.
+   * @param workTree The working tree
+   */
+  private async applySparseCheckout(workTree: string): Promise<void> {
+    if (this.sparsePatterns) {
+      await this.git.cwd(workTree).raw(['sparse-checkout', 'set', '--no-cone', ...this.sparsePatterns]);
+      return;
+    }
+
+    // Exits with status 1 when the setting is missing
+    const enabled = await this.git
+      .cwd(workTree)
+      .raw(['config', '--get', 'core.sparseCheckout'])
+      .catch(() => '');
+    if (enabled.trim() === 'true') {
+      await this.git.cwd(workTree).raw(['sparse-checkout', 'disable']);
+    }
+  }
+
+  /**
+   * Builds the fetch arguments for the handler's history depth, deepening
+   * shallow clones again when the full history is wanted
+   * @returns The arguments
+   */
+  private depthArgs(): string[] {
+    if (this.depth) {
+      return ['--depth', String(this.depth)];
+    }
+    return fs.existsSync(path.join(this.clonePath, '.git', 'shallow')) ? ['--unshallow'] : [];
+  }
+
+  /**
+   * Determines whether a ref is a branch, tag or commit and records its type
+   * @param ref The ref to resolve
+   * @returns The revision to check out
+   */
+  private async resolveRef(ref: string): Promise<string> {
+    const candidates: [string, RefType][] = [
+      [`refs/remotes/origin/${ref}`, 'branch'],
+      [`refs/tags/${ref}^{commit}`, 'tag'],
+    ];
+    for (const [revision, refType] of candidates) {
+      if (await this.hasRevision(revision)) {
+        this.repoInfo.refType = refType;
+        return revision;
+      }
+    }
+
+    if (/^[0-9a-f]{7,40}$/i.test(ref)) {
+      // Commits not reachable from any fetched ref have to be fetched explicitly
+      if (!await this.hasRevision(`${ref}^{commit}`)) {
+        await this.git.cwd(this.clonePath).fetch(['origin', ref, ...this.depthArgs()]).catch(() => undefined);
+      }
+      if (await this.hasRevision(`${ref}^{commit}`)) {
+        this.repoInfo.refType = 'commit';
+        return ref;
+      }
+    }
+
+    throw new Error(`Ref ${ref} not found in ${this.repoInfo.url}`);
+  }
+
+  /**
+   * Checks whether a revision exists in the local clone
+   * @param revision The revision to look up
+   * @returns Promise resolving to true if the revision exists
+   */
+  private async hasRevision(revision: string): Promise<boolean> {
+    try {
+      await this.git.cwd(this.clonePath).raw(['rev-parse', '--verify', revision]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Gets the directory of the main clone, which the ref's worktree belongs to
+   * @returns The clone directory
+   */
+  getClonePath(): string {
+    return this.clonePath;
+  }
+
+  /**
+   * Removes the worktree of the handler's ref; the main clone is kept
+   */
+  async removeWorktree(): Promise<void> {
+    if (this.localPath === this.clonePath || !fs.existsSync(path.join(this.clonePath, '.git'))) {
+      return;
+    }
+
+    await withCloneLock(this.clonePath, async () => {
+      await this.git.cwd(this.clonePath).raw(['worktree', 'remove', '--force', this.localPath]).catch(() => undefined);
+      fs.rmSync(this.localPath, { recursive: true, force: true });
+      await this.git.cwd(this.clonePath).raw(['worktree', 'prune']);
+    });
+  }
+
   /**
    * Gets all files from the repository, optionally filtered by extensions
    * @param extensions Optional array of file extensions to filter by (e.g., ['.ts', '.js'])
@@ -79,8 +349,7 @@ export class GitHubRepository {
    */
   async getFiles(extensions?: string[]): Promise<GitHubFile[]> {
     try {
-      const files: GitHubFile[] = [];
-      const filePaths = await this.getAllFilePaths(this.localPath);
+      const filePaths = await this.listFiles();
 
       // Filter by extensions if provided
       const filteredPaths = extensions 
@@ -90,84 +359,7 @@ export class GitHubRepository {
           }) 
         : filePaths;
       
-      // Process each file
-      for (const filePath of filteredPaths) {
-        try {
-          const relativePath = path.relative(this.localPath, filePath);
-          const content = fs.readFileSync(filePath, 'utf-8');
-          const stats = fs.statSync(filePath);
-          
-          // Determine language based on file extension
-          const ext = path.extname(filePath).toLowerCase();
-          let language: string | undefined;
-          
-          switch (ext) {
-            case '.ts':
-            case '.tsx':
-              language = 'typescript';
-              break;
-            case '.js':
-            case '.jsx':
-              language = 'javascript';
-              break;
-            case '.py':
-              language = 'python';
-              break;
-            case '.java':
-              language = 'java';
-              break;
-            case '.rb':
-              language = 'ruby';
-              break;
-            case '.go':
-              language = 'go';
-              break;
-            case '.rs':
-              language = 'rust';
-              break;
-            case '.c':
-            case '.cpp':
-            case '.cc':
-            case '.h':
-            case '.hpp':
-              language = 'c_cpp';
-              break;
-            case '.cs':
-              language = 'csharp';
-              break;
-            case '.php':
-              language = 'php';
-              break;
-            case '.swift':
-              language = 'swift';
-              break;
-            case '.kt':
-            case '.kts':
-              language = 'kotlin';
-              break;
-            default:
-              // For other file types, let's try to identify by content
-              if (content.includes('<?php')) {
-                language = 'php';
-              } else if (content.includes('<?xml')) {
-                language = 'xml';
-              } else if (content.includes('<!DOCTYPE html>') || content.includes('<html>')) {
-                language = 'html';
-              }
-          }
-          
-          files.push({
-            path: relativePath,
-            content,
-            language,
-            size: stats.size
-          });
-        } catch (error) {
-          console.warn(`Skipping file ${filePath}: ${error}`);
-        }
-      }
-      
-      return files;
+      return this.getFilesByPath(filteredPaths);
     } catch (error) {
       console.error('Failed to get repository files:', error);
       throw error;
@@ -175,41 +367,269 @@ export class GitHubRepository {
   }
 
   /**
-   * Gets all file paths recursively from a directory
-   * @param dirPath The directory path to scan
-   * @param results Optional array to accumulate results
-   * @returns Promise resolving to an array of file paths
+   * Lists the files tracked at the checked out commit
+   * @returns Promise resolving to paths relative to the repository root
    */
-  private async getAllFilePaths(dirPath: string, results: string[] = []): Promise<string[]> {
-    const entries = fs.readdirSync(dirPath, { withFileTypes: true });
-    
-    for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name);
-      
-      // Skip .git directory and node_modules
-      if (entry.name === '.git' || entry.name === 'node_modules' || entry.name === 'dist') {
-        continue;
+  async listFiles(): Promise<string[]> {
+    const output = await this.git.cwd(this.localPath).raw(['ls-files', '-z']);
+    return output.split('\0').filter(Boolean);
+  }
+
+  /**
+   * Finds the paths matched by the repository's ignore rules. Files are
+   * sometimes committed although they are ignored, e.g. build output added
+   * with `git add -f`, so tracked files are checked too.
+   * @param relativePaths Paths relative to the repository root
+   * @returns Promise resolving to the ignored paths
+   */
+  async getIgnoredPaths(relativePaths: string[]): Promise<Set<string>> {
+    if (relativePaths.length === 0) {
+      return new Set();
+    }
+
+    const output = await this.git
+      .cwd(this.localPath)
+      .raw(['ls-files', '-z', '--cached', '--ignored', '--exclude-standard']);
+    const ignored = new Set(output.split('\0').filter(Boolean));
+    return new Set(relativePaths.filter(relativePath => ignored.has(relativePath)));
+  }
+
+  /**
+   * Looks up git attributes of files, as set in `.gitattributes`
+   * @param relativePaths Paths relative to the repository root
+   * @param attributes The attribute names
+   * @returns Promise resolving to the attribute values per path; values are
+   * `set`, `unset` or a string, and unspecified attributes are left out
+   */
+  async getAttributes(
+    relativePaths: string[],
+    attributes: string[]
+  ): Promise<Map<string, Record<string, string>>> {
+    const values = new Map<string, Record<string, string>>();
+
+    for (const batch of batches(relativePaths, GIT_PATH_BATCH_SIZE)) {
+      const output = await this.git
+        .cwd(this.localPath)
+        .raw(['check-attr', '-z', ...attributes, '--', ...batch]);
+
+      // With -z, each result is the path, the attribute and its value, NUL-separated
+      const fields = output.split('\0');
+      for (let i = 0; i + 2 < fields.length; i += 3) {
+        const [filePath, attribute, value] = fields.slice(i, i + 3);
+        if (value === 'unspecified') {
+          continue;
+        }
+        const pathValues = values.get(filePath) || {};
+        pathValues[attribute] = value;
+        values.set(filePath, pathValues);
       }
+    }
+
+    return values;
+  }
+
+  /**
+   * Gets specific files from the repository
+   * @param relativePaths Paths relative to the repository root
+   * @returns Promise resolving to the files that exist and could be read
+   */
+  async getFilesByPath(relativePaths: string[]): Promise<GitHubFile[]> {
+    const files: GitHubFile[] = [];
+
+    for (const relativePath of relativePaths) {
+      const file = this.getFile(relativePath);
+      if (file) {
+        files.push(file);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Gets one file from the repository
+   * @param relativePath Path relative to the repository root
+   * @returns The file, or null if it does not exist or could not be read
+   */
+  getFile(relativePath: string): GitHubFile | null {
+    const filePath = path.join(this.localPath, relativePath);
+    // Symbolic links are skipped, as they may point outside the repository
+    if (!fs.existsSync(filePath) || !fs.lstatSync(filePath).isFile()) {
+      return null;
+    }
+
+    return this.readFile(filePath);
+  }
+
+  /**
+   * Gets the sizes of files in the local clone
+   * @param relativePaths Paths relative to the repository root
+   * @returns The size in bytes per path, leaving out paths that are not regular files
+   */
+  getFileSizes(relativePaths: string[]): Map<string, number> {
+    const sizes = new Map<string, number>();
+
+    for (const relativePath of relativePaths) {
+      try {
+        const stats = fs.lstatSync(path.join(this.localPath, relativePath));
+        if (stats.isFile()) {
+          sizes.set(relativePath, stats.size);
+        }
+      } catch {
+        // Missing files are reported when they cannot be read
+      }
+    }
+
+    return sizes;
+  }
+
+  /**
+   * Reads a file from the local clone and detects its language
+   * @param filePath Absolute path of the file
+   * @returns The file, or null if it could not be read
+   */
+  private readFile(filePath: string): GitHubFile | null {
+    try {
+      const relativePath = path.relative(this.localPath, filePath);
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const stats = fs.statSync(filePath);
       
-      if (entry.isDirectory()) {
-        await this.getAllFilePaths(fullPath, results);
-      } else {
-        results.push(fullPath);
+      // Determine language from the file name, extension, shebang or modeline
+      const language = this.languages.detect(relativePath, content)?.id;
+      
+      return {
+        path: relativePath,
+        content,
+        language,
+        size: stats.size
+      };
+    } catch (error) {
+      console.warn(`Skipping file ${filePath}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the commit SHA currently checked out in the local clone
+   * @returns Promise resolving to the full commit SHA
+   */
+  async getHeadCommit(): Promise<string> {
+    const sha = await this.git.cwd(this.localPath).revparse(['HEAD']);
+    return sha.trim();
+  }
+
+  /**
+   * Checks whether a commit exists in the local clone
+   * @param sha The commit SHA to look for
+   * @returns Promise resolving to true if the commit is available
+   */
+  async hasCommit(sha: string): Promise<boolean> {
+    try {
+      await this.git.cwd(this.localPath).raw(['cat-file', '-e', `${sha}^{commit}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Fetches a commit that is missing from the local clone, such as a
+   * previously indexed commit beyond the history of a shallow clone
+   * @param sha The commit SHA
+   * @returns Promise resolving to true if the commit is now available
+   */
+  async fetchCommit(sha: string): Promise<boolean> {
+    try {
+      await withCloneLock(this.clonePath, () =>
+        this.git.cwd(this.clonePath).fetch(['origin', sha, ...(this.depth ? ['--depth', '1'] : [])])
+      );
+    } catch (error) {
+      console.warn(`Could not fetch commit ${sha}:`, error);
+    }
+    return this.hasCommit(sha);
+  }
+
+  /**
+   * Lists the files changed between two commits, detecting renames
+   * @param fromSha The previously indexed commit
+   * @param toSha The commit being indexed
+   * @returns Promise resolving to the list of file changes
+   */
+  async getChangedFiles(fromSha: string, toSha: string): Promise<FileChange[]> {
+    const output = await this.git
+      .cwd(this.localPath)
+      .raw(['diff', '--name-status', '-M', '-z', '--no-color', fromSha, toSha]);
+    const changes: FileChange[] = [];
+
+    // With -z, fields are NUL-separated: status, path, and a second path for renames and copies
+    const fields = output.split('\0');
+    for (let i = 0; i < fields.length && fields[i]; ) {
+      const status = fields[i++];
+      switch (status[0]) {
+        case 'R':
+          changes.push({ status: 'renamed', previousPath: fields[i], path: fields[i + 1] });
+          i += 2;
+          break;
+        case 'C':
+          // Copies are indexed like new files
+          changes.push({ status: 'added', path: fields[i + 1] });
+          i += 2;
+          break;
+        case 'A':
+          changes.push({ status: 'added', path: fields[i++] });
+          break;
+        case 'D':
+          changes.push({ status: 'deleted', path: fields[i++] });
+          break;
+        default:
+          // Modified, type changed or unmerged
+          changes.push({ status: 'modified', path: fields[i++] });
       }
     }
-    
-    return results;
+
+    return changes;
   }
 
   /**
    * Cleans up the local repository files
+   * @param mode What to remove: nothing, the ref's worktree (the checkout of
+   * the default branch is kept), or the whole clone with all worktrees
    */
-  cleanup(): void {
+  async cleanup(mode: WorkDirCleanup = 'keep'): Promise<void> {
     try {
-      // Not deleting for safety, but could implement deletion here if needed
-      console.log(`Repository cleanup for ${this.localPath} - skipping deletion for safety`);
+      if (mode === 'worktree') {
+        await this.removeWorktree();
+      } else if (mode === 'all') {
+        await removeClone(this.clonePath);
+      }
     } catch (error) {
       console.error('Failed to clean up repository:', error);
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Removes a local clone and the worktrees of its refs
+ * @param clonePath The clone directory
+ */
+export async function removeClone(clonePath: string): Promise<void> {
+  await withCloneLock(clonePath, async () => {
+    console.log(`Removing clone ${clonePath}`);
+    fs.rmSync(`${clonePath}.worktrees`, { recursive: true, force: true });
+    fs.rmSync(clonePath, { recursive: true, force: true });
+  });
+}
+
+/**
+ * Splits items into batches
+ * @param items The items to split
+ * @param size Maximum number of items per batch
+ * @returns The batches
+ */
+function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
@@ -0,0 +1,121 @@
+/**
+ * Tracking of indexed commits for incremental re-indexing
+ */
+
+import { readJsonFile, writeJsonFile } from './json-file';
+
+/**
+ * The indexing state recorded for a repository ref
+ */
+export interface IndexedCommit {
+  /**
+   * The last commit SHA that was fully indexed
+   */
+  commit: string;
+
+  /**
+   * When the commit was indexed (ISO 8601)
+   */
+  indexedAt: string;
+
+  /**
+   * Key of the file selection options the commit was indexed with, empty or
+   * missing when there were none
+   */
+  fileSelection?: string;
+
+  /**
+   * Whether summaries were generated for the commit
+   */
+  summaries?: boolean;
+
+  /**
+   * Key of the language settings the commit was indexed with
+   */
+  languages?: string;
+}
+
+/**
+ * Stores the last indexed commit per repository and ref in a JSON file
+ */
+export class IndexStateStore {
+  private filePath: string;
+
+  /**
+   * Creates a new IndexStateStore
+   * @param filePath Path of the JSON file holding the state
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Gets the last indexed commit for a repository ref
+   * @param repositoryUrl The repository URL
+   * @param ref The branch, tag or commit, or undefined for the default branch
+   * @returns The recorded state, or undefined if the ref was never indexed
+   */
+  get(repositoryUrl: string, ref?: string): IndexedCommit | undefined {
+    return this.read()[this.key(repositoryUrl, ref)];
+  }
+
+  /**
+   * Records the last indexed commit for a repository ref
+   * @param repositoryUrl The repository URL
+   * @param ref The branch, tag or commit, or undefined for the default branch
+   * @param commit The indexed commit SHA
+   * @param fileSelection Key of the file selection options used
+   * @param summaries Whether summaries were generated
+   * @param languages Key of the language settings used
+   */
+  set(
+    repositoryUrl: string,
+    ref: string | undefined,
+    commit: string,
+    fileSelection = '',
+    summaries = false,
+    languages?: string
+  ): void {
+    const state = this.read();
+    state[this.key(repositoryUrl, ref)] = {
+      commit,
+      indexedAt: new Date().toISOString(),
+      fileSelection: fileSelection || undefined,
+      summaries: summaries || undefined,
+      languages,
+    };
+    this.write(state);
+  }
+
+  /**
+   * Forgets the indexed commit for a repository ref
+   * @param repositoryUrl The repository URL
+   * @param ref The branch, tag or commit, or undefined for the default branch
+   */
+  delete(repositoryUrl: string, ref?: string): void {
+    const state = this.read();
+    delete state[this.key(repositoryUrl, ref)];
+    this.write(state);
+  }
+
+  /**
+   * Builds the state key for a repository ref
+   */
+  private key(repositoryUrl: string, ref?: string): string {
+    return `${repositoryUrl}#${ref || 'HEAD'}`;
+  }
+
+  /**
+   * Reads the state file, treating a missing or corrupt file as empty
+   */
+  private read(): Record<string, IndexedCommit> {
+    return readJsonFile(this.filePath, {});
+  }
+
+  /**
+   * Writes the state file atomically
+   */
+  private write(state: Record<string, IndexedCommit>): void {
+    writeJsonFile(this.filePath, state);
+  }
+}
@@ -2,122 +2,906 @@
  * Main entry point for the ETL pipeline
  */
 
-import { VectorDBClient } from '@github-rag-system/db';
+import { VectorDBClient, RepositoryRegistry, repositoryId } from '@github-rag-system/db';
 import { 
   GitHubRepositoryInfo, 
   VectorDocument,
-  UseCase,
   VectorDBConfig,
-  CodeChunk
+  SearchRequest,
+  SearchResult,
+  AskRequest,
+  AskResult,
+  AskStreamEvent,
+  CodeChunk,
+  ChunkType,
+  GitHubFile,
+  EmbeddingProvider,
+  ChatProvider,
+  EmbeddingCache,
+  ChunkSplittingConfig,
+  GitCredentials,
+  CloneOptions,
+  WorkDirCleanup,
+  LanguageDefinition,
+  LanguageRegistry,
+  ProcessRepositoryOptions,
+  ProcessRepositoryResult,
+  ProcessingProgress,
+  RepositoryRecord,
+  RefSearchResult,
+  RefComparisonEntry,
+  RefComparisonResult,
+  Conversation,
+  ConversationInfo,
+  ConversationAskResult,
+  SearchFilter,
+  QueryClassifier,
+  UseCase,
+  UseCaseClassification
 } from '@github-rag-system/common';
-import { GitHubRepository } from './github-repo';
+import * as path from 'path';
+import { GitHubRepository, DEFAULT_WORK_DIR, removeClone } from './github-repo';
+import { parseRepositorySource } from './repository-source';
+import {
+  FileSelector,
+  fileSelectionKey,
+  isSelectionRuleFile,
+  toSparseCheckoutPatterns
+} from './file-selector';
+import { WorkDirManager } from './work-dir';
 import { CodeChunker } from './code-chunker';
+import { IndexStateStore } from './index-state';
+import { ContextExpander } from './context-expander';
+import { Summarizer, parentDirectory } from './summarizer';
+import { AnswerGenerator } from './answer-generator';
+import { ConversationStore, conversationHistory } from './conversations';
+import { QueryRewriter } from './query-rewriter';
+import { RuleBasedClassifier } from './use-case-classifier';
+import { StackTraceMatcher } from './stack-traces';
+
+/**
+ * Optional settings for the ETL processor
+ */
+export interface GitHubETLOptions {
+  /**
+   * Custom working directory for cloned repositories
+   */
+  workDir?: string;
+
+  /**
+   * Cache for chunk embeddings, shared across runs, branches and forks
+   */
+  embeddingCache?: EmbeddingCache;
+
+  /**
+   * Token limits per chunk type; larger chunks are split into overlapping parts
+   */
+  chunkSplitting?: ChunkSplittingConfig;
+
+  /**
+   * Credentials for cloning private repositories
+   */
+  credentials?: GitCredentials;
+
+  /**
+   * Default clone depth and sparse checkout, which requests can override
+   */
+  clone?: CloneOptions;
+
+  /**
+   * What to remove from the working directory after processing (defaults to 'keep')
+   */
+  cleanup?: WorkDirCleanup;
+
+  /**
+   * Languages to add to the built-in ones, or changes to built-in languages
+   * with the same ID
+   */
+  languages?: LanguageDefinition[];
+
+  /**
+   * Number of chunks embedded and indexed at a time (defaults to 500). Peak
+   * memory use grows with the batch size, not the repository size.
+   */
+  batchSize?: number;
+
+  /**
+   * Disk quota in bytes for cloned repositories; the least recently used
+   * clones are removed when it is exceeded
+   */
+  workDirQuota?: number;
+
+  /**
+   * Chat model used to answer questions, and to summarize files, directories
+   * and repositories when summaries are requested
+   */
+  chatProvider?: ChatProvider;
+
+  /**
+   * Path of the JSON file conversations are stored in (defaults to
+   * `conversations.json` in the working directory)
+   */
+  conversationsFile?: string;
+
+  /**
+   * Classifies queries with the use case `auto` (defaults to the rule-based classifier)
+   */
+  queryClassifier?: QueryClassifier;
+}
 
 /**
  * Main ETL processor for GitHub repositories
  */
 export class GitHubETL {
   private dbClient: VectorDBClient;
+  private registry: RepositoryRegistry;
   private workDir?: string;
+  private indexState: IndexStateStore;
+  private chunkSplitting?: ChunkSplittingConfig;
+  private credentials?: GitCredentials;
+  private cloneDefaults: CloneOptions;
+  private cleanup: WorkDirCleanup;
+  private workDirs: WorkDirManager;
+  private batchSize: number;
+  private languages: LanguageRegistry;
+  private chatProvider?: ChatProvider;
+  private answerGenerator?: AnswerGenerator;
+  private queryRewriter?: QueryRewriter;
+  private conversations: ConversationStore;
+  private queryClassifier: QueryClassifier;
+  private contextExpander: ContextExpander;
+  private stackTraceMatcher: StackTraceMatcher;
 
   /**
    * Creates a new GitHubETL processor
    * @param dbConfig Configuration for the vector database
-   * @param workDir Optional custom working directory for cloned repositories
-   */
-  constructor(dbConfig: VectorDBConfig, workDir?: string) {
-    this.dbClient = new VectorDBClient({
-      ...dbConfig,
-      openai: {
-        apiKey: process.env.OPENAI_API_KEY || '',
-        model: process.env.OPENAI_MODEL || 'text-embedding-3-small',
-      }
-    });
-    this.workDir = workDir;
+   * @param embeddingProvider Provider used to embed chunks and queries
+   * @param options Optional working directory and its lifecycle, embedding cache,
+   * chunk limits, batch size, credentials, clone defaults, languages, chat model,
+   * conversation storage and query classifier
+   */
+  constructor(dbConfig: VectorDBConfig, embeddingProvider: EmbeddingProvider, options: GitHubETLOptions = {}) {
+    this.dbClient = new VectorDBClient(dbConfig, embeddingProvider, options.embeddingCache);
+    this.registry = new RepositoryRegistry(dbConfig);
+    this.workDir = options.workDir;
+    this.chunkSplitting = options.chunkSplitting;
+    this.credentials = options.credentials;
+    this.cloneDefaults = options.clone || {};
+    this.cleanup = options.cleanup || 'keep';
+    this.batchSize = Math.max(1, options.batchSize || 500);
+    this.languages = new LanguageRegistry();
+    options.languages?.forEach(language => this.languages.register(language));
+    this.chatProvider = options.chatProvider;
+    this.answerGenerator = options.chatProvider && new AnswerGenerator(options.chatProvider);
+    this.queryRewriter = options.chatProvider && new QueryRewriter(options.chatProvider);
+    this.queryClassifier = options.queryClassifier || new RuleBasedClassifier();
+    this.workDirs = new WorkDirManager(this.workDir || DEFAULT_WORK_DIR, options.workDirQuota);
+    this.contextExpander = new ContextExpander(this.dbClient);
+    this.stackTraceMatcher = new StackTraceMatcher(this.dbClient);
+    this.indexState = new IndexStateStore(path.join(this.workDir || DEFAULT_WORK_DIR, 'index-state.json'));
+    this.conversations = new ConversationStore(
+      options.conversationsFile || path.join(this.workDir || DEFAULT_WORK_DIR, 'conversations.json')
+    );
   }
 
   /**
-   * Initialize the vector database
+   * Initialize the vector database and the repository registry
    */
   async initializeDatabase(): Promise<boolean> {
+    await this.registry.initIndex();
     return this.dbClient.initIndex();
   }
 
   /**
-   * Process a GitHub repository and store it in the vector database
-   * @param repositoryUrl URL of the GitHub repository to process
-   * @param branch Optional branch name to process (defaults to main)
-   * @returns Promise resolving to the number of indexed chunks
+   * Process a GitHub repository and store it in the vector database. Only files
+   * changed since the last indexed commit are re-processed, unless a full
+   * rebuild is requested or no usable previous commit is known.
+   * @param repositoryUrl URL of the repository to process: HTTPS, SSH, scp-like
+   * (`git@host:owner/repo.git`), a `file://` URL or a local path
+   * @param options Ref, rebuild, file selection and summary options, progress callback and abort signal
+   * @returns Promise resolving to a summary of indexed and failed chunks
    */
-  async processRepository(repositoryUrl: string, branch?: string): Promise<number> {
+  async processRepository(
+    repositoryUrl: string,
+    options: ProcessRepositoryOptions = {}
+  ): Promise<ProcessRepositoryResult> {
+    let repo: GitHubRepository | undefined;
     try {
-      console.log(`Processing repository: ${repositoryUrl}`);
+      const { signal } = options;
+      const ref = options.ref ?? options.branch;
+      if (options.summarize && !this.chatProvider) {
+        throw new Error('Summaries were requested, but no chat provider is configured');
+      }
+      // The same repository may be given as an HTTPS or SSH location, so
+      // chunks, state and registry entries are keyed by the normalized URL
+      const source = parseRepositorySource(repositoryUrl);
+      repositoryUrl = source.url;
+      console.log(`Processing repository: ${repositoryUrl}${ref ? ` at ${ref}` : ''}`);
+      const progress: ProcessingProgress = { phase: 'cloning', chunksIndexed: 0, chunksFailed: 0 };
+      const report = (update: Partial<ProcessingProgress>) => {
+        Object.assign(progress, update);
+        options.onProgress?.({ ...progress });
+      };
+      report({});
       
-      // Parse the repository URL
       const repoInfo: GitHubRepositoryInfo = {
         url: repositoryUrl,
-        owner: '',
-        name: '',
-        branch
+        owner: source.owner,
+        name: source.name,
+        ref
       };
       
+      // Only check out what the include globs select when sparse checkout is on
+      const clone = { ...this.cloneDefaults, ...options.clone };
+      const include = options.fileSelection?.include;
+      const sparse = include?.length ? clone.sparse ?? true : false;
+      
       // Create GitHub repository handler
-      const repo = new GitHubRepository(repoInfo, this.workDir);
+      repo = new GitHubRepository(repoInfo, this.workDir, {
+        source,
+        credentials: this.credentials,
+        signal,
+        depth: clone.depth,
+        sparsePatterns: sparse && include ? toSparseCheckoutPatterns(include) : undefined,
+        languages: this.languages
+      });
+      this.workDirs.acquire(repo.getClonePath());
       
       // Clone the repository
       await repo.cloneOrPull();
+      const commit = await repo.getHeadCommit();
+      signal?.throwIfAborted();
+      if (repoInfo.refType === 'branch') {
+        repoInfo.branch = ref;
+      }
       
-      // Get all files
-      const files = await repo.getFiles();
-      console.log(`Got ${files.length} files from repository`);
-      
-      // Process files into chunks
-      const chunker = new CodeChunker(repoInfo);
-      const chunks = chunker.processFiles(files);
-      console.log(`Created ${chunks.length} chunks from repository files`);
+      // Decide between an incremental and a full run
+      const selectionKey = fileSelectionKey(options.fileSelection);
+      const languagesKey = this.languages.key();
+      const previous = options.fullRebuild ? undefined : this.indexState.get(repositoryUrl, ref);
+      let canDiff = previous !== undefined &&
+        (await repo.hasCommit(previous.commit) || await repo.fetchCommit(previous.commit));
+      if (previous && !canDiff) {
+        console.warn(`Previously indexed commit ${previous.commit} not found, falling back to a full rebuild`);
+      } else if (previous && (previous.fileSelection || '') !== selectionKey) {
+        console.log('File selection options changed, falling back to a full rebuild');
+        canDiff = false;
+      } else if (previous && !!previous.summaries !== !!options.summarize) {
+        console.log('Summary options changed, falling back to a full rebuild');
+        canDiff = false;
+      } else if (previous && previous.languages !== languagesKey) {
+        // Languages decide how files are detected and chunked
+        console.log('Language settings changed, falling back to a full rebuild');
+        canDiff = false;
+      }
       
-      // Clear existing data for this repository
-      await this.dbClient.deleteByRepository(repositoryUrl);
+      // Changed ignore rules or attributes can affect files that did not change
+      const changedFiles = canDiff && previous && previous.commit !== commit
+        ? await repo.getChangedFiles(previous.commit, commit)
+        : [];
+      if (changedFiles.some(change => isSelectionRuleFile(change.path) ||
+        (change.previousPath !== undefined && isSelectionRuleFile(change.previousPath)))) {
+        console.log('File selection rules changed, falling back to a full rebuild');
+        canDiff = false;
+      }
+
+      const summary: ProcessRepositoryResult = {
+        repositoryId: repositoryId(repositoryUrl),
+        ref,
+        refType: repoInfo.refType,
+        mode: canDiff ? 'incremental' : 'full',
+        commit,
+        chunksDeleted: 0,
+        skippedFiles: [],
+        chunksIndexed: 0,
+        chunksWithoutEmbedding: [],
+        failedChunks: [],
+        embeddingCacheHits: 0,
+        embeddingCacheMisses: 0,
+        summariesGenerated: 0,
+        summariesFailed: []
+      };
+
+      const selector = new FileSelector(repo, options.fileSelection);
+      let selection;
+      if (canDiff && previous) {
+        summary.previousCommit = previous.commit;
+        summary.changedFiles = changedFiles;
+        console.log(`Found ${summary.changedFiles.length} changed files since ${previous.commit}`);
+
+        // Remove chunks of every path that was changed, deleted or renamed away
+        const stalePaths = summary.changedFiles.flatMap(change =>
+          change.previousPath ? [change.previousPath, change.path] : [change.path]
+        );
+        summary.chunksDeleted = await this.dbClient.deleteByFilePaths(repositoryUrl, ref, stalePaths);
+
+        // Re-read only the files that still exist
+        selection = await selector.select(
+          summary.changedFiles
+            .filter(change => change.status !== 'deleted')
+            .map(change => change.path)
+        );
+      } else {
+        // Clear existing data for this ref, forgetting the indexed commit
+        // first so that an interrupted rebuild is not mistaken for a complete one
+        this.indexState.delete(repositoryUrl, ref);
+        summary.chunksDeleted = await this.dbClient.deleteByRef(repositoryUrl, ref);
+        selection = await selector.select(await repo.listFiles());
+      }
+      summary.skippedFiles = selection.skipped;
+      console.log(`Selected ${selection.candidates} files from repository`);
+      signal?.throwIfAborted();
+      report({ phase: 'chunking', filesTotal: selection.candidates, filesProcessed: 0 });
       
-      // Convert chunks to vector documents
-      const documents = this.prepareDocumentsForIndexing(chunks);
+      // Stream files through the chunker into batches. A file is only read once
+      // the previous batch is indexed, so memory is bounded by the batch size
+      // rather than the repository size.
+      const chunker = new CodeChunker(repoInfo, this.chunkSplitting, this.languages);
+      const summarizer = options.summarize && this.chatProvider
+        ? new Summarizer(this.chatProvider, repoInfo)
+        : undefined;
+      let chunksTotal = 0;
+      let filesProcessed = 0;
+      let batch: VectorDocument[] = [];
+      for await (const file of selection.files) {
+        signal?.throwIfAborted();
+        const chunks = chunker.processFile(file);
+        if (summarizer) {
+          chunks.push(...await this.summarizeFile(summarizer, file, chunks, summary, signal));
+        }
+        const documents = this.prepareDocumentsForIndexing(chunks);
+        batch.push(...documents);
+        chunksTotal += documents.length;
+        filesProcessed++;
+        
+        while (batch.length >= this.batchSize) {
+          await this.indexBatch(batch.slice(0, this.batchSize), summary, report);
+          batch = batch.slice(this.batchSize);
+          report({ filesProcessed });
+        }
+      }
+      signal?.throwIfAborted();
+      await this.indexBatch(batch, summary, report);
+      report({ filesProcessed, chunksTotal });
+      console.log(`Created ${chunksTotal} chunks from ${filesProcessed} files`);
       
-      // Index documents in batches
-      const batchSize = 100;
-      let indexedCount = 0;
+      // Directory summaries build on the file summaries indexed above
+      if (summarizer) {
+        report({ phase: 'summarizing' });
+        const changedPaths = canDiff
+          ? changedFiles.flatMap(change => change.previousPath ? [change.previousPath, change.path] : [change.path])
+          : undefined;
+        await this.summarizeDirectories(summarizer, repoInfo, changedPaths, summary, report, signal);
+      }
       
-      for (let i = 0; i < documents.length; i += batchSize) {
-        const batch = documents.slice(i, i + batchSize);
-        const result = await this.dbClient.indexDocuments(batch);
-        indexedCount += result;
-        console.log(`Indexed batch of ${result} documents (${indexedCount}/${documents.length})`);
+      // Only advance the indexed commit when nothing was lost, so failed
+      // chunks and missing embeddings are retried on the next incremental run
+      if (summary.failedChunks.length === 0 && summary.chunksWithoutEmbedding.length === 0) {
+        this.indexState.set(repositoryUrl, ref, commit, selectionKey, !!options.summarize, languagesKey);
+      } else {
+        console.warn(
+          `Not recording commit ${commit} as indexed because ${summary.failedChunks.length} chunks failed ` +
+          `and ${summary.chunksWithoutEmbedding.length} chunks have no embedding`
+        );
       }
       
-      console.log(`Completed processing repository ${repositoryUrl}. Indexed ${indexedCount} documents.`);
+      await this.updateRegistry(repoInfo, commit);
       
-      // Clean up
-      repo.cleanup();
+      console.log(
+        `Completed ${summary.mode} processing of repository ${repositoryUrl}. Indexed ${summary.chunksIndexed} documents ` +
+        `(${summary.chunksWithoutEmbedding.length} without embeddings, ${summary.failedChunks.length} failed, ` +
+        `${summary.skippedFiles.length} files skipped, ` +
+        `${summary.embeddingCacheHits} embedding cache hits).`
+      );
       
-      return indexedCount;
+      return summary;
     } catch (error) {
       console.error('Failed to process repository:', error);
       throw error;
+    } finally {
+      if (repo) {
+        await this.releaseWorkDir(repo);
+      }
+    }
+  }
+  
+  /**
+   * Embeds and indexes a batch of documents and adds the outcome to the summary
+   * @param documents The documents
+   * @param summary The processing summary to update
+   * @param report Records progress
+   */
+  private async indexBatch(
+    documents: VectorDocument[],
+    summary: ProcessRepositoryResult,
+    report: (update: Partial<ProcessingProgress>) => void
+  ): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+    
+    report({ phase: 'embedding' });
+    const result = await this.dbClient.indexDocuments(documents, () => report({ phase: 'indexing' }));
+    summary.chunksIndexed += result.indexed;
+    summary.chunksWithoutEmbedding.push(...result.missingEmbeddings);
+    summary.failedChunks.push(...result.failed);
+    summary.embeddingCacheHits += result.cacheHits;
+    summary.embeddingCacheMisses += result.cacheMisses;
+    console.log(`Indexed batch of ${result.indexed} documents (${summary.chunksIndexed} so far)`);
+    report({ chunksIndexed: summary.chunksIndexed, chunksFailed: summary.failedChunks.length });
+  }
+  
+  /**
+   * Summarizes a file, linking the summary to the file-level chunk. A failed
+   * summary is recorded and does not fail the run.
+   * @param summarizer The summarizer
+   * @param file The file
+   * @param chunks The chunks of the file
+   * @param summary The processing summary to update
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to the summary chunk, or nothing if it failed
+   */
+  private async summarizeFile(
+    summarizer: Summarizer,
+    file: GitHubFile,
+    chunks: CodeChunk[],
+    summary: ProcessRepositoryResult,
+    signal?: AbortSignal
+  ): Promise<CodeChunk[]> {
+    const fileChunk = chunks.find(chunk => chunk.type === ChunkType.FILE);
+    if (!fileChunk) {
+      return [];
+    }
+    
+    try {
+      const summaryChunk = await summarizer.summarizeFile(file, fileChunk.id, signal);
+      fileChunk.metadata.childIds = [...(fileChunk.metadata.childIds || []), summaryChunk.id];
+      summary.summariesGenerated++;
+      return [summaryChunk];
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn(`Failed to summarize ${file.path}:`, error);
+      summary.summariesFailed.push(file.path);
+      return [];
+    }
+  }
+  
+  /**
+   * Summarizes directories and the repository from the summaries of their
+   * contents, deepest directories first. Incremental runs only summarize the
+   * directories containing changed files again.
+   * @param summarizer The summarizer
+   * @param repoInfo The repository and ref
+   * @param changedPaths Paths changed since the previous run, or undefined to summarize all directories
+   * @param summary The processing summary to update
+   * @param report Records progress
+   * @param signal Cancels processing when aborted
+   */
+  private async summarizeDirectories(
+    summarizer: Summarizer,
+    repoInfo: GitHubRepositoryInfo,
+    changedPaths: string[] | undefined,
+    summary: ProcessRepositoryResult,
+    report: (update: Partial<ProcessingProgress>) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const existing = await this.dbClient.getChunksByType(repoInfo.url, repoInfo.ref, ChunkType.SUMMARY);
+    const fileSummaries = existing.filter(chunk => chunk.metadata.summaryScope === 'file');
+    const directorySummaries = new Map(existing
+      .filter(chunk => chunk.metadata.summaryScope !== 'file')
+      .map(chunk => [chunk.metadata.filePath, chunk]));
+    
+    // Directories whose contents changed, with all their ancestors
+    const affected = new Set<string>(['']);
+    for (const filePath of changedPaths ?? fileSummaries.map(chunk => chunk.metadata.filePath)) {
+      for (let dir = parentDirectory(filePath); dir; dir = parentDirectory(dir)) {
+        affected.add(dir);
+      }
+    }
+    
+    // Stale summaries are replaced, or removed along with their directory
+    const stale = [...affected].filter(dir => directorySummaries.has(dir));
+    summary.chunksDeleted += await this.dbClient.deleteByFilePaths(repoInfo.url, repoInfo.ref, stale);
+    stale.forEach(dir => directorySummaries.delete(dir));
+    
+    const depth = (dir: string) => dir ? dir.split('/').length : 0;
+    const documents: VectorDocument[] = [];
+    for (const dir of [...affected].sort((a, b) => depth(b) - depth(a))) {
+      signal?.throwIfAborted();
+      const isChild = (chunk: CodeChunk) =>
+        chunk.metadata.filePath !== '' && parentDirectory(chunk.metadata.filePath) === dir;
+      const children = [...fileSummaries, ...directorySummaries.values()]
+        .filter(isChild)
+        .sort((a, b) => a.metadata.filePath.localeCompare(b.metadata.filePath));
+      if (children.length === 0) {
+        continue;
+      }
+      
+      try {
+        const chunk = await summarizer.summarizeDirectory(dir, children, signal);
+        directorySummaries.set(dir, chunk);
+        documents.push(...this.prepareDocumentsForIndexing([chunk]));
+        summary.summariesGenerated++;
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn(`Failed to summarize ${dir || 'the repository'}:`, error);
+        summary.summariesFailed.push(dir);
+      }
+    }
+    
+    for (let start = 0; start < documents.length; start += this.batchSize) {
+      await this.indexBatch(documents.slice(start, start + this.batchSize), summary, report);
     }
+    console.log(`Generated ${summary.summariesGenerated} summaries (${summary.summariesFailed.length} failed)`);
+  }
+  
+  /**
+   * Cleans up after processing a repository ref according to the cleanup
+   * mode, and keeps the working directory within its quota
+   * @param repo The processed repository
+   */
+  private async releaseWorkDir(repo: GitHubRepository): Promise<void> {
+    const clonePath = repo.getClonePath();
+    const inUse = this.workDirs.release(clonePath);
+    
+    // Other refs of the repository are still being processed in the clone
+    await repo.cleanup(inUse && this.cleanup === 'all' ? 'worktree' : this.cleanup);
+    if (this.cleanup === 'all' && !inUse) {
+      this.workDirs.forget(clonePath);
+    }
+    
+    try {
+      await this.workDirs.enforceQuota();
+    } catch (error) {
+      console.warn('Failed to enforce the working directory quota:', error);
+    }
+  }
+  
+  /**
+   * Records the indexed commit and current contents of a repository ref in the registry
+   * @param repoInfo The repository and ref
+   * @param commit The indexed commit
+   */
+  private async updateRegistry(repoInfo: GitHubRepositoryInfo, commit: string): Promise<void> {
+    try {
+      const stats = await this.dbClient.getRepositoryStats(repoInfo.url, repoInfo.ref);
+      await this.registry.recordRef(repoInfo, { commit, ...stats });
+    } catch (error) {
+      // The chunks are indexed either way, so do not fail the run
+      console.warn(`Failed to update repository registry for ${repoInfo.url}:`, error);
+    }
+  }
+  
+  /**
+   * List all indexed repositories
+   * @returns Promise resolving to the registered repositories
+   */
+  async listRepositories(): Promise<RepositoryRecord[]> {
+    return this.registry.list();
+  }
+  
+  /**
+   * Get an indexed repository
+   * @param id The repository ID
+   * @returns Promise resolving to the repository, or null if it is not registered
+   */
+  async getRepository(id: string): Promise<RepositoryRecord | null> {
+    return this.registry.get(id);
+  }
+  
+  /**
+   * Remove a repository, or one of its refs: the chunks, the registry entry,
+   * the indexing state and the ref's worktree, or the whole clone when all
+   * refs are removed
+   * @param id The repository ID
+   * @param ref Only remove this branch, tag or commit; `null` removes the
+   * default branch, and undefined removes all refs
+   * @returns Promise resolving to the number of deleted chunks, or null if the
+   * repository or ref is not registered
+   */
+  async deleteRepository(id: string, ref?: string | null): Promise<number | null> {
+    const repository = await this.registry.get(id);
+    if (!repository) {
+      return null;
+    }
+
+    const refs = ref === undefined
+      ? repository.refs
+      : repository.refs.filter(record => record.ref === (ref ?? undefined));
+    if (refs.length === 0) {
+      return null;
+    }
+
+    const chunksDeleted = ref === undefined
+      ? await this.dbClient.deleteByRepository(repository.url)
+      : await this.dbClient.deleteByRef(repository.url, ref ?? undefined);
+
+    for (const record of refs) {
+      this.indexState.delete(repository.url, record.ref);
+      const repo = new GitHubRepository(
+        { url: repository.url, owner: repository.owner, name: repository.name, ref: record.ref },
+        this.workDir
+      );
+      await repo.removeWorktree();
+    }
+
+    if (ref === undefined) {
+      const clonePath = new GitHubRepository(
+        { url: repository.url, owner: repository.owner, name: repository.name },
+        this.workDir
+      ).getClonePath();
+      await removeClone(clonePath);
+      this.workDirs.forget(clonePath);
+      await this.registry.delete(id);
+    } else {
+      await this.registry.removeRef(id, ref ?? undefined);
+    }
+
+    console.log(
+      `Deleted ${ref === undefined ? 'repository' : `ref ${ref ?? '(default branch)'} of`} ${repository.url} ` +
+      `(${chunksDeleted} chunks)`
+    );
+    return chunksDeleted;
   }
   
   /**
    * Search for relevant code chunks in the vector database
-   * @param query The search query
-   * @param useCase The use case for this search
-   * @param limit Maximum number of results
+   * @param request The search parameters and context expansion options; with
+   * the use case `auto`, the query is classified first and the chunks of the
+   * use cases it was classified into are searched. For bug fixing, chunks
+   * pointed to by a stack trace in the query are put first.
+   * @param signal Cancels the classification and retrieval when aborted
    * @returns Promise resolving to search results
    */
-  async search(query: string, useCase: UseCase, limit = 10) {
-    return this.dbClient.search({
+  async search(request: SearchRequest, signal?: AbortSignal): Promise<SearchResult> {
+    const { expandContext, useCase, ...params } = request;
+    const classification = useCase === 'auto' ? await this.classifyQuery(params.query, signal) : undefined;
+    const useCases = classification ? classification.useCases : useCase as UseCase | UseCase[];
+    const searchParams = { ...params, useCase: useCases, limit: params.limit ?? 10 };
+    const result = await this.dbClient.search(searchParams, signal);
+
+    if ([useCases].flat().includes(UseCase.BUG_FIXING)) {
+      await this.stackTraceMatcher.apply(searchParams, result, signal);
+    }
+
+    if (expandContext) {
+      result.contexts = await this.contextExpander.expand(result.chunks, expandContext);
+    }
+    if (classification) {
+      result.classification = classification;
+    }
+
+    return result;
+  }
+
+  /**
+   * Classify a query into the use cases it is about
+   * @param query The query text
+   * @param signal Cancels the classification when aborted
+   * @returns Promise resolving to the most likely use case, the use cases to
+   * search and the confidence
+   */
+  async classifyQuery(query: string, signal?: AbortSignal): Promise<UseCaseClassification> {
+    return this.queryClassifier.classify(query, signal);
+  }
+  
+  /**
+   * Answer a question from the code retrieved for it
+   * @param request The question, the search parameters used to retrieve code
+   * for it and generation limits
+   * @param signal Cancels generation when aborted
+   * @returns Promise resolving to the answer and the sources it cites
+   */
+  async ask(request: AskRequest, signal?: AbortSignal): Promise<AskResult> {
+    if (!this.answerGenerator) {
+      throw new Error('Answer generation requires a chat provider');
+    }
+    
+    const { maxContextTokens, maxAnswerTokens, ...searchRequest } = request;
+    const result = await this.search(searchRequest, signal);
+    signal?.throwIfAborted();
+    return this.answerGenerator.generate(request, result, signal);
+  }
+
+  /**
+   * Answer a question from the code retrieved for it, yielding the sources as
+   * soon as they are retrieved and the answer as it is generated
+   * @param request The question, the search parameters used to retrieve code
+   * for it and generation limits
+   * @param signal Cancels generation when aborted
+   * @returns Async iterator over the citations, answer fragments and final answer
+   */
+  async *askStream(request: AskRequest, signal?: AbortSignal): AsyncGenerator<AskStreamEvent> {
+    if (!this.answerGenerator) {
+      throw new Error('Answer generation requires a chat provider');
+    }
+
+    const { maxContextTokens, maxAnswerTokens, ...searchRequest } = request;
+    const result = await this.search(searchRequest, signal);
+    signal?.throwIfAborted();
+    yield* this.answerGenerator.stream(request, result, signal);
+  }
+  
+  /**
+   * Start a conversation about a set of repositories
+   * @param repositories URLs of the indexed repositories code is retrieved from
+   * @param title Optional title; defaults to the first question
+   * @returns The new conversation
+   */
+  createConversation(repositories: string[], title?: string): Conversation {
+    return this.conversations.create(repositories, title);
+  }
+
+  /**
+   * List conversations, most recently active first
+   * @returns The conversations without their questions and answers
+   */
+  listConversations(): ConversationInfo[] {
+    return this.conversations.list();
+  }
+
+  /**
+   * Get a conversation with its questions and answers
+   * @param id The conversation ID
+   * @returns The conversation, or undefined if it does not exist
+   */
+  getConversation(id: string): Conversation | undefined {
+    return this.conversations.get(id);
+  }
+
+  /**
+   * Delete a conversation
+   * @param id The conversation ID
+   * @returns Whether the conversation existed
+   */
+  deleteConversation(id: string): boolean {
+    return this.conversations.delete(id);
+  }
+
+  /**
+   * Answer a question in a conversation. Follow-up questions are rewritten into
+   * standalone queries for retrieval, the chunks cited in the previous answer
+   * are offered to the model again, and the model sees the recent questions
+   * and answers.
+   * @param id The conversation ID
+   * @param request The question, the search parameters used to retrieve code
+   * for it and generation limits; filters are combined with the conversation's repositories
+   * @param signal Cancels rewriting and generation when aborted
+   * @returns Promise resolving to the answer, its sources and the query used for retrieval
+   */
+  async askInConversation(id: string, request: AskRequest, signal?: AbortSignal): Promise<ConversationAskResult> {
+    if (!this.answerGenerator || !this.queryRewriter) {
+      throw new Error('Answer generation requires a chat provider');
+    }
+
+    const conversation = this.conversations.get(id);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${id}`);
+    }
+
+    const query = await this.queryRewriter.rewrite(conversation.turns, request.query, signal);
+    signal?.throwIfAborted();
+
+    const { maxContextTokens, maxAnswerTokens, ...searchRequest } = request;
+    const scope: SearchFilter = { repository: conversation.repositories };
+    const filters: SearchFilter = request.filters ? { and: [scope, request.filters] } : scope;
+    const result = await this.search({ ...searchRequest, query, filters }, signal);
+    await this.addPreviousSources(conversation, result, filters);
+    signal?.throwIfAborted();
+
+    const answer = await this.answerGenerator.generate(request, result, signal, conversationHistory(conversation));
+    this.conversations.addTurn(id, {
+      question: request.query,
       query,
-      useCase,
-      limit
+      answer: answer.answer,
+      citations: answer.citations,
+      useCase: answer.useCase,
+      askedAt: new Date().toISOString(),
     });
+
+    return { ...answer, conversationId: id, query };
+  }
+
+  /**
+   * Appends the chunks cited in the previous answer of a conversation to the
+   * results for a follow-up, after the new hits and with their earlier
+   * scores. When the previous answer cited nothing, all its sources are used.
+   * Chunks that have since been re-indexed away, or that the follow-up's
+   * filters exclude, are skipped.
+   * @param conversation The conversation
+   * @param result The results for the follow-up, extended in place
+   * @param filters The filters of the follow-up, including the conversation's repositories
+   */
+  private async addPreviousSources(
+    conversation: Conversation,
+    result: SearchResult,
+    filters: SearchFilter
+  ): Promise<void> {
+    const previous = conversation.turns[conversation.turns.length - 1];
+    if (!previous) {
+      return;
+    }
+
+    const cited = previous.citations.filter(citation => citation.cited);
+    const sources = (cited.length > 0 ? cited : previous.citations)
+      .filter(citation => !result.chunks.some(chunk => chunk.id === citation.chunkId));
+    const chunks = await this.dbClient.getChunks(sources.map(citation => citation.chunkId), filters);
+
+    for (const citation of sources) {
+      const chunk = chunks.get(citation.chunkId);
+      if (chunk) {
+        result.chunks.push(chunk);
+        result.scores.push(citation.score);
+      }
+    }
+  }
+
+  /**
+   * Run the same search against several refs and line up the results by code location
+   * @param request The search parameters; a ref filter is added for each ref
+   * @param refs The branches, tags or commits to compare, with an empty ref for the default branch
+   * @param signal Cancels the classification and searches when aborted
+   * @returns Promise resolving to the results per ref and the matched locations
+   */
+  async compareRefs(request: SearchRequest, refs: string[], signal?: AbortSignal): Promise<RefComparisonResult> {
+    // Classify once so that all refs are searched for the same use cases
+    const classification = request.useCase === 'auto' ? await this.classifyQuery(request.query, signal) : undefined;
+    const results: RefSearchResult[] = await Promise.all(refs.map(async ref => ({
+      ref,
+      ...await this.search({
+        ...request,
+        useCase: classification ? classification.useCases : request.useCase,
+        filters: request.filters ? { and: [request.filters, { ref }] } : { ref },
+      }, signal),
+    })));
+
+    const entries = new Map<string, RefComparisonEntry>();
+    for (const result of results) {
+      result.chunks.forEach((chunk, i) => {
+        const key = [chunk.metadata.filePath, chunk.type, chunk.metadata.symbolName || ''].join('\0');
+        let entry = entries.get(key);
+        if (!entry) {
+          entry = {
+            filePath: chunk.metadata.filePath,
+            symbolName: chunk.metadata.symbolName,
+            type: chunk.type,
+            refs: {},
+            changed: false,
+          };
+          entries.set(key, entry);
+        }
+
+        // Keep the best-scoring chunk per ref
+        if (!entry.refs[result.ref]) {
+          entry.refs[result.ref] = {
+            chunkId: chunk.id,
+            score: result.scores[i],
+            contentHash: chunk.metadata.contentHash,
+          };
+        }
+      });
+    }
+
+    for (const entry of entries.values()) {
+      entry.changed = new Set(Object.values(entry.refs).map(match => match.contentHash)).size > 1;
+    }
+
+    const bestScore = (entry: RefComparisonEntry) =>
+      Math.max(...Object.values(entry.refs).map(match => match.score));
+    return {
+      results,
+      entries: [...entries.values()].sort((a, b) => bestScore(b) - bestScore(a)),
+      classification,
+    };
+  }
+  
+  /**
+   * Get a single chunk by its stable ID
+   * @param id The chunk ID, as returned in search results
+   * @returns Promise resolving to the chunk, or null if it does not exist
+   */
+  async getChunk(id: string): Promise<CodeChunk | null> {
+    return this.dbClient.getChunk(id);
   }
   
   /**
@@ -140,4 +924,18 @@ export class GitHubETL {
 
 // Export the ETL components
 export * from './github-repo';
-export * from './code-chunker';
\ No newline at end of file
+export * from './repository-source';
+export * from './file-selector';
+export * from './work-dir';
+export * from './code-chunker';
+export * from './index-state';
+export * from './json-file';
+export * from './chunk-splitter';
+export * from './tokenizers';
+export * from './context-expander';
+export * from './summarizer';
+export * from './answer-generator';
+export * from './conversations';
+export * from './query-rewriter';
+export * from './use-case-classifier';
+export * from './stack-traces';
\ No newline at end of file
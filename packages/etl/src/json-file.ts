@@ -0,0 +1,39 @@
+/**
+ * Small JSON files used to persist state between runs
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Reads a JSON file, treating a missing or corrupt file as empty
+ * @param filePath Path of the file
+ * @param empty The value to use when the file cannot be read
+ * @returns The parsed content, or `empty`
+ */
+export function readJsonFile<T>(filePath: string, empty: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Writes a JSON file atomically. Each write goes through its own temporary
+ * file, so concurrent writers never rename each other's partial output.
+ * @param filePath Path of the file, whose directory is created if needed
+ * @param value The value to write
+ */
+export function writeJsonFile(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, JSON.stringify(value, null, 2));
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
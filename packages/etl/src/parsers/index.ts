@@ -0,0 +1,23 @@
+/**
+ * Language parsers for code-level chunking
+ */
+
+import { GitHubFile } from '@github-rag-system/common';
+import { CodeSymbol, extractSymbolsHeuristically } from './symbols';
+import { extractSymbolsWithTreeSitter } from './tree-sitter';
+
+/**
+ * Extracts classes, functions and methods from a file, using tree-sitter where
+ * a grammar is available and line-based heuristics otherwise
+ * @param file The file to scan
+ * @returns Array of symbols ordered by start line
+ */
+export function extractSymbols(file: GitHubFile): CodeSymbol[] {
+  return extractSymbolsWithTreeSitter(file) ?? extractSymbolsHeuristically(file);
+}
+
+export * from './symbols';
+export * from './tree-sitter';
+export * from './markdown';
+export * from './structured';
+export * from './notebook';
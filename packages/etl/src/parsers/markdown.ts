@@ -0,0 +1,145 @@
+/**
+ * Heading-based sectioning of Markdown documents
+ */
+
+/**
+ * The text under one heading of a Markdown document, up to the next heading
+ */
+export interface MarkdownSection {
+  /**
+   * The heading text, empty for text before the first heading
+   */
+  title: string;
+
+  /**
+   * The heading level (1-6), 0 for text before the first heading
+   */
+  level: number;
+
+  /**
+   * Titles of the enclosing headings and this one, outermost first
+   */
+  headingPath: string[];
+
+  /**
+   * First line of the section, the heading itself (1-based)
+   */
+  startLine: number;
+
+  /**
+   * Last line of the section (1-based, inclusive)
+   */
+  endLine: number;
+}
+
+/**
+ * ATX headings such as `## Usage`, with optional closing hashes
+ */
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * Setext underlines, `===` for level 1 and `---` for level 2
+ */
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+
+/**
+ * Opening and closing lines of fenced code blocks
+ */
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Splits a Markdown document into sections at its headings. Headings inside
+ * fenced code blocks and front matter are ignored.
+ * @param content The document
+ * @returns The sections in document order; text before the first heading
+ * forms a section of level 0 if it is not blank
+ */
+export function extractMarkdownSections(content: string): MarkdownSection[] {
+  const lines = content.split('\n');
+  const headings: { title: string; level: number; line: number }[] = [];
+  let fence: string | null = null;
+  let start = 0;
+
+  // YAML front matter is metadata, not part of any section
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (end > 0) {
+      start = end + 1;
+    }
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = FENCE.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const atx = ATX_HEADING.exec(line);
+    if (atx) {
+      headings.push({ title: (atx[2] || '').trim(), level: atx[1].length, line: i });
+      continue;
+    }
+
+    // A setext underline only makes a heading of a preceding paragraph line
+    const setext = SETEXT_UNDERLINE.exec(line);
+    const previous = lines[i - 1];
+    if (setext && i > start && previous.trim() && !ATX_HEADING.test(previous) && !/^\s{4,}/.test(previous)
+        && headings[headings.length - 1]?.line !== i - 1) {
+      headings.push({ title: previous.trim(), level: setext[1][0] === '=' ? 1 : 2, line: i - 1 });
+    }
+  }
+
+  const sections: MarkdownSection[] = [];
+  const firstHeading = headings.length > 0 ? headings[0].line : lines.length;
+  if (lines.slice(start, firstHeading).some(line => line.trim())) {
+    sections.push({
+      title: '',
+      level: 0,
+      headingPath: [],
+      startLine: start + 1,
+      endLine: trimTrailingBlankLines(lines, start, firstHeading),
+    });
+  }
+
+  const path: { title: string; level: number }[] = [];
+  headings.forEach((heading, i) => {
+    while (path.length > 0 && path[path.length - 1].level >= heading.level) {
+      path.pop();
+    }
+    path.push(heading);
+
+    const end = i + 1 < headings.length ? headings[i + 1].line : lines.length;
+    sections.push({
+      title: heading.title,
+      level: heading.level,
+      headingPath: path.map(entry => entry.title),
+      startLine: heading.line + 1,
+      endLine: trimTrailingBlankLines(lines, heading.line, end),
+    });
+  });
+
+  return sections;
+}
+
+/**
+ * Finds the last non-blank line of a range
+ * @param lines All lines
+ * @param start First line of the range (0-based)
+ * @param end End of the range (0-based, exclusive)
+ * @returns The last non-blank line (1-based), at least the first line
+ */
+function trimTrailingBlankLines(lines: string[], start: number, end: number): number {
+  let last = end;
+  while (last > start + 1 && !lines[last - 1].trim()) {
+    last--;
+  }
+  return last;
+}
@@ -0,0 +1,97 @@
+/**
+ * Cell extraction from Jupyter notebooks
+ */
+
+/**
+ * A code or markdown cell of a notebook
+ */
+export interface NotebookCell {
+  /**
+   * Position of the cell in the notebook (0-based)
+   */
+  index: number;
+
+  /**
+   * Whether the cell holds code or markdown
+   */
+  cellType: 'code' | 'markdown';
+
+  /**
+   * The cell source; outputs are not included
+   */
+  source: string;
+}
+
+/**
+ * The cells of a notebook and the language of its code cells
+ */
+export interface Notebook {
+  /**
+   * The non-empty code and markdown cells in notebook order
+   */
+  cells: NotebookCell[];
+
+  /**
+   * The language of the code cells, from the kernel metadata
+   */
+  language?: string;
+}
+
+/**
+ * Parses a Jupyter notebook (nbformat 4)
+ * @param content The `.ipynb` file content
+ * @returns The notebook, or undefined if the content is not a notebook
+ */
+export function parseNotebook(content: string): Notebook | undefined {
+  let notebook: unknown;
+  try {
+    notebook = JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+  if (!isPlainObject(notebook) || !Array.isArray(notebook.cells)) {
+    return undefined;
+  }
+
+  const cells: NotebookCell[] = [];
+  notebook.cells.forEach((cell: unknown, index: number) => {
+    if (!isPlainObject(cell) || (cell.cell_type !== 'code' && cell.cell_type !== 'markdown')) {
+      return;
+    }
+    // Sources are stored as a string or as a list of lines that keep their newlines
+    const source = Array.isArray(cell.source)
+      ? cell.source.filter((line): line is string => typeof line === 'string').join('')
+      : typeof cell.source === 'string' ? cell.source : '';
+    if (source.trim()) {
+      cells.push({ index, cellType: cell.cell_type, source });
+    }
+  });
+
+  const metadata = isPlainObject(notebook.metadata) ? notebook.metadata : {};
+  const languageInfo = isPlainObject(metadata.language_info) ? metadata.language_info : {};
+  const kernelspec = isPlainObject(metadata.kernelspec) ? metadata.kernelspec : {};
+  const language = languageInfo.name ?? kernelspec.language;
+  return { cells, language: typeof language === 'string' ? language.toLowerCase() : undefined };
+}
+
+/**
+ * Renders the cells of a notebook as Markdown, with code cells fenced
+ * @param notebook The parsed notebook
+ * @returns The text of all cells without outputs or metadata
+ */
+export function renderNotebook(notebook: Notebook): string {
+  return notebook.cells
+    .map(cell => cell.cellType === 'code'
+      ? `\`\`\`${notebook.language || ''}\n${cell.source.replace(/\n$/, '')}\n\`\`\``
+      : cell.source.replace(/\n$/, ''))
+    .join('\n\n');
+}
+
+/**
+ * Checks whether a value is a non-array object
+ * @param value The value to check
+ * @returns True if the value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
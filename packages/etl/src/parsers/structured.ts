@@ -0,0 +1,219 @@
+/**
+ * Top-level entries of JSON, YAML and TOML configuration files
+ */
+
+/**
+ * A top-level key of a configuration file and the lines of its value
+ */
+export interface ConfigEntry {
+  /**
+   * The key, or the table name for TOML tables
+   */
+  key: string;
+
+  /**
+   * First line of the entry (1-based)
+   */
+  startLine: number;
+
+  /**
+   * Last line of the entry (1-based, inclusive)
+   */
+  endLine: number;
+}
+
+/**
+ * YAML keys at the start of a line, e.g. `services:` or `"on":`
+ */
+const YAML_KEY = /^("(?:[^"\\]|\\.)*"|'[^']*'|[^\s#'"\-?:,[\]{}&*!|>%@`][^:#]*?)\s*:(?:\s|$)/;
+
+/**
+ * TOML table headers, e.g. `[package]` or `[[bin]]`
+ */
+const TOML_TABLE = /^\[\[?\s*([^\]]+?)\s*\]\]?\s*(?:#.*)?$/;
+
+/**
+ * TOML keys at the start of a line, e.g. `name = "demo"`
+ */
+const TOML_KEY = /^("(?:[^"\\]|\\.)*"|'[^']*'|[A-Za-z0-9_.-]+)\s*=/;
+
+/**
+ * Extracts the top-level entries of a configuration file
+ * @param content The file content
+ * @param language The language of the file: `json`, `yaml` or `toml`
+ * @returns The entries in file order, empty if the file has no top-level keys
+ * that could be told apart by line
+ */
+export function extractConfigEntries(content: string, language: string): ConfigEntry[] {
+  const lines = content.split('\n');
+  let starts: { key: string; line: number }[];
+  let end = lines.length;
+
+  if (language === 'json') {
+    const scanned = scanJsonKeys(content);
+    starts = scanned.keys;
+    end = scanned.end;
+  } else if (language === 'yaml') {
+    starts = findYamlKeys(lines);
+  } else if (language === 'toml') {
+    starts = findTomlKeys(lines);
+  } else {
+    return [];
+  }
+
+  // Keys sharing a line, as in minified JSON, cannot be separated by line
+  if (starts.length < 2 || starts.some((start, i) => i > 0 && start.line === starts[i - 1].line)) {
+    return [];
+  }
+
+  return starts.map((start, i) => {
+    let last = i + 1 < starts.length ? starts[i + 1].line : end;
+    while (last > start.line + 1 && !isContentLine(lines[last - 1])) {
+      last--;
+    }
+    return { key: start.key, startLine: start.line + 1, endLine: last };
+  });
+}
+
+/**
+ * Finds the keys of the root object of a JSON (or JSONC) document
+ * @param content The document
+ * @returns The keys with their lines (0-based), and the line of the root
+ * object's closing brace
+ */
+function scanJsonKeys(content: string): { keys: { key: string; line: number }[]; end: number } {
+  const keys: { key: string; line: number }[] = [];
+  let depth = 0;
+  let line = 0;
+  let rootIsObject: boolean | null = null;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') {
+      line++;
+    } else if (char === '"') {
+      // Read the whole string, then check whether a colon makes it a key
+      let j = i + 1;
+      while (j < content.length && content[j] !== '"') {
+        j += content[j] === '\\' ? 2 : 1;
+      }
+      const text = content.slice(i + 1, j);
+      let k = j + 1;
+      while (k < content.length && /\s/.test(content[k]) && content[k] !== '\n') {
+        k++;
+      }
+      if (depth === 1 && rootIsObject && content[k] === ':') {
+        keys.push({ key: safeJsonString(text), line });
+      }
+      i = j;
+    } else if (char === '/' && content[i + 1] === '/') {
+      while (i + 1 < content.length && content[i + 1] !== '\n') {
+        i++;
+      }
+    } else if (char === '/' && content[i + 1] === '*') {
+      const close = content.indexOf('*/', i + 2);
+      const comment = content.slice(i, close < 0 ? content.length : close + 2);
+      line += comment.split('\n').length - 1;
+      i += comment.length - 1;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) {
+        rootIsObject = char === '{';
+      }
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        return { keys, end: line };
+      }
+    }
+  }
+
+  return { keys, end: line + 1 };
+}
+
+/**
+ * Finds the top-level mapping keys of a YAML document
+ * @param lines The document lines
+ * @returns The keys with their lines (0-based)
+ */
+function findYamlKeys(lines: string[]): { key: string; line: number }[] {
+  // Nested keys and block scalar contents are indented, so only unindented keys match
+  return lines.flatMap((line, i) => {
+    const match = YAML_KEY.exec(line);
+    return match ? [{ key: unquote(match[1].trim()), line: i }] : [];
+  });
+}
+
+/**
+ * Finds the root keys and tables of a TOML document
+ * @param lines The document lines
+ * @returns The keys and table names with their lines (0-based)
+ */
+function findTomlKeys(lines: string[]): { key: string; line: number }[] {
+  const keys: { key: string; line: number }[] = [];
+  let inTable = false;
+  let multilineString: string | null = null;
+
+  lines.forEach((line, i) => {
+    if (multilineString) {
+      if (line.includes(multilineString)) {
+        multilineString = null;
+      }
+      return;
+    }
+
+    const table = TOML_TABLE.exec(line);
+    if (table) {
+      keys.push({ key: table[1], line: i });
+      inTable = true;
+    } else if (!inTable) {
+      const key = TOML_KEY.exec(line);
+      if (key) {
+        keys.push({ key: unquote(key[1]), line: i });
+      }
+    }
+
+    // Only an odd number of delimiters on a line opens a multi-line string
+    const delimiter = ['"""', "'''"].find(quote => line.split(quote).length % 2 === 0);
+    if (delimiter) {
+      multilineString = delimiter;
+    }
+  });
+
+  return keys;
+}
+
+/**
+ * Checks whether a line holds more than whitespace or a comment
+ * @param line The line
+ * @returns True if the line has content
+ */
+function isContentLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed !== '' && !trimmed.startsWith('#') && !trimmed.startsWith('//') && trimmed !== '---';
+}
+
+/**
+ * Decodes the escapes of a JSON string, keeping the raw text if it is invalid
+ * @param text The string without quotes
+ * @returns The decoded string
+ */
+function safeJsonString(text: string): string {
+  try {
+    return JSON.parse(`"${text}"`);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Removes the quotes around a YAML or TOML key
+ * @param key The key as written
+ * @returns The key without quotes
+ */
+function unquote(key: string): string {
+  if (key.startsWith('"')) {
+    return safeJsonString(key.slice(1, -1));
+  }
+  return key.startsWith("'") ? key.slice(1, -1) : key;
+}
@@ -0,0 +1,79 @@
+/**
+ * Code symbol extraction shared by the language parsers
+ */
+
+import { GitHubFile } from '@github-rag-system/common';
+
+/**
+ * A class, function or method found in a source file
+ */
+export interface CodeSymbol {
+  /**
+   * The name of the symbol
+   */
+  name: string;
+
+  /**
+   * Whether the symbol is a class-like type or a function-like member
+   */
+  kind: 'class' | 'function';
+
+  /**
+   * First line of the symbol, including decorators and export keywords (1-based)
+   */
+  startLine: number;
+
+  /**
+   * Last line of the symbol (1-based, inclusive)
+   */
+  endLine: number;
+
+  /**
+   * Name of the enclosing class, for methods
+   */
+  parentName?: string;
+}
+
+/**
+ * Extracts symbols using line-based pattern matching. This is only a rough
+ * approximation and is used for languages without a parser.
+ * @param file The file to scan
+ * @returns Array of symbols
+ */
+export function extractSymbolsHeuristically(file: GitHubFile): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  const lines = file.content.split('\n');
+  let current: CodeSymbol | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Very basic function detection (this is an oversimplification)
+    const functionMatch = line.match(/(?:function|def|public|private|protected)?\s*(\w+)\s*\([^)]*\)\s*(?::\s*\w+)?\s*{?/);
+    const classMatch = line.match(/(?:class|interface)\s+(\w+)(?:\s+extends|\s+implements|\s*{)?/);
+
+    if (current) {
+      // Check for end of function/class
+      if ((current.kind === 'class' && line.trim() === '}') ||
+          (current.kind === 'function' && line.match(/^\s*}\s*$/))) {
+        current.endLine = i + 1;
+        symbols.push(current);
+        current = null;
+      }
+    } else if (classMatch) {
+      // Start of a new class
+      current = { name: classMatch[1], kind: 'class', startLine: i + 1, endLine: -1 };
+    } else if (functionMatch) {
+      // Start of a new function
+      current = { name: functionMatch[1], kind: 'function', startLine: i + 1, endLine: -1 };
+    }
+  }
+
+  // Handle case where the function/class extends to the end of file
+  if (current) {
+    current.endLine = lines.length;
+    symbols.push(current);
+  }
+
+  return symbols;
+}
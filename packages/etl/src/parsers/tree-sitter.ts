@@ -0,0 +1,302 @@
+/**
+ * Tree-sitter based symbol extraction
+ */
+
+import * as path from 'path';
+import type Parser from 'tree-sitter';
+import { GitHubFile } from '@github-rag-system/common';
+import { CodeSymbol } from './symbols';
+
+/**
+ * Describes how symbols are represented in a tree-sitter grammar
+ */
+interface GrammarSpec {
+  /**
+   * Loads the tree-sitter language object
+   */
+  load: () => unknown;
+
+  /**
+   * Node types for classes and other type declarations
+   */
+  classTypes: string[];
+
+  /**
+   * Node types for functions and methods
+   */
+  functionTypes: string[];
+
+  /**
+   * Node types for variable declarators that may hold a function value
+   */
+  declaratorTypes: string[];
+
+  /**
+   * Node types that can hold a function when used as a declarator value
+   */
+  functionValueTypes: string[];
+
+  /**
+   * Node types that wrap a declaration and should be included in its range
+   * (export statements, decorators, declaration lists)
+   */
+  wrapperTypes: string[];
+
+  /**
+   * Node types that can carry a symbol's name
+   */
+  nameTypes: string[];
+
+  /**
+   * Optional check for class nodes that are not really classes
+   */
+  isClass?: (node: Parser.SyntaxNode) => boolean;
+
+  /**
+   * Optional lookup of a method's enclosing type when it is not lexically nested
+   */
+  getReceiverName?: (node: Parser.SyntaxNode) => string | undefined;
+}
+
+const JAVASCRIPT_SPEC: Omit<GrammarSpec, 'load'> = {
+  classTypes: ['class_declaration', 'abstract_class_declaration', 'interface_declaration'],
+  functionTypes: ['function_declaration', 'generator_function_declaration', 'method_definition'],
+  declaratorTypes: ['variable_declarator', 'public_field_definition', 'field_definition'],
+  functionValueTypes: ['arrow_function', 'function', 'function_expression', 'generator_function'],
+  wrapperTypes: ['export_statement', 'lexical_declaration', 'variable_declaration'],
+  nameTypes: ['identifier', 'type_identifier', 'property_identifier', 'private_property_identifier'],
+};
+
+const GRAMMARS: Record<string, GrammarSpec> = {
+  typescript: {
+    ...JAVASCRIPT_SPEC,
+    load: () => require('tree-sitter-typescript').typescript,
+  },
+  tsx: {
+    ...JAVASCRIPT_SPEC,
+    load: () => require('tree-sitter-typescript').tsx,
+  },
+  javascript: {
+    ...JAVASCRIPT_SPEC,
+    load: () => require('tree-sitter-javascript'),
+  },
+  python: {
+    load: () => require('tree-sitter-python'),
+    classTypes: ['class_definition'],
+    functionTypes: ['function_definition'],
+    declaratorTypes: [],
+    functionValueTypes: [],
+    wrapperTypes: ['decorated_definition'],
+    nameTypes: ['identifier'],
+  },
+  go: {
+    load: () => require('tree-sitter-go'),
+    classTypes: ['type_spec'],
+    functionTypes: ['function_declaration', 'method_declaration'],
+    declaratorTypes: [],
+    functionValueTypes: [],
+    wrapperTypes: ['type_declaration'],
+    nameTypes: ['identifier', 'field_identifier', 'type_identifier'],
+    // Only structs and interfaces are chunked as classes, not type aliases
+    isClass: node => node.namedChildren.some(child =>
+      child.type === 'struct_type' || child.type === 'interface_type'
+    ),
+    // Go methods are declared outside their type, so use the receiver type
+    getReceiverName: node => {
+      const receiver = node.namedChildren.find(child => child.type === 'parameter_list');
+      return receiver?.descendantsOfType('type_identifier')[0]?.text;
+    },
+  },
+  java: {
+    load: () => require('tree-sitter-java'),
+    classTypes: ['class_declaration', 'interface_declaration', 'enum_declaration', 'record_declaration'],
+    functionTypes: ['method_declaration', 'constructor_declaration'],
+    declaratorTypes: [],
+    functionValueTypes: [],
+    wrapperTypes: [],
+    nameTypes: ['identifier'],
+  },
+};
+
+let ParserClass: typeof Parser | null | undefined;
+const languages = new Map<string, unknown | null>();
+
+/**
+ * Loads the tree-sitter runtime, which is a native module that may be unavailable
+ * @returns The Parser class, or null if it cannot be loaded
+ */
+function loadParser(): typeof Parser | null {
+  if (ParserClass === undefined) {
+    try {
+      ParserClass = require('tree-sitter') as typeof Parser;
+    } catch (error) {
+      console.warn('tree-sitter is not available, falling back to heuristic chunking:', error);
+      ParserClass = null;
+    }
+  }
+  return ParserClass;
+}
+
+/**
+ * Loads the grammar for a grammar name, caching failures
+ * @param grammarName The key in GRAMMARS
+ * @returns The language object, or null if it cannot be loaded
+ */
+function loadLanguage(grammarName: string): unknown | null {
+  if (!languages.has(grammarName)) {
+    try {
+      languages.set(grammarName, GRAMMARS[grammarName].load());
+    } catch (error) {
+      console.warn(`tree-sitter grammar for ${grammarName} is not available:`, error);
+      languages.set(grammarName, null);
+    }
+  }
+  return languages.get(grammarName) ?? null;
+}
+
+/**
+ * Picks the grammar for a file
+ * @param file The file to parse
+ * @returns The grammar name, or undefined if no grammar supports the file
+ */
+function getGrammarName(file: GitHubFile): string | undefined {
+  if (file.language === 'typescript' && path.extname(file.path).toLowerCase() === '.tsx') {
+    return 'tsx';
+  }
+  return file.language && GRAMMARS[file.language] ? file.language : undefined;
+}
+
+/**
+ * Checks whether a file can be parsed with tree-sitter
+ * @param file The file to check
+ * @returns True if a grammar exists for the file's language
+ */
+export function supportsTreeSitter(file: GitHubFile): boolean {
+  return getGrammarName(file) !== undefined;
+}
+
+/**
+ * Extracts classes, functions and methods from a file using tree-sitter
+ * @param file The file to parse
+ * @returns Array of symbols, or null if the file's language cannot be parsed
+ */
+export function extractSymbolsWithTreeSitter(file: GitHubFile): CodeSymbol[] | null {
+  const grammarName = getGrammarName(file);
+  const ParserCtor = grammarName ? loadParser() : null;
+  const language = grammarName && ParserCtor ? loadLanguage(grammarName) : null;
+  if (!grammarName || !ParserCtor || !language) {
+    return null;
+  }
+
+  const spec = GRAMMARS[grammarName];
+  const parser = new ParserCtor();
+  parser.setLanguage(language);
+
+  // Feed the content in slices; passing large strings directly is not supported
+  const content = file.content;
+  const tree = parser.parse((index: number) => content.slice(index, index + 8192));
+
+  const symbols: CodeSymbol[] = [];
+  collectSymbols(tree.rootNode, spec, symbols);
+  return symbols.sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Walks the syntax tree and records symbols. Function bodies are not descended
+ * into, so nested helper functions stay part of their enclosing function.
+ * @param node The node to visit
+ * @param spec The grammar description
+ * @param symbols The array to add symbols to
+ * @param parentName The enclosing class name, if any
+ */
+function collectSymbols(
+  node: Parser.SyntaxNode,
+  spec: GrammarSpec,
+  symbols: CodeSymbol[],
+  parentName?: string
+): void {
+  if (spec.classTypes.includes(node.type) && (!spec.isClass || spec.isClass(node))) {
+    const name = getName(node, spec);
+    if (name) {
+      symbols.push(createSymbol(node, spec, name, 'class', parentName));
+      for (const child of node.namedChildren) {
+        collectSymbols(child, spec, symbols, name);
+      }
+      return;
+    }
+  }
+
+  if (spec.functionTypes.includes(node.type)) {
+    const name = getName(node, spec);
+    if (name) {
+      const owner = parentName || spec.getReceiverName?.(node);
+      symbols.push(createSymbol(node, spec, name, 'function', owner));
+    }
+    return;
+  }
+
+  if (spec.declaratorTypes.includes(node.type)) {
+    const value = node.lastNamedChild;
+    if (value && spec.functionValueTypes.includes(value.type)) {
+      const name = getName(node, spec);
+      if (name) {
+        symbols.push(createSymbol(node, spec, name, 'function', parentName));
+      }
+      return;
+    }
+  }
+
+  // Function expressions outside declarators (callbacks, IIFEs) are not symbols
+  if (spec.functionValueTypes.includes(node.type)) {
+    return;
+  }
+
+  for (const child of node.namedChildren) {
+    collectSymbols(child, spec, symbols, parentName);
+  }
+}
+
+/**
+ * Finds the name of a declaration node among its direct children
+ * @param node The declaration node
+ * @param spec The grammar description
+ * @returns The name, if found
+ */
+function getName(node: Parser.SyntaxNode, spec: GrammarSpec): string | undefined {
+  return node.namedChildren.find(child => spec.nameTypes.includes(child.type))?.text;
+}
+
+/**
+ * Creates a symbol spanning a node and any wrapping export or decorator nodes
+ * @param node The declaration node
+ * @param spec The grammar description
+ * @param name The symbol name
+ * @param kind The symbol kind
+ * @param parentName The enclosing class name, if any
+ * @returns The symbol
+ */
+function createSymbol(
+  node: Parser.SyntaxNode,
+  spec: GrammarSpec,
+  name: string,
+  kind: CodeSymbol['kind'],
+  parentName?: string
+): CodeSymbol {
+  // Only extend to wrappers that contain nothing but this declaration
+  let outer = node;
+  while (
+    outer.parent &&
+    spec.wrapperTypes.includes(outer.parent.type) &&
+    outer.parent.namedChildren.filter(child => child.type !== 'decorator' && child.type !== 'comment').length === 1
+  ) {
+    outer = outer.parent;
+  }
+
+  return {
+    name,
+    kind,
+    startLine: outer.startPosition.row + 1,
+    endLine: node.endPosition.row + 1,
+    parentName,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Rewriting of follow-up questions into standalone retrieval queries
+ */
+
+import { ChatMessage, ChatProvider, ConversationTurn } from '@github-rag-system/common';
+
+/**
+ * Number of most recent turns shown to the model when rewriting
+ */
+const MAX_REWRITE_TURNS = 3;
+
+/**
+ * Maximum number of characters of each earlier answer shown to the model
+ */
+const MAX_ANSWER_LENGTH = 1000;
+
+/**
+ * Maximum number of tokens of a rewritten query
+ */
+const MAX_QUERY_TOKENS = 100;
+
+/**
+ * Instructions given to the model for every rewrite
+ */
+const SYSTEM_PROMPT =
+  'You rewrite follow-up questions about a code base into standalone search queries. Replace ' +
+  'references such as "it", "that" or "this function" with the names of the files, functions or ' +
+  'concepts they refer to in the conversation. Reply with the query only, on a single line.';
+
+/**
+ * Turns follow-up questions into queries that retrieve the right code on their own
+ */
+export class QueryRewriter {
+  private provider: ChatProvider;
+
+  /**
+   * Creates a new QueryRewriter
+   * @param provider The chat model doing the rewriting
+   */
+  constructor(provider: ChatProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Rewrites a question using the conversation it was asked in
+   * @param turns The earlier turns of the conversation, oldest first
+   * @param question The new question
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to the standalone query, or the question itself
+   * for the first question of a conversation or when the model returns nothing
+   */
+  async rewrite(turns: ConversationTurn[], question: string, signal?: AbortSignal): Promise<string> {
+    if (turns.length === 0) {
+      return question;
+    }
+
+    const conversation = turns.slice(-MAX_REWRITE_TURNS)
+      .map(turn => {
+        const answer = turn.answer.length > MAX_ANSWER_LENGTH
+          ? `${turn.answer.slice(0, MAX_ANSWER_LENGTH)} [...]`
+          : turn.answer;
+        const sources = turn.citations
+          .filter(citation => citation.cited)
+          .map(citation => citation.symbolName ? `${citation.filePath} (${citation.symbolName})` : citation.filePath);
+        return `User: ${turn.question}\nAssistant: ${answer}` +
+          (sources.length > 0 ? `\nSources: ${sources.join(', ')}` : '');
+      })
+      .join('\n\n');
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: `Conversation:\n\n${conversation}\n\nFollow-up question: ${question}` },
+    ];
+    const query = (await this.provider.complete(messages, {
+      maxTokens: MAX_QUERY_TOKENS,
+      temperature: 0,
+      signal,
+    })).trim().split('\n')[0].trim();
+
+    return query || question;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Parsing and authentication of repository sources
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { RepositorySource, GitCredentials } from '@github-rag-system/common';
+
+/**
+ * Error for repository locations that cannot be parsed
+ */
+export class InvalidRepositorySourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRepositorySourceError';
+  }
+}
+
+/**
+ * Matches scp-like SSH locations such as `git@github.com:org/repo.git`
+ */
+const SCP_LIKE = /^(?:([^@/\s]+)@)?([^:/\s]+):(?!\/\/)(.+)$/;
+
+/**
+ * Host names, IPv4 or bracketed IPv6 addresses with an optional port. The host
+ * becomes a directory of the work dir and an argument to git, so it must not
+ * start with a dot or a dash.
+ */
+const HOST = /^(?:\[[0-9a-f:.]+\]|[a-z0-9_][a-z0-9_.-]*)(?::\d{1,5})?$/i;
+
+/**
+ * Parses a repository location: an HTTPS or SSH URL, an scp-like SSH location,
+ * a `file://` URL or a local path
+ * @param location The location as given by the user
+ * @param cwd Directory relative local paths are resolved against
+ * @returns The parsed source
+ */
+export function parseRepositorySource(location: string, cwd: string = process.cwd()): RepositorySource {
+  const trimmed = location.trim();
+  if (!trimmed) {
+    throw new InvalidRepositorySourceError('Repository location is empty');
+  }
+
+  const scheme = /^([a-z][a-z0-9+.-]*):\/\//i.exec(trimmed)?.[1].toLowerCase();
+
+  if (scheme === 'file') {
+    try {
+      return createLocalSource(fileURLToPath(trimmed));
+    } catch {
+      throw new InvalidRepositorySourceError(`Invalid file URL: ${location}`);
+    }
+  }
+
+  if (scheme === 'http') {
+    // Tokens for the host would be sent in cleartext
+    throw new InvalidRepositorySourceError(`Plain HTTP repository URLs are not supported, use HTTPS: ${location}`);
+  }
+
+  if (scheme === 'https' || scheme === 'ssh') {
+    let url: URL;
+    try {
+      url = new URL(trimmed);
+    } catch {
+      throw new InvalidRepositorySourceError(`Invalid repository URL: ${location}`);
+    }
+
+    // The identity ignores the SSH port, which differs from the web port
+    const host = scheme === 'ssh' ? url.hostname : url.host;
+    return createRemoteSource(scheme === 'ssh' ? 'ssh' : 'https', trimmed, host, decodeURIComponent(url.pathname));
+  }
+
+  if (scheme) {
+    throw new InvalidRepositorySourceError(`Unsupported repository URL scheme: ${scheme}`);
+  }
+
+  // Windows drive letters look like scp-like hosts, so rule out absolute paths first
+  const scpLike = path.win32.isAbsolute(trimmed) ? null : SCP_LIKE.exec(trimmed);
+  if (scpLike) {
+    return createRemoteSource('ssh', trimmed, scpLike[2], scpLike[3]);
+  }
+
+  const expanded = trimmed === '~' || trimmed.startsWith('~/')
+    ? path.join(os.homedir(), trimmed.slice(1))
+    : trimmed;
+  return createLocalSource(path.resolve(cwd, expanded));
+}
+
+/**
+ * Builds the environment for git commands accessing a source, adding the
+ * configured credentials and disabling interactive prompts
+ * @param source The repository source
+ * @param credentials Server-side credentials
+ * @returns Environment variables to add to the process environment
+ */
+export function buildGitEnvironment(
+  source: RepositorySource,
+  credentials: GitCredentials = {}
+): Record<string, string> {
+  // Fail instead of waiting for a password that will never be typed
+  const env: Record<string, string> = { GIT_TERMINAL_PROMPT: '0' };
+
+  if (source.kind === 'https') {
+    const credential = credentials.tokens?.[source.host];
+    const url = new URL(source.cloneUrl);
+    if (credential && url.protocol === 'https:') {
+      // Passed through the environment rather than the command line so the
+      // token does not show up in process listings, and scoped to the host
+      const basic = Buffer.from(`${credential.username || 'x-access-token'}:${credential.token}`).toString('base64');
+      const origin = url.origin;
+      env.GIT_CONFIG_COUNT = '1';
+      env.GIT_CONFIG_KEY_0 = `http.${origin}/.extraHeader`;
+      env.GIT_CONFIG_VALUE_0 = `Authorization: Basic ${basic}`;
+    }
+  } else if (source.kind === 'ssh') {
+    const options = ['-o BatchMode=yes'];
+    if (credentials.sshKeyPath) {
+      options.push(`-i ${shellQuote(credentials.sshKeyPath)}`, '-o IdentitiesOnly=yes');
+    }
+    options.push(`-o StrictHostKeyChecking=${credentials.strictHostKeyChecking ? 'yes' : 'accept-new'}`);
+    env.GIT_SSH_COMMAND = `ssh ${options.join(' ')}`;
+  }
+
+  return env;
+}
+
+/**
+ * Creates a source for a remote repository
+ * @param kind How the repository is accessed
+ * @param cloneUrl The location as given
+ * @param host The host, with the port where it is part of the identity
+ * @param repositoryPath The path of the repository on the host
+ * @returns The source
+ */
+function createRemoteSource(
+  kind: 'https' | 'ssh',
+  cloneUrl: string,
+  host: string,
+  repositoryPath: string
+): RepositorySource {
+  if (!HOST.test(host)) {
+    throw new InvalidRepositorySourceError(`Invalid repository host in ${cloneUrl}`);
+  }
+
+  const segments = repositoryPath
+    .replace(/\.git\/*$/, '')
+    .split('/')
+    .filter(segment => segment !== '');
+
+  if (segments.length === 0 || segments.some(segment => segment === '.' || segment === '..')) {
+    throw new InvalidRepositorySourceError(`Invalid repository path in ${cloneUrl}`);
+  }
+
+  const name = segments.pop()!;
+  const normalizedHost = host.toLowerCase();
+  return {
+    kind,
+    cloneUrl,
+    url: `https://${normalizedHost}/${[...segments, name].join('/')}`,
+    host: normalizedHost,
+    owner: segments.join('/'),
+    name,
+  };
+}
+
+/**
+ * Creates a source for a repository on the local file system
+ * @param absolutePath The resolved absolute path
+ * @returns The source
+ */
+function createLocalSource(absolutePath: string): RepositorySource {
+  const normalizedPath = path.resolve(absolutePath).replace(/[\\/]+$/, '') || path.sep;
+  const name = path.basename(normalizedPath).replace(/\.git$/, '');
+
+  return {
+    kind: 'local',
+    cloneUrl: normalizedPath,
+    url: `file://${normalizedPath.split(path.sep).join('/').replace(/^(?!\/)/, '/')}`,
+    host: '',
+    owner: path.basename(path.dirname(normalizedPath)),
+    name: name || 'root',
+  };
+}
+
+/**
+ * Quotes a value for use in a POSIX shell command
+ * @param value The value to quote
+ * @returns The quoted value
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,302 @@
+/**
+ * Stack trace detection and matching of frames to indexed chunks
+ */
+
+import { VectorDBClient } from '@github-rag-system/db';
+import {
+  ChunkType,
+  CodeChunk,
+  FrameMatch,
+  SearchResult,
+  StackFrame,
+  VectorSearchParams
+} from '@github-rag-system/common';
+
+/**
+ * Maximum number of frames matched per query, innermost first
+ */
+const MAX_FRAMES = 10;
+
+/**
+ * Node.js frame: `at fn (path:line:column)` or `at path:line:column`
+ */
+const NODE_FRAME = /^\s*at (?:async )?(?:(.+?) \()?([^\s()]+?):(\d+)(?::\d+)?\)?\s*$/;
+
+/**
+ * Java (and other JVM) frame: `at com.example.Class.method(File.java:42)`, optionally
+ * with a class loader or module prefix such as `app//`
+ */
+const JAVA_FRAME = /^\s*at (?:[\w.$@-]*\/+)?((?:[\w$]+\.)*[\w$]+)\.([\w$<>]+)\(([\w$.-]+\.\w+):(\d+)\)/;
+
+/**
+ * Python frame: `File "path", line 42, in function`
+ */
+const PYTHON_FRAME = /^\s*File "(.+?)", line (\d+)(?:, in (.+?))?\s*$/;
+
+/**
+ * Go frame location, following the line with the function: `\t/path/file.go:42 +0x1d`
+ */
+const GO_LOCATION = /^\s+(\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?\s*$/;
+
+/**
+ * JVM packages of the runtime and common languages, whose frames are skipped
+ */
+const JVM_LIBRARY_PACKAGE = /^(java|javax|jdk|sun|com\.sun|kotlin|kotlinx|scala)\./;
+
+/**
+ * Finds the frames of Node.js, Python, Java and Go stack traces in a text.
+ * Frames of runtimes and installed dependencies are skipped, since they point
+ * to code that is not indexed with the repository.
+ * @param text The text, such as a query with a pasted stack trace
+ * @returns The frames, innermost (where the error was raised) first
+ */
+export function parseStackTrace(text: string): StackFrame[] {
+  const lines = text.split(/\r?\n/);
+  const frames: StackFrame[] = [];
+  // Python prints the innermost frame last, so its frames are collected separately and reversed
+  const pythonFrames: StackFrame[] = [];
+
+  lines.forEach((line, i) => {
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(JAVA_FRAME))) {
+      const [, qualifiedClass, method, fileName, lineNumber] = match;
+      if (JVM_LIBRARY_PACKAGE.test(qualifiedClass)) {
+        return;
+      }
+      const segments = qualifiedClass.split('.');
+      const className = segments.pop() as string;
+      frames.push({
+        format: 'java',
+        filePath: [...segments, fileName].join('/'),
+        functionName: `${className}.${method}`,
+        line: parseInt(lineNumber),
+      });
+    } else if ((match = line.match(NODE_FRAME))) {
+      const [, functionName, location, lineNumber] = match;
+      frames.push({
+        format: 'node',
+        filePath: normalizePath(location.replace(/^[a-z-]+:\/\/\/?/i, '')),
+        functionName: functionName || undefined,
+        line: parseInt(lineNumber),
+      });
+    } else if ((match = line.match(PYTHON_FRAME))) {
+      const [, location, lineNumber, functionName] = match;
+      pythonFrames.push({
+        format: 'python',
+        filePath: normalizePath(location),
+        functionName: functionName || undefined,
+        line: parseInt(lineNumber),
+      });
+    } else if ((match = line.match(GO_LOCATION)) && i > 0) {
+      const functionName = lines[i - 1].trim()
+        .replace(/^created by /, '')
+        .replace(/ in goroutine \d+$/, '')
+        .replace(/\([^()]*\)$/, '');
+      // Standard library packages have no domain in their first path segment
+      const root = functionName.split(/[/.]/)[0];
+      if (root !== 'main' && !functionName.split('/')[0].includes('.')) {
+        return;
+      }
+      frames.push({
+        format: 'go',
+        filePath: normalizePath(match[1]),
+        functionName: functionName || undefined,
+        line: parseInt(match[2]),
+      });
+    }
+  });
+
+  const seen = new Set<string>();
+  return [...frames, ...pythonFrames.reverse()].filter(frame => {
+    const key = `${frame.filePath}:${frame.line}:${frame.functionName || ''}`;
+    if (isLibraryPath(frame.filePath) || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Puts the chunks that the frames of a stack trace point to at the top of
+ * bug fixing search results
+ */
+export class StackTraceMatcher {
+  private dbClient: VectorDBClient;
+
+  /**
+   * Creates a new StackTraceMatcher
+   * @param dbClient The client used to fetch the chunks of the files in the trace
+   */
+  constructor(dbClient: VectorDBClient) {
+    this.dbClient = dbClient;
+  }
+
+  /**
+   * Matches the frames of a stack trace in the query against the chunks of
+   * the files they name. Per frame, the narrowest chunk containing the line is
+   * preferred, then a chunk with the frame's function name, then the whole
+   * file. Matching hits move to the top, innermost frame first; matching chunks
+   * the search missed are added with the best score of the results, and the
+   * results are then cut back to the search limit. Results without a stack
+   * trace in the query are left unchanged.
+   * @param params The search parameters; added chunks must match their use
+   * cases and filters
+   * @param result The search results, updated in place
+   * @param signal Cancels the lookup when aborted
+   */
+  async apply(params: VectorSearchParams, result: SearchResult, signal?: AbortSignal): Promise<void> {
+    const frames = parseStackTrace(params.query).slice(0, MAX_FRAMES);
+    if (frames.length === 0) {
+      return;
+    }
+
+    const filePaths = [...new Set(frames.map(frame => frame.filePath))];
+    const candidates = await this.dbClient.getChunksByFilePath(filePaths, params, signal);
+    const bestScore = result.scores.length > 0 ? Math.max(...result.scores) : 0;
+
+    const matched: { chunk: CodeChunk; score: number; match: FrameMatch }[] = [];
+    frames.forEach((frame, frameIndex) => {
+      const best = findFrameChunk(frame, candidates);
+      if (!best || matched.some(entry => entry.chunk.id === best.chunk.id)) {
+        return;
+      }
+      const hit = result.chunks.findIndex(chunk => chunk.id === best.chunk.id);
+      matched.push({
+        chunk: hit >= 0 ? result.chunks[hit] : best.chunk,
+        score: hit >= 0 ? result.scores[hit] : bestScore,
+        match: { frameIndex, frame, matchedBy: best.matchedBy, forced: hit < 0 },
+      });
+    });
+
+    const matchedIds = new Set(matched.map(entry => entry.chunk.id));
+    const rest = result.chunks
+      .map((chunk, i) => ({ chunk, score: result.scores[i] }))
+      .filter(entry => !matchedIds.has(entry.chunk.id));
+
+    const limit = params.limit ?? result.chunks.length;
+    result.chunks = [...matched.map(entry => entry.chunk), ...rest.map(entry => entry.chunk)].slice(0, limit);
+    result.scores = [...matched.map(entry => entry.score), ...rest.map(entry => entry.score)].slice(0, limit);
+    result.stackFrames = frames;
+    result.frameMatches = [...matched.map(entry => entry.match), ...rest.map(() => null)].slice(0, limit);
+  }
+}
+
+/**
+ * Finds the chunk a frame points to. The file sharing the longest path suffix
+ * with the frame wins, then the chunk matching both line and symbol, then the
+ * narrowest chunk.
+ * @param frame The frame
+ * @param candidates Chunks of files the frame's path may refer to
+ * @returns The best matching chunk and what matched, or undefined if none matches
+ */
+function findFrameChunk(
+  frame: StackFrame,
+  candidates: CodeChunk[]
+): { chunk: CodeChunk; matchedBy: FrameMatch['matchedBy'] } | undefined {
+  const symbol = frame.functionName && frameSymbol(frame.functionName);
+  let best: {
+    chunk: CodeChunk;
+    matchedBy: FrameMatch['matchedBy'];
+    pathMatch: number;
+    rank: number;
+    span: number;
+  } | undefined;
+
+  for (const chunk of candidates) {
+    if (chunk.type === ChunkType.SUMMARY || !isSameFile(frame.filePath, chunk.metadata.filePath)) {
+      continue;
+    }
+
+    const { startLine, endLine, symbolName } = chunk.metadata;
+    const isFile = chunk.type === ChunkType.FILE;
+    const lineMatch = !isFile && frame.line !== undefined && startLine !== undefined && endLine !== undefined &&
+      startLine <= frame.line && frame.line <= endLine;
+    const symbolMatch = !!symbol && !!symbolName && frameSymbol(symbolName) === symbol;
+    if (!lineMatch && !symbolMatch && !isFile) {
+      continue;
+    }
+
+    const pathMatch = sharedSuffixLength(frame.filePath, chunk.metadata.filePath);
+    const rank = (lineMatch ? 2 : 0) + (symbolMatch ? 1 : 0);
+    const span = isFile ? Infinity : (endLine ?? Infinity) - (startLine ?? 0);
+    if (!best || pathMatch > best.pathMatch ||
+      (pathMatch === best.pathMatch && (rank > best.rank || (rank === best.rank && span < best.span)))) {
+      const matchedBy: FrameMatch['matchedBy'] = ['file'];
+      if (lineMatch) {
+        matchedBy.push('line');
+      }
+      if (symbolMatch) {
+        matchedBy.push('symbol');
+      }
+      best = { chunk, matchedBy, pathMatch, rank, span };
+    }
+  }
+
+  return best && { chunk: best.chunk, matchedBy: best.matchedBy };
+}
+
+/**
+ * Gets the plain name of a function as printed in a frame or stored as a
+ * symbol name, e.g. `handle` for `main.(*Server).handle` or `UserService.handle`
+ * @param name The qualified name
+ * @returns The last name part; the class name for JVM constructors, and
+ * undefined for anonymous functions and module-level code
+ */
+function frameSymbol(name: string): string | undefined {
+  const parts = name.split(/[.\s]+/).filter(part => part && !/^\(.*\)$/.test(part));
+  const last = parts[parts.length - 1];
+  if (last === '<init>' || last === '<clinit>') {
+    return parts[parts.length - 2];
+  }
+  return last && !last.startsWith('<') ? last : undefined;
+}
+
+/**
+ * Checks whether a path from a stack trace refers to an indexed file. Traces
+ * print absolute or package-relative paths, while indexed paths are relative
+ * to the repository root, so either may be a suffix of the other.
+ * @param framePath The path from the frame
+ * @param filePath The indexed path
+ * @returns Whether they refer to the same file
+ */
+function isSameFile(framePath: string, filePath: string): boolean {
+  return framePath === filePath || framePath.endsWith(`/${filePath}`) || filePath.endsWith(`/${framePath}`);
+}
+
+/**
+ * Counts the trailing path segments two paths have in common
+ * @param a The first path
+ * @param b The second path
+ * @returns The number of equal segments at the end of both paths
+ */
+function sharedSuffixLength(a: string, b: string): number {
+  const aSegments = a.split('/');
+  const bSegments = b.split('/');
+  let count = 0;
+  while (count < aSegments.length && count < bSegments.length &&
+    aSegments[aSegments.length - 1 - count] === bSegments[bSegments.length - 1 - count]) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Normalizes a path from a stack trace to forward slashes without a leading `./`
+ * @param filePath The path as printed
+ * @returns The normalized path
+ */
+function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Checks whether a path belongs to a runtime or an installed dependency
+ * @param filePath The normalized path
+ * @returns Whether frames with the path are skipped
+ */
+function isLibraryPath(filePath: string): boolean {
+  return /^(node:|internal\/|<)/.test(filePath) ||
+    /\/(node_modules|site-packages|dist-packages)\//.test(filePath) ||
+    /\/lib\/python\d/.test(filePath);
+}
@@ -0,0 +1,170 @@
+/**
+ * Natural-language summaries of files, directories and repositories
+ */
+
+import * as path from 'path';
+import {
+  ChatProvider,
+  ChatMessage,
+  CodeChunk,
+  ChunkType,
+  GitHubFile,
+  GitHubRepositoryInfo,
+  SummaryScope,
+  UseCase
+} from '@github-rag-system/common';
+import { createChunkId, hashContent } from './chunk-id';
+
+/**
+ * Maximum number of characters of input sent to the model per summary
+ */
+const MAX_INPUT_LENGTH = 24000;
+
+/**
+ * Maximum number of tokens generated per summary
+ */
+const MAX_SUMMARY_TOKENS = 300;
+
+/**
+ * Instructions given to the model for every summary
+ */
+const SYSTEM_PROMPT =
+  'You write summaries of source code for a code search index. Describe what the code is for, ' +
+  'its main responsibilities and its most important classes, functions or settings, in at most ' +
+  'one paragraph of plain prose. Do not speculate about code that is not shown.';
+
+/**
+ * Generates summary chunks with a chat model
+ */
+export class Summarizer {
+  private provider: ChatProvider;
+  private repoInfo: GitHubRepositoryInfo;
+
+  /**
+   * Creates a new Summarizer
+   * @param provider The chat model writing the summaries
+   * @param repoInfo The repository being summarized
+   */
+  constructor(provider: ChatProvider, repoInfo: GitHubRepositoryInfo) {
+    this.provider = provider;
+    this.repoInfo = repoInfo;
+  }
+
+  /**
+   * Summarizes a file
+   * @param file The file
+   * @param fileChunkId The ID of the file's file-level chunk, which becomes the summary's parent
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to the summary chunk
+   */
+  async summarizeFile(file: GitHubFile, fileChunkId: string, signal?: AbortSignal): Promise<CodeChunk> {
+    const summary = await this.complete(
+      `Summarize the file ${file.path}${file.language ? ` (${file.language})` : ''}:\n\n` +
+      truncate(file.content),
+      signal
+    );
+
+    const chunk = this.createChunk('file', file.path, summary, file.language);
+    chunk.metadata.parentId = fileChunkId;
+    return chunk;
+  }
+
+  /**
+   * Summarizes a directory, or the whole repository, from the summaries of its
+   * files and subdirectories
+   * @param dirPath The directory path relative to the repository root, empty for the repository
+   * @param children The summary chunks of the directory's files and subdirectories
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to the summary chunk
+   */
+  async summarizeDirectory(dirPath: string, children: CodeChunk[], signal?: AbortSignal): Promise<CodeChunk> {
+    const scope: SummaryScope = dirPath ? 'directory' : 'repository';
+    const listing = children
+      .map(child => {
+        const name = path.posix.basename(child.metadata.filePath);
+        const kind = child.metadata.summaryScope === 'file' ? 'file' : 'directory';
+        return `- ${name} (${kind}): ${child.content}`;
+      })
+      .join('\n');
+
+    const summary = await this.complete(
+      (dirPath
+        ? `Summarize the directory ${dirPath} of the repository ${this.repoInfo.owner}/${this.repoInfo.name}`
+        : `Summarize the repository ${this.repoInfo.owner}/${this.repoInfo.name}`) +
+      ` from the summaries of its contents:\n\n${truncate(listing)}`,
+      signal
+    );
+
+    const chunk = this.createChunk(scope, dirPath, summary);
+    chunk.metadata.childIds = children.map(child => child.id);
+    return chunk;
+  }
+
+  /**
+   * Asks the model for a summary
+   * @param prompt The request, including the material to summarize
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to the summary text
+   */
+  private async complete(prompt: string, signal?: AbortSignal): Promise<string> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: prompt },
+    ];
+    const summary = (await this.provider.complete(messages, {
+      maxTokens: MAX_SUMMARY_TOKENS,
+      temperature: 0,
+      signal,
+    })).trim();
+
+    if (!summary) {
+      throw new Error(`${this.provider.id} returned an empty summary`);
+    }
+    return summary;
+  }
+
+  /**
+   * Builds a summary chunk
+   * @param scope What is summarized
+   * @param filePath The file or directory path, empty for the repository
+   * @param summary The summary text
+   * @param language The language of a summarized file
+   * @returns The summary chunk
+   */
+  private createChunk(scope: SummaryScope, filePath: string, summary: string, language?: string): CodeChunk {
+    const contentHash = hashContent(summary);
+
+    return {
+      id: createChunkId(this.repoInfo, filePath, ChunkType.SUMMARY, contentHash, scope),
+      content: summary,
+      type: ChunkType.SUMMARY,
+      useCases: [UseCase.EXPLANATION],
+      metadata: {
+        repositoryInfo: this.repoInfo,
+        filePath,
+        language,
+        contentHash,
+        summaryScope: scope,
+      }
+    };
+  }
+}
+
+/**
+ * Gets the directory of a path, with the repository root as the empty string
+ * @param filePath A file or directory path relative to the repository root
+ * @returns The parent directory, empty for top-level entries
+ */
+export function parentDirectory(filePath: string): string {
+  const dir = path.posix.dirname(filePath);
+  return dir === '.' ? '' : dir;
+}
+
+/**
+ * Shortens text to the maximum input length
+ * @param text The text
+ * @returns The text, cut off with a marker if it was too long
+ */
+function truncate(text: string): string {
+  return text.length > MAX_INPUT_LENGTH ? `${text.slice(0, MAX_INPUT_LENGTH)}\n[truncated]` : text;
+}
@@ -0,0 +1,56 @@
+/**
+ * Tokenizers for measuring chunk sizes
+ */
+
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import { Tokenizer } from '@github-rag-system/common';
+
+/**
+ * Tokenizer using a tiktoken BPE encoding, matching OpenAI models exactly
+ */
+export class TiktokenTokenizer implements Tokenizer {
+  private encodingName: TiktokenEncoding;
+  private encoding: Tiktoken | null = null;
+
+  /**
+   * Creates a new TiktokenTokenizer
+   * @param encodingName The encoding to use (defaults to cl100k_base)
+   */
+  constructor(encodingName: TiktokenEncoding = 'cl100k_base') {
+    this.encodingName = encodingName;
+  }
+
+  /**
+   * Counts the tokens in a text
+   * @param text The text to measure
+   * @returns The number of tokens
+   */
+  count(text: string): number {
+    // Loading the encoding is expensive, so defer it until first use
+    if (!this.encoding) {
+      this.encoding = getEncoding(this.encodingName);
+    }
+    return this.encoding.encode(text, [], []).length;
+  }
+}
+
+/**
+ * Tokenizer estimating tokens from character count, for models without a
+ * known encoding
+ */
+export class CharacterTokenizer implements Tokenizer {
+  /**
+   * Creates a new CharacterTokenizer
+   * @param charsPerToken Average number of characters per token
+   */
+  constructor(private charsPerToken = 4) {}
+
+  /**
+   * Estimates the tokens in a text
+   * @param text The text to measure
+   * @returns The estimated number of tokens
+   */
+  count(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+}
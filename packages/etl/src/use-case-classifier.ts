@@ -0,0 +1,248 @@
+/**
+ * Classification of queries into use cases
+ */
+
+import {
+  ChatMessage,
+  ChatProvider,
+  QueryClassifier,
+  UseCase,
+  UseCaseClassification
+} from '@github-rag-system/common';
+
+/**
+ * A pattern pointing to a use case
+ */
+interface ClassificationRule {
+  /**
+   * The use case the pattern points to
+   */
+  useCase: UseCase;
+
+  /**
+   * The pattern matched against the query
+   */
+  pattern: RegExp;
+
+  /**
+   * Score added when the pattern matches
+   */
+  weight: number;
+}
+
+/**
+ * Patterns of the rule-based classifier. Each rule counts at most once.
+ */
+const RULES: ClassificationRule[] = [
+  // Stack traces and error output: Node and Java frames, Python tracebacks, Go panics
+  { useCase: UseCase.BUG_FIXING, pattern: /^\s*at .+[:(].*\d+\)?\s*$/m, weight: 3 },
+  { useCase: UseCase.BUG_FIXING, pattern: /Traceback \(most recent call last\)|^\s*File ".+", line \d+/m, weight: 3 },
+  { useCase: UseCase.BUG_FIXING, pattern: /^panic: |^goroutine \d+ \[/m, weight: 3 },
+  {
+    useCase: UseCase.BUG_FIXING,
+    pattern: /\b[A-Z]\w*(Error|Exception)\b|\bE(NOENT|ACCES|PERM|CONNREFUSED|CONNRESET|ADDRINUSE|TIMEDOUT|PIPE)\b/,
+    weight: 2,
+  },
+  // Asking how to fix a problem outweighs the question word it starts with
+  {
+    useCase: UseCase.BUG_FIXING,
+    pattern: /\b(fix|debug|solve|resolve|troubleshoot|get rid of)\b.*\b(bugs?|errors?|exceptions?|crash(es)?|failures?|issues?|problems?|warnings?)\b/i,
+    weight: 3,
+  },
+  {
+    useCase: UseCase.BUG_FIXING,
+    pattern: /\b(bugs?|crash(es|ed|ing)?|fail(s|ed|ing|ure)?|broken|errors?|exceptions?|throw(s|n|ing)?|wrong|fix|doesn'?t work|not working|regression|segfault|hangs?)\b/i,
+    weight: 2,
+  },
+
+  // Requests for new code
+  {
+    useCase: UseCase.CODE_GENERATION,
+    pattern: /^\s*(please\s+)?(write|implement|create|add|generate|build|make|scaffold)\b/i,
+    weight: 2,
+  },
+  {
+    useCase: UseCase.CODE_GENERATION,
+    pattern: /\bhow (do|can|should|would) (i|we|you) (write|implement|add|create|build|make)\b/i,
+    weight: 3,
+  },
+  {
+    useCase: UseCase.CODE_GENERATION,
+    pattern: /\b(write|implement|generate|scaffold)\b|\b(add|create) (a|an|new|support)\b|\bcode (for|to|that)\b/i,
+    weight: 1,
+  },
+
+  // Questions about existing code
+  {
+    useCase: UseCase.EXPLANATION,
+    pattern: /^\s*(how|why|what|where|which|when|who|explain|describe|walk me through)\b/i,
+    weight: 2,
+  },
+  {
+    useCase: UseCase.EXPLANATION,
+    pattern: /\b(how|why|what|explain|describe|understand|overview|purpose|responsible for)\b/i,
+    weight: 1,
+  },
+];
+
+/**
+ * Other use cases are searched as well when their score is at least this
+ * share of the best score
+ */
+const MULTI_LABEL_RATIO = 0.5;
+
+/**
+ * Instructions given to the model for every classification
+ */
+const SYSTEM_PROMPT =
+  'Classify a question about a code base by what the asker needs. bug_fixing: finding the cause ' +
+  'of an error, failure or stack trace. code_generation: writing new code. explanation: ' +
+  'understanding how existing code works. Reply with a JSON object giving the probability of each, ' +
+  'for example {"bug_fixing": 0.1, "code_generation": 0.2, "explanation": 0.7}, and nothing else.';
+
+/**
+ * Classifies queries with keyword and stack trace patterns; works offline and
+ * without a chat model
+ */
+export class RuleBasedClassifier implements QueryClassifier {
+  readonly id = 'rules';
+
+  /**
+   * Classifies a query
+   * @param query The query text
+   * @returns Promise resolving to the classification
+   */
+  async classify(query: string): Promise<UseCaseClassification> {
+    const scores = emptyScores();
+    for (const rule of RULES) {
+      if (rule.pattern.test(query)) {
+        scores[rule.useCase] += rule.weight;
+      }
+    }
+    return toClassification(scores, this.id);
+  }
+}
+
+/**
+ * Classifies queries with a chat model, falling back to another classifier
+ * when the model fails or gives no usable answer
+ */
+export class ModelClassifier implements QueryClassifier {
+  readonly id: string;
+  private provider: ChatProvider;
+  private fallback: QueryClassifier;
+
+  /**
+   * Creates a new ModelClassifier
+   * @param provider The chat model
+   * @param fallback Classifier used when the model fails (defaults to the rule-based one)
+   */
+  constructor(provider: ChatProvider, fallback: QueryClassifier = new RuleBasedClassifier()) {
+    this.provider = provider;
+    this.fallback = fallback;
+    this.id = provider.id;
+  }
+
+  /**
+   * Classifies a query
+   * @param query The query text
+   * @param signal Cancels the request when aborted
+   * @returns Promise resolving to the classification
+   */
+  async classify(query: string, signal?: AbortSignal): Promise<UseCaseClassification> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: query },
+    ];
+
+    try {
+      const reply = await this.provider.complete(messages, { maxTokens: 60, temperature: 0, signal });
+      const scores = parseScores(reply);
+      if (scores) {
+        return toClassification(scores, this.id);
+      }
+      console.warn(`${this.id} returned an unusable classification, using ${this.fallback.id}: ${reply}`);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.warn(`Classification with ${this.id} failed, using ${this.fallback.id}:`, error);
+    }
+
+    return this.fallback.classify(query, signal);
+  }
+}
+
+/**
+ * Creates a score of zero for every use case
+ */
+function emptyScores(): Record<UseCase, number> {
+  return {
+    [UseCase.BUG_FIXING]: 0,
+    [UseCase.CODE_GENERATION]: 0,
+    [UseCase.EXPLANATION]: 0,
+  };
+}
+
+/**
+ * Reads the scores from a model's reply
+ * @param reply The reply, expected to contain a JSON object of scores
+ * @returns The scores, or undefined if there are no valid scores
+ */
+function parseScores(reply: string): Record<UseCase, number> | undefined {
+  const json = reply.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return undefined;
+  }
+
+  const scores = emptyScores();
+  for (const useCase of Object.values(UseCase)) {
+    const score = (parsed as Record<string, unknown>)[useCase] ?? 0;
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < 0) {
+      return undefined;
+    }
+    scores[useCase] = score;
+  }
+  return Object.values(scores).some(score => score > 0) ? scores : undefined;
+}
+
+/**
+ * Turns raw scores into a classification. Without any score, the query is
+ * treated as a question about the code and all use cases are searched.
+ * @param scores Raw score per use case
+ * @param classifier ID of the classifier
+ * @returns The classification
+ */
+function toClassification(scores: Record<UseCase, number>, classifier: string): UseCaseClassification {
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  const ranked = Object.values(UseCase).sort((a, b) => scores[b] - scores[a]);
+
+  if (total === 0) {
+    const useCases = [UseCase.EXPLANATION, ...ranked.filter(useCase => useCase !== UseCase.EXPLANATION)];
+    return { useCase: UseCase.EXPLANATION, useCases, confidence: 0, scores: emptyScores(), classifier };
+  }
+
+  const best = scores[ranked[0]];
+  const normalized = emptyScores();
+  for (const useCase of ranked) {
+    normalized[useCase] = Math.round(scores[useCase] / total * 100) / 100;
+  }
+
+  return {
+    useCase: ranked[0],
+    useCases: ranked.filter(useCase => scores[useCase] > 0 && scores[useCase] >= best * MULTI_LABEL_RATIO),
+    confidence: normalized[ranked[0]],
+    scores: normalized,
+    classifier,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Disk usage management of the work directory holding local clones
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { removeClone } from './github-repo';
+import { readJsonFile, writeJsonFile } from './json-file';
+
+/**
+ * Name of the file recording when each clone was last used
+ */
+const USAGE_FILE = 'clones.json';
+
+/**
+ * Keeps the clones in a work directory within a disk quota, evicting the
+ * least recently used clones that are not in use
+ */
+export class WorkDirManager {
+  private workDir: string;
+  private maxBytes?: number;
+  private leases = new Map<string, number>();
+
+  /**
+   * Creates a new WorkDirManager
+   * @param workDir The work directory
+   * @param maxBytes Disk quota for all clones and their worktrees; no limit if undefined
+   */
+  constructor(workDir: string, maxBytes?: number) {
+    this.workDir = workDir;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Marks a clone as in use, protecting it from eviction
+   * @param clonePath The clone directory
+   */
+  acquire(clonePath: string): void {
+    this.leases.set(clonePath, (this.leases.get(clonePath) || 0) + 1);
+    this.touch(clonePath);
+  }
+
+  /**
+   * Marks a clone as no longer used by one caller
+   * @param clonePath The clone directory
+   * @returns True if the clone is still in use by other callers
+   */
+  release(clonePath: string): boolean {
+    const count = (this.leases.get(clonePath) || 1) - 1;
+    if (count > 0) {
+      this.leases.set(clonePath, count);
+      return true;
+    }
+    this.leases.delete(clonePath);
+    this.touch(clonePath);
+    return false;
+  }
+
+  /**
+   * Stops tracking a clone that was removed
+   * @param clonePath The clone directory
+   */
+  forget(clonePath: string): void {
+    const usage = this.read();
+    delete usage[this.key(clonePath)];
+    this.write(usage);
+  }
+
+  /**
+   * Evicts the least recently used clones until the quota is met. Clones
+   * that are in use are never evicted.
+   * @returns Promise resolving to the evicted clone directories
+   */
+  async enforceQuota(): Promise<string[]> {
+    if (this.maxBytes === undefined) {
+      return [];
+    }
+
+    const usage = this.read();
+    const clones = Object.entries(usage)
+      .map(([key, lastUsedAt]) => {
+        const clonePath = path.join(this.workDir, key);
+        return { clonePath, lastUsedAt, size: directorySize(clonePath) + directorySize(`${clonePath}.worktrees`) };
+      })
+      .filter(clone => clone.size > 0)
+      .sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+
+    let total = clones.reduce((sum, clone) => sum + clone.size, 0);
+    const evicted: string[] = [];
+    for (const clone of clones) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      if (this.leases.has(clone.clonePath)) {
+        continue;
+      }
+
+      console.log(`Work directory uses ${total} of ${this.maxBytes} bytes, evicting ${clone.clonePath}`);
+      await removeClone(clone.clonePath);
+      total -= clone.size;
+      evicted.push(clone.clonePath);
+    }
+
+    if (total > this.maxBytes) {
+      console.warn(`Work directory uses ${total} bytes, over its quota of ${this.maxBytes}, with clones in use`);
+    }
+    if (evicted.length > 0) {
+      const remaining = this.read();
+      evicted.forEach(clonePath => delete remaining[this.key(clonePath)]);
+      this.write(remaining);
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Records that a clone was just used
+   */
+  private touch(clonePath: string): void {
+    const usage = this.read();
+    usage[this.key(clonePath)] = new Date().toISOString();
+    this.write(usage);
+  }
+
+  /**
+   * Builds the usage key of a clone, relative to the work directory so that
+   * the directory can be moved
+   */
+  private key(clonePath: string): string {
+    return path.relative(this.workDir, clonePath);
+  }
+
+  /**
+   * Reads the usage file, treating a missing or corrupt file as empty
+   */
+  private read(): Record<string, string> {
+    return readJsonFile(path.join(this.workDir, USAGE_FILE), {});
+  }
+
+  /**
+   * Writes the usage file atomically
+   */
+  private write(usage: Record<string, string>): void {
+    try {
+      writeJsonFile(path.join(this.workDir, USAGE_FILE), usage);
+    } catch (error) {
+      console.error('Failed to record work directory usage:', error);
+    }
+  }
+}
+
+/**
+ * Computes the disk usage of a directory tree, without following symbolic links
+ * @param dirPath The directory
+ * @returns The total size in bytes, 0 if the directory does not exist
+ */
+function directorySize(dirPath: string): number {
+  let total = 0;
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dirPath, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      total += directorySize(entryPath);
+    } else {
+      try {
+        total += fs.lstatSync(entryPath).size;
+      } catch {
+        // Removed while scanning
+      }
+    }
+  }
+
+  return total;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AskStreamEvent,
+  ChatMessage,
+  ChunkType,
+  Citation,
+  CodeChunk,
+  SearchResult,
+  Tokenizer,
+  UseCase
+} from '@github-rag-system/common';
+import { AnswerGenerator, markCited } from '../src/answer-generator';
+import { FixedReplyProvider } from './helpers';
+
+const repositoryInfo = { url: 'https://github.com/acme/app', owner: 'acme', name: 'app' };
+
+/**
+ * Counts one token per character, so budgets are easy to reason about
+ */
+const characterTokenizer: Tokenizer = { count: text => text.length };
+
+/**
+ * Creates a function chunk
+ */
+function chunk(id: string, content = `// ${id}`): CodeChunk {
+  return {
+    id,
+    content,
+    type: ChunkType.FUNCTION,
+    useCases: [UseCase.EXPLANATION],
+    metadata: { repositoryInfo, filePath: `src/${id}.ts`, startLine: 1, endLine: 3, symbolName: id },
+  };
+}
+
+/**
+ * Creates an uncited source
+ */
+function citation(index: number): Citation {
+  return {
+    index,
+    chunkId: `chunk-${index}`,
+    type: ChunkType.FUNCTION,
+    repositoryUrl: repositoryInfo.url,
+    filePath: `src/${index}.ts`,
+    score: 1,
+    cited: false,
+  };
+}
+
+describe('markCited', () => {
+  const citations = [citation(1), citation(2), citation(3)];
+
+  it('marks the sources referred to by number', () => {
+    const marked = markCited(citations, 'The config is loaded in [1] and validated in [3][1].');
+
+    expect(marked.map(source => source.cited)).toEqual([true, false, true]);
+  });
+
+  it('ignores numbers that are not sources and other bracketed text', () => {
+    const marked = markCited(citations, 'See [4], [a] and items[2 + 1].');
+
+    expect(marked.map(source => source.cited)).toEqual([false, false, false]);
+  });
+
+  it('does not modify the given sources', () => {
+    markCited(citations, '[2]');
+
+    expect(citations.every(source => !source.cited)).toBe(true);
+  });
+});
+
+describe('AnswerGenerator', () => {
+  const result: SearchResult = {
+    chunks: [chunk('loadConfig'), chunk('parseArgs')],
+    scores: [0.9, 0.6],
+  };
+
+  it('numbers the sources in the prompt and marks the cited ones', async () => {
+    const provider = new FixedReplyProvider('It reads the file [2].');
+    const generator = new AnswerGenerator(provider, characterTokenizer);
+
+    const answer = await generator.generate({ query: 'How are arguments parsed?', useCase: UseCase.EXPLANATION }, result);
+
+    expect(answer.answer).toBe('It reads the file [2].');
+    expect(answer.citations.map(source => [source.index, source.chunkId, source.cited])).toEqual([
+      [1, 'loadConfig', false],
+      [2, 'parseArgs', true],
+    ]);
+    const prompt = provider.messages[0][1].content;
+    expect(prompt).toContain('[1] src/loadConfig.ts:1-3 (loadConfig)');
+    expect(prompt).toContain('[2] src/parseArgs.ts:1-3 (parseArgs)');
+    expect(prompt).toMatch(/Question: How are arguments parsed\?$/);
+  });
+
+  it('leaves out the sources that do not fit the context budget', () => {
+    const generator = new AnswerGenerator(new FixedReplyProvider(''), characterTokenizer);
+    const large: SearchResult = {
+      chunks: [chunk('loadConfig'), chunk('huge', 'x'.repeat(500)), chunk('parseArgs')],
+      scores: [0.9, 0.8, 0.6],
+    };
+
+    const { citations } = generator.buildPrompt(
+      { query: 'q', useCase: UseCase.EXPLANATION, maxContextTokens: 200 },
+      large
+    );
+
+    expect(citations.map(source => [source.index, source.chunkId])).toEqual([[1, 'loadConfig'], [2, 'parseArgs']]);
+  });
+
+  it('places the conversation history between the instructions and the question', () => {
+    const generator = new AnswerGenerator(new FixedReplyProvider(''), characterTokenizer);
+    const history: ChatMessage[] = [
+      { role: 'user', content: 'What loads the config?' },
+      { role: 'assistant', content: 'loadConfig [1].' },
+    ];
+
+    const { messages } = generator.buildPrompt({ query: 'q', useCase: UseCase.BUG_FIXING }, result, history);
+
+    expect(messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(messages[0].content).toContain('You are helping to fix a bug.');
+  });
+
+  it('streams the sources, the answer and the final result', async () => {
+    const generator = new AnswerGenerator(new FixedReplyProvider('Parsed in [1].'), characterTokenizer);
+
+    const events: AskStreamEvent[] = [];
+    for await (const event of generator.stream({ query: 'q', useCase: UseCase.EXPLANATION }, result)) {
+      events.push(event);
+    }
+
+    expect(events.map(event => event.type)).toEqual(['citations', 'token', 'token', 'token', 'done']);
+    const done = events[events.length - 1];
+    expect(done.type === 'done' && done.result.answer).toBe('Parsed in [1].');
+    expect(done.type === 'done' && done.result.citations.map(source => source.cited)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ChunkType } from '@github-rag-system/common';
+import { createChunkId, hashContent } from '../src/chunk-id';
+import { CodeChunker } from '../src/code-chunker';
+
+const repositoryInfo = { url: 'https://github.com/acme/app', owner: 'acme', name: 'app' };
+
+describe('createChunkId', () => {
+  const hash = hashContent('save() {}');
+
+  it('is stable and prefixed with the chunk type', () => {
+    const id = createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save');
+
+    expect(id).toMatch(/^function-[0-9a-f]{40}$/);
+    expect(createChunkId({ ...repositoryInfo }, 'src/a.ts', ChunkType.FUNCTION, hash, 'save')).toBe(id);
+  });
+
+  it('differs by ref, path, type, name, content, class, occurrence and part', () => {
+    const ids = [
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save'),
+      createChunkId({ ...repositoryInfo, ref: 'v1' }, 'src/a.ts', ChunkType.FUNCTION, hash, 'save'),
+      createChunkId(repositoryInfo, 'src/b.ts', ChunkType.FUNCTION, hash, 'save'),
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.CLASS, hash, 'save'),
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'load'),
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hashContent('other'), 'save'),
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save', { parentName: 'Orders' }),
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save', { parentName: 'Users' }),
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save', { occurrence: 1 }),
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save', { splitGroupId: 'a', partIndex: 0 }),
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save', { splitGroupId: 'b', partIndex: 0 }),
+      createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save', { splitGroupId: 'a', partIndex: 1 }),
+    ];
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('keeps the ID of chunks without options', () => {
+    expect(createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save', { occurrence: 0 }))
+      .toBe(createChunkId(repositoryInfo, 'src/a.ts', ChunkType.FUNCTION, hash, 'save'));
+  });
+});
+
+describe('CodeChunker chunk IDs', () => {
+  it('gives identical methods of different classes their own IDs', () => {
+    const content = [
+      'class Orders {',
+      '  save() {',
+      '    return this.store.write();',
+      '  }',
+      '}',
+      '',
+      'class Users {',
+      '  save() {',
+      '    return this.store.write();',
+      '  }',
+      '}',
+      '',
+    ].join('\n');
+    const file = { path: 'src/models.ts', content, language: 'typescript', size: content.length };
+
+    const chunks = new CodeChunker(repositoryInfo).processFile(file);
+    const ids = chunks.map(chunk => chunk.id);
+
+    expect(chunks.filter(chunk => chunk.metadata.symbolName === 'save')).toHaveLength(2);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new CodeChunker(repositoryInfo).processFile(file).map(chunk => chunk.id)).toEqual(ids);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { ChunkType, CodeChunk, Tokenizer } from '@github-rag-system/common';
+import { ChunkSplitter } from '../src/chunk-splitter';
+
+/**
+ * Tokenizer counting one token per character, which keeps budgets easy to follow
+ */
+const characters: Tokenizer = { count: text => text.length };
+
+/**
+ * Creates a function chunk starting at line 10
+ */
+function chunk(lines: string[]): CodeChunk {
+  return {
+    id: 'function-original',
+    content: lines.join('\n'),
+    type: ChunkType.FUNCTION,
+    useCases: [],
+    metadata: {
+      repositoryInfo: { url: 'https://github.com/acme/app', owner: 'acme', name: 'app' },
+      filePath: 'src/app.ts',
+      startLine: 10,
+      endLine: 9 + lines.length,
+      symbolName: 'run',
+    },
+  };
+}
+
+describe('ChunkSplitter', () => {
+  it('keeps chunks within budget unchanged', () => {
+    const original = chunk(['function run() {', '  return 1;', '}']);
+
+    const parts = new ChunkSplitter({ function: { maxTokens: 100, overlapTokens: 0, tokenizer: characters } })
+      .split([original]);
+
+    expect(parts).toEqual([original]);
+  });
+
+  it('splits oversized chunks into linked parts that cover every line', () => {
+    const lines = Array.from({ length: 12 }, (_, index) => `line ${String(index + 1).padStart(2, '0')}`);
+
+    const parts = new ChunkSplitter({ function: { maxTokens: 40, overlapTokens: 8, tokenizer: characters } })
+      .split([chunk(lines)]);
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every(part => part.content.length + 1 <= 40)).toBe(true);
+    expect(parts[0].metadata.startLine).toBe(10);
+    expect(parts[parts.length - 1].metadata.endLine).toBe(21);
+    parts.forEach((part, index) => {
+      const partLines = part.content.split('\n');
+      expect(partLines).toEqual(lines.slice(part.metadata.startLine! - 10, part.metadata.endLine! - 9));
+      expect(part.metadata).toMatchObject({
+        splitGroupId: 'function-original',
+        partIndex: index,
+        partCount: parts.length,
+        previousPartId: parts[index - 1]?.id,
+        nextPartId: parts[index + 1]?.id,
+      });
+      // Consecutive parts repeat the last line of the previous part
+      if (index > 0) {
+        expect(part.metadata.startLine).toBe(parts[index - 1].metadata.endLine);
+      }
+    });
+    expect(new Set(parts.map(part => part.id)).size).toBe(parts.length);
+  });
+
+  it('prefers to break after blank lines', () => {
+    const lines = ['let a = 1;', 'let b = 2;', 'let c = 3;', 'let d = 4;', 'let e = 5;', 'let f = 6;', '', 'g();', 'h();'];
+
+    const parts = new ChunkSplitter({ function: { maxTokens: 75, overlapTokens: 0, tokenizer: characters } })
+      .split([chunk(lines)]);
+
+    expect(parts.map(part => part.content)).toEqual([lines.slice(0, 7).join('\n'), 'g();\nh();']);
+  });
+
+  it('otherwise breaks before lines at the outermost indentation', () => {
+    const lines = ['if (a) {', '  b();', '  c();', '  d();', '}', 'if (e) {', '  f();', '}'];
+
+    const parts = new ChunkSplitter({ function: { maxTokens: 45, overlapTokens: 0, tokenizer: characters } })
+      .split([chunk(lines)]);
+
+    expect(parts.map(part => part.content)).toEqual([lines.slice(0, 5).join('\n'), lines.slice(5).join('\n')]);
+  });
+
+  it('slices lines that alone exceed the budget', () => {
+    const line = 'x'.repeat(100);
+
+    const parts = new ChunkSplitter({ function: { maxTokens: 20, overlapTokens: 0, tokenizer: characters } })
+      .split([chunk([line])]);
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every(part => part.content.length <= 20)).toBe(true);
+    expect(parts.map(part => part.content).join('')).toBe(line);
+    expect(parts.every(part => part.metadata.startLine === 10 && part.metadata.endLine === 10)).toBe(true);
+  });
+
+  it('applies the limits configured for the chunk type', () => {
+    const lines = Array.from({ length: 10 }, () => 'a line of code');
+    const splitter = new ChunkSplitter({ file: { maxTokens: 40, overlapTokens: 0, tokenizer: characters } });
+
+    expect(splitter.split([chunk(lines)])).toHaveLength(1);
+    expect(splitter.split([{ ...chunk(lines), type: ChunkType.FILE }]).length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConversationTurn, UseCase } from '@github-rag-system/common';
+import { ConversationStore, conversationHistory } from '../src/conversations';
+
+/**
+ * Creates a turn asked at the given time
+ */
+function turn(question: string, askedAt: string): ConversationTurn {
+  return { question, query: question, answer: `Answer to ${question}`, citations: [], useCase: UseCase.EXPLANATION, askedAt };
+}
+
+describe('ConversationStore', () => {
+  let dir: string;
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'conversations-test-'));
+    store = new ConversationStore(path.join(dir, 'conversations.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records turns and titles the conversation after its first question', () => {
+    const { id } = store.create(['https://github.com/acme/app', 'https://github.com/acme/app']);
+
+    store.addTurn(id, turn('What   loads\nthe config?', '2026-01-01T00:00:00.000Z'));
+    store.addTurn(id, turn('Where is it called?', '2026-01-01T00:01:00.000Z'));
+
+    const conversation = store.get(id);
+    expect(conversation?.repositories).toEqual(['https://github.com/acme/app']);
+    expect(conversation?.title).toBe('What loads the config?');
+    expect(conversation?.updatedAt).toBe('2026-01-01T00:01:00.000Z');
+    expect(conversationHistory(conversation!).map(message => message.content)).toEqual([
+      'What   loads\nthe config?',
+      'Answer to What   loads\nthe config?',
+      'Where is it called?',
+      'Answer to Where is it called?',
+    ]);
+  });
+
+  it('lists conversations most recently active first', () => {
+    const first = store.create([], 'First');
+    const second = store.create([], 'Second');
+    store.addTurn(first.id, turn('q', '2999-01-01T00:00:00.000Z'));
+
+    expect(store.list().map(info => [info.id, info.turnCount])).toEqual([[first.id, 1], [second.id, 0]]);
+  });
+
+  it('deletes conversations', () => {
+    const { id } = store.create([]);
+
+    expect(store.delete(id)).toBe(true);
+    expect(store.delete(id)).toBe(false);
+    expect(store.get(id)).toBeUndefined();
+  });
+
+  it.each(['constructor', '__proto__', 'toString', 'hasOwnProperty'])(
+    'does not mistake the inherited property "%s" for a conversation',
+    id => {
+      store.create([]);
+
+      expect(store.get(id)).toBeUndefined();
+      expect(store.addTurn(id, turn('q', '2026-01-01T00:00:00.000Z'))).toBeUndefined();
+      expect(store.delete(id)).toBe(false);
+      expect(store.list()).toHaveLength(1);
+    }
+  );
+});
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileSelectionOptions } from '@github-rag-system/common';
+import { FileSelector, isSelectionRuleFile } from '../src/file-selector';
+import { GitHubRepository } from '../src/github-repo';
+import { commit, git } from './helpers';
+
+describe('FileSelector', () => {
+  let dir: string;
+  let origin: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-selector-test-'));
+    origin = path.join(dir, 'origin');
+    fs.mkdirSync(origin);
+    git(origin, 'init', '-q', '-b', 'main');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Commits the files, checks out the repository and selects among all its files
+   */
+  async function select(files: Record<string, string>, options?: FileSelectionOptions) {
+    commit(origin, files, 'files');
+    const repo = new GitHubRepository({ url: origin, owner: '', name: '' }, path.join(dir, 'work'));
+    await repo.cloneOrPull();
+
+    const selection = await new FileSelector(repo, options).select(await repo.listFiles());
+    const selected: string[] = [];
+    for await (const file of selection.files) {
+      selected.push(file.path);
+    }
+    const skipped = Object.fromEntries(selection.skipped.map(file => [file.path, file.reason]));
+    return { selected: selected.sort(), skipped };
+  }
+
+  it('skips dependencies, lockfiles, logs, bundles and the selection rules', async () => {
+    const { selected, skipped } = await select({
+      'src/app.ts': 'export const app = 1;',
+      'node_modules/lib/index.js': 'module.exports = 1;',
+      'pnpm-lock.yaml': 'lockfileVersion: 9',
+      'logs/server.log': 'started',
+      'public/app.min.js': 'var a=1;',
+      'public/app.js.map': '{}',
+      '.ragconfig.json': '{}',
+    });
+
+    expect(selected).toEqual(['src/app.ts']);
+    expect(skipped).toEqual({
+      'node_modules/lib/index.js': 'excluded',
+      'pnpm-lock.yaml': 'excluded',
+      'logs/server.log': 'excluded',
+      'public/app.min.js': 'excluded',
+      'public/app.js.map': 'excluded',
+      '.ragconfig.json': 'excluded',
+    });
+  });
+
+  it('skips committed files that .gitignore or linguist attributes rule out', async () => {
+    fs.mkdirSync(path.join(origin, 'dist'));
+    fs.writeFileSync(path.join(origin, 'dist', 'bundle.js'), 'bundle();');
+    git(origin, 'add', '-f', 'dist/bundle.js');
+
+    const { selected, skipped } = await select({
+      '.gitignore': 'dist/\n',
+      '.gitattributes': 'src/generated/** linguist-generated\nthird_party/** linguist-vendored=true\n',
+      'src/app.ts': 'export const app = 1;',
+      'src/generated/types.ts': 'export type A = 1;',
+      'third_party/lib.js': 'lib();',
+    });
+
+    expect(selected).toEqual(['.gitattributes', '.gitignore', 'src/app.ts']);
+    expect(skipped).toEqual({
+      'dist/bundle.js': 'gitignored',
+      'src/generated/types.ts': 'generated',
+      'third_party/lib.js': 'vendored',
+    });
+  });
+
+  it('applies the globs and size limit of .ragconfig.json and the request', async () => {
+    const { selected, skipped } = await select({
+      '.ragconfig.json': JSON.stringify({ include: ['src/**', 'docs/**/*.md'], exclude: ['*.snap'], maxFileSize: 1000 }),
+      'src/app.ts': 'export const app = 1;',
+      'src/__snapshots__/app.snap': 'snapshot',
+      'src/fixtures/data.json': 'x'.repeat(200),
+      'src/big.ts': `// ${'x'.repeat(2000)}\n`,
+      'docs/guide/intro.md': '# Intro',
+      'docs/notes.txt': 'notes',
+      'README.md': '# App',
+    }, { exclude: ['src/fixtures/**'] });
+
+    expect(selected).toEqual(['docs/guide/intro.md', 'src/app.ts']);
+    expect(skipped).toMatchObject({
+      'src/__snapshots__/app.snap': 'excluded',
+      'src/fixtures/data.json': 'excluded',
+      'src/big.ts': 'too-large',
+      'docs/notes.txt': 'not-included',
+      'README.md': 'not-included',
+    });
+  });
+
+  it('lets the request include and size limit take precedence over .ragconfig.json', async () => {
+    const { selected } = await select({
+      '.ragconfig.json': JSON.stringify({ include: ['src/**'], maxFileSize: 10 }),
+      'src/app.ts': 'export const app = 1;',
+      'lib/util.ts': 'export const util = 1;',
+    }, { include: ['lib/**'], maxFileSize: 1000 });
+
+    expect(selected).toEqual(['lib/util.ts']);
+  });
+
+  it('matches globs containing characters that are special in regular expressions', async () => {
+    const { selected } = await select({
+      'docs/$schema.md': '# Schema',
+      'docs/a^b.md': '# A^B',
+      'docs/(draft)+.md': '# Draft',
+      'docs/other.md': '# Other',
+    }, { include: ['docs/$*.md', 'a^b.md', 'docs/(draft)+.md'] });
+
+    expect(selected).toEqual(['docs/$schema.md', 'docs/(draft)+.md', 'docs/a^b.md']);
+  });
+
+  it('skips empty, binary and minified files', async () => {
+    const { selected, skipped } = await select({
+      'src/app.ts': 'export const app = 1;',
+      'src/empty.ts': '  \n',
+      'assets/logo.png': '\u0000PNG\u0000\u0000',
+      'public/vendor.js': `var a=${'1+'.repeat(1000)}1;`,
+    });
+
+    expect(selected).toEqual(['src/app.ts']);
+    expect(skipped).toEqual({ 'src/empty.ts': 'empty', 'assets/logo.png': 'binary', 'public/vendor.js': 'minified' });
+  });
+});
+
+describe('isSelectionRuleFile', () => {
+  it('recognizes ignore and attribute files in any directory and the root config', () => {
+    expect(['.gitignore', 'src/.gitignore', 'lib/.gitattributes', '.ragconfig.json'].every(isSelectionRuleFile)).toBe(true);
+    expect(['src/.ragconfig.json', 'gitignore.md'].some(isSelectionRuleFile)).toBe(false);
+  });
+});
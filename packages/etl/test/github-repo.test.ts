@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GitHubRepository, isValidRefName } from '../src/github-repo';
+import { commit, git } from './helpers';
+
+describe('isValidRefName', () => {
+  it.each(['main', 'feature/login', 'v1.0.0', 'release-2.x', '0123abcd', 'user@host'])('accepts "%s"', ref => {
+    expect(isValidRefName(ref)).toBe(true);
+  });
+
+  it.each([
+    '', '.', '..', '@', '-f', '--upload-pack=x', 'a..b', '../main', 'main/..', '.hidden', 'feature/.x',
+    'main.lock', 'a/b.lock/c', 'main.', '/main', 'main/', 'a//b', 'a b', 'a~1', 'a^', 'a:b', 'a?', 'a*', 'a[b',
+    'a\\b', 'a@{1}', 'a\u0001b',
+  ])('rejects "%s"', ref => {
+    expect(isValidRefName(ref)).toBe(false);
+  });
+});
+
+describe('GitHubRepository', () => {
+  let dir: string;
+  let origin: string;
+  let workDir: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'github-repo-test-'));
+    origin = path.join(dir, 'origin');
+    workDir = path.join(dir, 'work');
+    fs.mkdirSync(origin);
+    git(origin, 'init', '-q', '-b', 'main');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses refs that are not valid ref names', () => {
+    for (const ref of ['..', '.', '-x']) {
+      expect(() => new GitHubRepository({ url: origin, owner: '', name: '', ref }, workDir)).toThrow(/Invalid ref name/);
+    }
+  });
+
+  it('checks out refs in worktrees named by a hash of the ref', async () => {
+    commit(origin, { 'a.txt': 'a' }, 'first');
+    git(origin, 'tag', 'release/v1');
+    const repo = new GitHubRepository({ url: origin, owner: '', name: '', ref: 'release/v1' }, workDir);
+
+    const checkout = await repo.cloneOrPull();
+
+    expect(path.dirname(checkout)).toBe(`${repo.getClonePath()}.worktrees`);
+    expect(path.basename(checkout)).toMatch(/^[0-9a-f]{16}$/);
+    expect(fs.readFileSync(path.join(checkout, 'a.txt'), 'utf-8')).toBe('a');
+
+    await repo.removeWorktree();
+    expect(fs.existsSync(checkout)).toBe(false);
+    expect(fs.existsSync(repo.getClonePath())).toBe(true);
+  });
+
+  it('lists added, modified, deleted and renamed files between commits', async () => {
+    const body = Array.from({ length: 20 }, (_, index) => `export const value${index} = ${index};`).join('\n');
+    const from = commit(origin, { 'src/a.ts': 'a', 'src/b.ts': 'b', 'src/old name.ts': body }, 'first');
+    const to = commit(origin, {
+      'src/a.ts': 'changed',
+      'src/b.ts': null,
+      'src/c.ts': 'c',
+      'src/old name.ts': null,
+      'src/new näme.ts': `${body}\n`,
+    }, 'second');
+    const repo = new GitHubRepository({ url: origin, owner: '', name: '' }, workDir);
+    await repo.cloneOrPull();
+
+    const changes = await repo.getChangedFiles(from, to);
+
+    expect(changes).toEqual([
+      { status: 'modified', path: 'src/a.ts' },
+      { status: 'deleted', path: 'src/b.ts' },
+      { status: 'added', path: 'src/c.ts' },
+      { status: 'renamed', previousPath: 'src/old name.ts', path: 'src/new näme.ts' },
+    ]);
+    expect(await repo.getChangedFiles(to, to)).toEqual([]);
+  });
+
+  it('fetches a previously indexed commit missing from the clone', async () => {
+    commit(origin, { 'a.txt': 'a' }, 'first');
+    const repo = new GitHubRepository({ url: origin, owner: '', name: '' }, workDir);
+    await repo.cloneOrPull();
+    git(origin, 'checkout', '-q', '-b', 'side');
+    const side = commit(origin, { 'a.txt': 'side' }, 'side');
+
+    expect(await repo.hasCommit(side)).toBe(false);
+    expect(await repo.fetchCommit(side)).toBe(true);
+    expect(await repo.hasCommit('0'.repeat(40))).toBe(false);
+  });
+});
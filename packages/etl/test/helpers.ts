@@ -0,0 +1,69 @@
+/**
+ * Fixtures shared by the tests
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatMessage, ChatProvider } from '@github-rag-system/common';
+
+/**
+ * Chat provider replying with a fixed text, streamed word by word, or failing
+ * when no text is given. Records the messages of every request.
+ */
+export class FixedReplyProvider implements ChatProvider {
+  readonly id = 'fixed';
+  messages: ChatMessage[][] = [];
+
+  constructor(private reply?: string) {}
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    this.messages.push(messages);
+    if (this.reply === undefined) {
+      throw new Error('model unavailable');
+    }
+    return this.reply;
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncGenerator<string> {
+    const reply = await this.complete(messages);
+    for (const word of reply.split(/(?<= )/)) {
+      yield word;
+    }
+  }
+}
+
+/**
+ * Runs git in a directory with a fixed identity
+ */
+export function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+    },
+  }).trim();
+}
+
+/**
+ * Writes files into a repository and commits them
+ */
+export function commit(repoPath: string, files: Record<string, string | null>, message: string): string {
+  for (const [file, content] of Object.entries(files)) {
+    const filePath = path.join(repoPath, file);
+    if (content === null) {
+      fs.rmSync(filePath);
+    } else {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    }
+  }
+  git(repoPath, 'add', '-A');
+  git(repoPath, 'commit', '-q', '-m', message);
+  return git(repoPath, 'rev-parse', 'HEAD');
+}
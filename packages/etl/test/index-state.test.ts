@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { IndexStateStore } from '../src/index-state';
+
+describe('IndexStateStore', () => {
+  const url = 'https://github.com/acme/app';
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'index-state-test-'));
+    filePath = path.join(dir, 'index-state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records the indexed commit and its options per ref', () => {
+    new IndexStateStore(filePath).set(url, undefined, 'aaa', 'include:src/**', true, 'languages');
+    new IndexStateStore(filePath).set(url, 'v1', 'bbb');
+
+    const store = new IndexStateStore(filePath);
+    expect(store.get(url)).toMatchObject({
+      commit: 'aaa',
+      fileSelection: 'include:src/**',
+      summaries: true,
+      languages: 'languages',
+    });
+    expect(store.get(url, '')?.commit).toBe('aaa');
+    expect(store.get(url, 'v1')).toEqual({ commit: 'bbb', indexedAt: expect.any(String) });
+    expect(store.get(url, 'v2')).toBeUndefined();
+    expect(store.get('https://github.com/acme/other')).toBeUndefined();
+  });
+
+  it('forgets the commit of one ref', () => {
+    const store = new IndexStateStore(filePath);
+    store.set(url, undefined, 'aaa');
+    store.set(url, 'v1', 'bbb');
+
+    store.delete(url, 'v1');
+
+    expect(store.get(url, 'v1')).toBeUndefined();
+    expect(store.get(url)?.commit).toBe('aaa');
+  });
+
+  it('treats a corrupt state file as empty', () => {
+    fs.writeFileSync(filePath, '{ not json');
+
+    expect(new IndexStateStore(filePath).get(url)).toBeUndefined();
+  });
+});
@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { readJsonFile, writeJsonFile } from '../src/json-file';
+
+describe('JSON files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-file-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads back what was written, creating the directory', () => {
+    const filePath = path.join(dir, 'nested', 'state.json');
+
+    writeJsonFile(filePath, { a: 1 });
+    writeJsonFile(filePath, { a: 2 });
+
+    expect(readJsonFile(filePath, {})).toEqual({ a: 2 });
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['state.json']);
+  });
+
+  it('treats a missing or corrupt file as empty', () => {
+    const filePath = path.join(dir, 'state.json');
+    expect(readJsonFile(filePath, [])).toEqual([]);
+
+    fs.writeFileSync(filePath, '{"a":');
+    expect(readJsonFile(filePath, [])).toEqual([]);
+  });
+
+  it('leaves no temporary file behind when writing fails', () => {
+    const filePath = path.join(dir, 'state.json');
+    fs.mkdirSync(filePath);
+
+    expect(() => writeJsonFile(filePath, { a: 1 })).toThrow();
+    expect(fs.readdirSync(dir)).toEqual(['state.json']);
+  });
+});
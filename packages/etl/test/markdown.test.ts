@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { extractMarkdownSections } from '../src/parsers/markdown';
+
+describe('extractMarkdownSections', () => {
+  it('splits at headings and records the enclosing headings', () => {
+    const content = [
+      'Intro text',
+      '',
+      '# Guide',
+      'Welcome.',
+      '## Install',
+      'Run the installer.',
+      '### Linux',
+      'Use the package.',
+      '## Usage',
+      'Start it.',
+      '',
+    ].join('\n');
+
+    expect(extractMarkdownSections(content)).toEqual([
+      { title: '', level: 0, headingPath: [], startLine: 1, endLine: 1 },
+      { title: 'Guide', level: 1, headingPath: ['Guide'], startLine: 3, endLine: 4 },
+      { title: 'Install', level: 2, headingPath: ['Guide', 'Install'], startLine: 5, endLine: 6 },
+      { title: 'Linux', level: 3, headingPath: ['Guide', 'Install', 'Linux'], startLine: 7, endLine: 8 },
+      { title: 'Usage', level: 2, headingPath: ['Guide', 'Usage'], startLine: 9, endLine: 10 },
+    ]);
+  });
+
+  it('recognizes setext headings and closing hashes', () => {
+    const content = [
+      'Title',
+      '=====',
+      'Text.',
+      '',
+      'Section',
+      '-------',
+      '## Details ##',
+    ].join('\n');
+
+    expect(extractMarkdownSections(content).map(section => [section.title, section.level, section.startLine])).toEqual([
+      ['Title', 1, 1],
+      ['Section', 2, 5],
+      ['Details', 2, 7],
+    ]);
+  });
+
+  it('ignores headings in fenced code blocks and front matter', () => {
+    const content = [
+      '---',
+      'title: Notes',
+      '---',
+      '# Notes',
+      '```sh',
+      '# not a heading',
+      '```',
+      '~~~~',
+      '## also not a heading',
+      '~~~',
+      '~~~~',
+    ].join('\n');
+
+    expect(extractMarkdownSections(content)).toEqual([
+      { title: 'Notes', level: 1, headingPath: ['Notes'], startLine: 4, endLine: 11 },
+    ]);
+  });
+
+  it('does not treat a thematic break after a blank line as a heading', () => {
+    const sections = extractMarkdownSections('# A\n\n---\n\nText');
+
+    expect(sections.map(section => section.title)).toEqual(['A']);
+  });
+
+  it('returns no sections for a blank document', () => {
+    expect(extractMarkdownSections('\n\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseNotebook, renderNotebook } from '../src/parsers/notebook';
+
+describe('parseNotebook', () => {
+  it('reads code and markdown cells and the kernel language', () => {
+    const notebook = parseNotebook(JSON.stringify({
+      metadata: { kernelspec: { language: 'Python' } },
+      cells: [
+        { cell_type: 'markdown', source: ['# Analysis\n', 'Loads the data.'] },
+        { cell_type: 'raw', source: 'ignored' },
+        { cell_type: 'code', source: 'df = load()\n', outputs: [{ text: 'output' }] },
+        { cell_type: 'code', source: ['  \n'] },
+      ],
+    }));
+
+    expect(notebook).toEqual({
+      language: 'python',
+      cells: [
+        { index: 0, cellType: 'markdown', source: '# Analysis\nLoads the data.' },
+        { index: 2, cellType: 'code', source: 'df = load()\n' },
+      ],
+    });
+  });
+
+  it('prefers the language info over the kernel spec', () => {
+    const notebook = parseNotebook(JSON.stringify({
+      metadata: { language_info: { name: 'R' }, kernelspec: { language: 'python' } },
+      cells: [],
+    }));
+
+    expect(notebook?.language).toBe('r');
+  });
+
+  it('skips malformed cells and sources', () => {
+    const notebook = parseNotebook(JSON.stringify({
+      metadata: { language_info: { name: 3 } },
+      cells: [null, 'cell', { cell_type: 'code', source: 42 }, { cell_type: 'code', source: ['a = 1\n', 7, 'b = 2'] }],
+    }));
+
+    expect(notebook).toEqual({ language: undefined, cells: [{ index: 3, cellType: 'code', source: 'a = 1\nb = 2' }] });
+  });
+
+  it('returns undefined for content that is not a notebook', () => {
+    expect(parseNotebook('{"cells":')).toBeUndefined();
+    expect(parseNotebook('[]')).toBeUndefined();
+    expect(parseNotebook('{"metadata": {}}')).toBeUndefined();
+  });
+});
+
+describe('renderNotebook', () => {
+  it('fences code cells in the notebook language', () => {
+    const text = renderNotebook({
+      language: 'python',
+      cells: [
+        { index: 0, cellType: 'markdown', source: '# Analysis\n' },
+        { index: 1, cellType: 'code', source: 'df = load()\n' },
+      ],
+    });
+
+    expect(text).toBe('# Analysis\n\n```python\ndf = load()\n```');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ChunkType, ConversationTurn, UseCase } from '@github-rag-system/common';
+import { QueryRewriter } from '../src/query-rewriter';
+import { FixedReplyProvider } from './helpers';
+
+/**
+ * Creates a turn of a conversation
+ */
+function turn(question: string, answer: string, citedFile?: string): ConversationTurn {
+  return {
+    question,
+    query: question,
+    answer,
+    citations: citedFile ? [{
+      index: 1,
+      chunkId: citedFile,
+      type: ChunkType.FUNCTION,
+      repositoryUrl: 'https://github.com/acme/app',
+      filePath: citedFile,
+      symbolName: 'loadConfig',
+      score: 1,
+      cited: true,
+    }] : [],
+    useCase: UseCase.EXPLANATION,
+    askedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('QueryRewriter', () => {
+  it('returns the first question of a conversation without asking the model', async () => {
+    const provider = new FixedReplyProvider('unused');
+
+    await expect(new QueryRewriter(provider).rewrite([], 'What loads the config?')).resolves.toBe('What loads the config?');
+    expect(provider.messages).toHaveLength(0);
+  });
+
+  it('shows the model the recent turns with their cited sources', async () => {
+    const provider = new FixedReplyProvider('  Where is loadConfig in src/config.ts called?\nBecause...');
+    const turns = [
+      turn('First question', 'First answer'),
+      turn('Second question', 'Second answer'),
+      turn('Third question', 'Third answer'),
+      turn('What loads the config?', 'loadConfig does [1].', 'src/config.ts'),
+    ];
+
+    const query = await new QueryRewriter(provider).rewrite(turns, 'Where is it called?');
+
+    expect(query).toBe('Where is loadConfig in src/config.ts called?');
+    const prompt = provider.messages[0][1].content;
+    expect(prompt).not.toContain('First question');
+    expect(prompt).toContain('User: What loads the config?\nAssistant: loadConfig does [1].\nSources: src/config.ts (loadConfig)');
+    expect(prompt).toMatch(/Follow-up question: Where is it called\?$/);
+  });
+
+  it('shortens long earlier answers', async () => {
+    const provider = new FixedReplyProvider('query');
+
+    await new QueryRewriter(provider).rewrite([turn('q', 'a'.repeat(1500))], 'And then?');
+
+    expect(provider.messages[0][1].content).toContain(`Assistant: ${'a'.repeat(1000)} [...]`);
+  });
+
+  it('falls back to the question when the model returns nothing', async () => {
+    const rewriter = new QueryRewriter(new FixedReplyProvider(' \n'));
+
+    await expect(rewriter.rewrite([turn('q', 'a')], 'And then?')).resolves.toBe('And then?');
+  });
+});
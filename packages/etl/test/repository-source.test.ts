@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidRepositorySourceError, buildGitEnvironment, parseRepositorySource } from '../src/repository-source';
+
+describe('parseRepositorySource', () => {
+  it('parses HTTPS URLs, keeping nested groups in the owner', () => {
+    expect(parseRepositorySource('https://GitLab.example.com:8443/group/sub/project.git')).toEqual({
+      kind: 'https',
+      cloneUrl: 'https://GitLab.example.com:8443/group/sub/project.git',
+      url: 'https://gitlab.example.com:8443/group/sub/project',
+      host: 'gitlab.example.com:8443',
+      owner: 'group/sub',
+      name: 'project',
+    });
+  });
+
+  it('gives SSH URLs and scp-like locations the identity of the HTTPS URL', () => {
+    const expected = { kind: 'ssh', url: 'https://github.com/acme/app', host: 'github.com', owner: 'acme', name: 'app' };
+
+    expect(parseRepositorySource('ssh://git@github.com:2222/acme/app.git')).toMatchObject(expected);
+    expect(parseRepositorySource('git@github.com:acme/app.git')).toMatchObject(expected);
+    expect(parseRepositorySource('github.com:acme/app')).toMatchObject(expected);
+  });
+
+  it('resolves local paths and file URLs', () => {
+    expect(parseRepositorySource('repos/app.git', '/srv')).toEqual({
+      kind: 'local',
+      cloneUrl: '/srv/repos/app.git',
+      url: 'file:///srv/repos/app.git',
+      host: '',
+      owner: 'repos',
+      name: 'app',
+    });
+    expect(parseRepositorySource('file:///srv/repos/app/')).toMatchObject({ kind: 'local', cloneUrl: '/srv/repos/app' });
+  });
+
+  it.each([
+    ['', 'empty'],
+    ['http://github.com/acme/app', 'plain HTTP'],
+    ['ftp://github.com/acme/app', 'an unsupported scheme'],
+    ['https://github.com/', 'no repository path'],
+    ['https://github.com/acme/..%2Fapp', 'an encoded parent directory segment'],
+    ['git@github.com:acme/./app', 'a current directory segment'],
+  ])('rejects "%s" (%s)', location => {
+    expect(() => parseRepositorySource(location)).toThrow(InvalidRepositorySourceError);
+  });
+
+  it.each([
+    '..:owner/name',
+    '.:owner/name',
+    'git@..:owner/name.git',
+    'ssh://../owner/name',
+    'ssh://./owner/name',
+    '--upload-pack=x:foo/bar',
+    '-oProxyCommand=x:foo/bar',
+    'git@-host:owner/name',
+    'https://-host.com/owner/name',
+  ])('rejects the host of "%s"', location => {
+    expect(() => parseRepositorySource(location)).toThrow(/Invalid repository host/);
+  });
+
+  it('accepts IP addresses as hosts', () => {
+    expect(parseRepositorySource('ssh://git@[::1]:22/acme/app').host).toBe('[::1]');
+    expect(parseRepositorySource('git@10.0.0.5:acme/app').host).toBe('10.0.0.5');
+  });
+});
+
+describe('buildGitEnvironment', () => {
+  it('sends the token of the host as a header scoped to its origin', () => {
+    const env = buildGitEnvironment(
+      parseRepositorySource('https://github.com/acme/app'),
+      { tokens: { 'github.com': { token: 'secret' }, 'gitlab.com': { token: 'other' } } }
+    );
+
+    expect(env).toEqual({
+      GIT_TERMINAL_PROMPT: '0',
+      GIT_CONFIG_COUNT: '1',
+      GIT_CONFIG_KEY_0: 'http.https://github.com/.extraHeader',
+      GIT_CONFIG_VALUE_0: `Authorization: Basic ${Buffer.from('x-access-token:secret').toString('base64')}`,
+    });
+  });
+
+  it('runs SSH in batch mode with the configured key', () => {
+    const env = buildGitEnvironment(parseRepositorySource('git@github.com:acme/app'), { sshKeyPath: '/keys/deploy key' });
+
+    expect(env.GIT_SSH_COMMAND).toBe(
+      "ssh -o BatchMode=yes -i '/keys/deploy key' -o IdentitiesOnly=yes -o StrictHostKeyChecking=accept-new"
+    );
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { VectorDBClient } from '@github-rag-system/db';
+import { ChunkType, CodeChunk, SearchResult, UseCase, VectorSearchParams } from '@github-rag-system/common';
+import { StackTraceMatcher, parseStackTrace } from '../src/stack-traces';
+
+const repositoryInfo = { url: 'https://github.com/acme/app', owner: 'acme', name: 'app' };
+
+/**
+ * Creates a chunk of an indexed file
+ */
+function chunk(id: string, filePath: string, type: ChunkType, lines?: [number, number], symbolName?: string): CodeChunk {
+  return {
+    id,
+    content: `// ${id}`,
+    type,
+    useCases: [UseCase.BUG_FIXING],
+    metadata: { repositoryInfo, filePath, startLine: lines?.[0], endLine: lines?.[1], symbolName },
+  };
+}
+
+/**
+ * Creates a matcher whose database returns the given chunks and records its calls
+ */
+function createMatcher(chunks: CodeChunk[]) {
+  const calls: { filePaths: string[]; params: Pick<VectorSearchParams, 'useCase' | 'filters'>; signal?: AbortSignal }[] = [];
+  const dbClient = {
+    async getChunksByFilePath(
+      filePaths: string[],
+      params: Pick<VectorSearchParams, 'useCase' | 'filters'>,
+      signal?: AbortSignal
+    ) {
+      calls.push({ filePaths, params, signal });
+      return chunks;
+    },
+  } as unknown as VectorDBClient;
+  return { matcher: new StackTraceMatcher(dbClient), calls };
+}
+
+const NODE_TRACE = [
+  'TypeError: Cannot read properties of undefined (reading \'port\')',
+  '    at loadConfig (/app/src/config.js:14:22)',
+  '    at Object.<anonymous> (/app/src/index.js:3:1)',
+  '    at Module._compile (node:internal/modules/cjs/loader:1105:14)',
+  '    at require (/app/node_modules/express/index.js:9:3)',
+].join('\n');
+
+describe('parseStackTrace', () => {
+  it('finds Node.js frames and skips runtime and dependency frames', () => {
+    expect(parseStackTrace(NODE_TRACE)).toEqual([
+      { format: 'node', filePath: '/app/src/config.js', functionName: 'loadConfig', line: 14 },
+      { format: 'node', filePath: '/app/src/index.js', functionName: 'Object.<anonymous>', line: 3 },
+    ]);
+  });
+
+  it('puts the innermost Python frame first', () => {
+    const trace = [
+      'Traceback (most recent call last):',
+      '  File "/srv/app/main.py", line 10, in <module>',
+      '    run()',
+      '  File "/srv/app/jobs/runner.py", line 42, in run',
+      '    raise ValueError("bad job")',
+      '  File "/usr/lib/python3.11/json/__init__.py", line 346, in loads',
+      'ValueError: bad job',
+    ].join('\n');
+
+    expect(parseStackTrace(trace).map(frame => [frame.filePath, frame.line, frame.functionName])).toEqual([
+      ['/srv/app/jobs/runner.py', 42, 'run'],
+      ['/srv/app/main.py', 10, '<module>'],
+    ]);
+  });
+
+  it('derives Java paths from the package and skips JDK frames', () => {
+    const trace = [
+      'java.lang.IllegalStateException: closed',
+      '\tat com.acme.store.OrderService.save(OrderService.java:57)',
+      '\tat app//com.acme.web.OrderController.<init>(OrderController.java:21)',
+      '\tat java.base/java.util.ArrayList.forEach(ArrayList.java:1511)',
+    ].join('\n');
+
+    expect(parseStackTrace(trace)).toEqual([
+      { format: 'java', filePath: 'com/acme/store/OrderService.java', functionName: 'OrderService.save', line: 57 },
+      { format: 'java', filePath: 'com/acme/web/OrderController.java', functionName: 'OrderController.<init>', line: 21 },
+    ]);
+  });
+
+  it('finds Go frames of the main module and skips the standard library', () => {
+    const trace = [
+      'panic: runtime error: index out of range [3] with length 3',
+      '',
+      'goroutine 1 [running]:',
+      'main.(*Server).handle(0xc000010000)',
+      '\t/home/dev/app/server.go:88 +0x1d',
+      'net/http.HandlerFunc.ServeHTTP(0x0)',
+      '\t/usr/local/go/src/net/http/server.go:2136 +0x29',
+    ].join('\n');
+
+    expect(parseStackTrace(trace)).toEqual([
+      { format: 'go', filePath: '/home/dev/app/server.go', functionName: 'main.(*Server).handle', line: 88 },
+    ]);
+  });
+
+  it('returns no frames for a query without a stack trace', () => {
+    expect(parseStackTrace('Why is the config not loaded?')).toEqual([]);
+  });
+});
+
+describe('StackTraceMatcher', () => {
+  const params: VectorSearchParams = {
+    query: NODE_TRACE,
+    useCase: [UseCase.BUG_FIXING],
+    limit: 3,
+    filters: { repository: repositoryInfo.url },
+  };
+
+  it('moves the narrowest chunk containing the frame line to the top', async () => {
+    const { matcher } = createMatcher([
+      chunk('config-file', 'src/config.js', ChunkType.FILE),
+      chunk('config-class', 'src/config.js', ChunkType.CLASS, [1, 40], 'Config'),
+      chunk('load-config', 'src/config.js', ChunkType.FUNCTION, [10, 20], 'loadConfig'),
+    ]);
+    const result: SearchResult = {
+      chunks: [chunk('other', 'src/server.js', ChunkType.FUNCTION, [1, 5]), chunk('config-class', 'src/config.js', ChunkType.CLASS, [1, 40])],
+      scores: [0.9, 0.5],
+    };
+
+    await matcher.apply(params, result);
+
+    expect(result.chunks.map(hit => hit.id)).toEqual(['load-config', 'other', 'config-class']);
+    expect(result.scores).toEqual([0.9, 0.9, 0.5]);
+    expect(result.frameMatches?.[0]).toMatchObject({ frameIndex: 0, matchedBy: ['file', 'line', 'symbol'], forced: true });
+    expect(result.frameMatches?.slice(1)).toEqual([null, null]);
+  });
+
+  it('keeps the score of a matched chunk the search already found', async () => {
+    const { matcher } = createMatcher([chunk('load-config', 'src/config.js', ChunkType.FUNCTION, [10, 20])]);
+    const result: SearchResult = {
+      chunks: [chunk('other', 'src/server.js', ChunkType.FUNCTION, [1, 5]), chunk('load-config', 'src/config.js', ChunkType.FUNCTION, [10, 20])],
+      scores: [0.9, 0.4],
+    };
+
+    await matcher.apply(params, result);
+
+    expect(result.chunks.map(hit => hit.id)).toEqual(['load-config', 'other']);
+    expect(result.scores).toEqual([0.4, 0.9]);
+    expect(result.frameMatches?.[0]).toMatchObject({ matchedBy: ['file', 'line'], forced: false });
+  });
+
+  it('prefers the file sharing the longest path suffix with the frame', async () => {
+    const { matcher } = createMatcher([
+      chunk('root-config', 'config.js', ChunkType.FUNCTION, [10, 20]),
+      chunk('src-config', 'src/config.js', ChunkType.FILE),
+      chunk('lib-config', 'lib/config.js', ChunkType.FUNCTION, [1, 30]),
+    ]);
+    const result: SearchResult = { chunks: [], scores: [] };
+
+    await matcher.apply(params, result);
+
+    expect(result.chunks[0].id).toBe('src-config');
+    expect(result.chunks.map(hit => hit.id)).not.toContain('lib-config');
+  });
+
+  it('cuts the results back to the search limit', async () => {
+    const { matcher } = createMatcher([
+      chunk('load-config', 'src/config.js', ChunkType.FUNCTION, [10, 20]),
+      chunk('index-file', 'src/index.js', ChunkType.FILE),
+    ]);
+    const result: SearchResult = {
+      chunks: [1, 2, 3].map(i => chunk(`hit-${i}`, `src/hit-${i}.js`, ChunkType.FILE)),
+      scores: [0.9, 0.8, 0.7],
+    };
+
+    await matcher.apply(params, result);
+
+    expect(result.chunks.map(hit => hit.id)).toEqual(['load-config', 'index-file', 'hit-1']);
+    expect(result.scores).toHaveLength(3);
+    expect(result.frameMatches).toHaveLength(3);
+  });
+
+  it('looks up the frame paths within the use cases and filters of the search', async () => {
+    const { matcher, calls } = createMatcher([]);
+
+    await matcher.apply(params, { chunks: [], scores: [] });
+
+    expect(calls).toEqual([{ filePaths: ['/app/src/config.js', '/app/src/index.js'], params }]);
+  });
+
+  it('passes the abort signal on to the lookup', async () => {
+    const { matcher, calls } = createMatcher([]);
+    const controller = new AbortController();
+
+    await matcher.apply(params, { chunks: [], scores: [] }, controller.signal);
+
+    expect(calls[0].signal).toBe(controller.signal);
+  });
+
+  it('leaves results without a stack trace in the query unchanged', async () => {
+    const { matcher, calls } = createMatcher([]);
+    const result: SearchResult = { chunks: [chunk('hit', 'src/hit.js', ChunkType.FILE)], scores: [0.5] };
+
+    await matcher.apply({ ...params, query: 'Why is the config not loaded?' }, result);
+
+    expect(calls).toHaveLength(0);
+    expect(result).toEqual({ chunks: [chunk('hit', 'src/hit.js', ChunkType.FILE)], scores: [0.5] });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { extractConfigEntries } from '../src/parsers/structured';
+
+describe('extractConfigEntries', () => {
+  it('splits JSON at the keys of the root object', () => {
+    const content = [
+      '{',
+      '  // build settings',
+      '  "name": "app",',
+      '  "scripts": {',
+      '    "build": "tsc"',
+      '  },',
+      '  "tags": ["a", "b"]',
+      '}',
+    ].join('\n');
+
+    expect(extractConfigEntries(content, 'json')).toEqual([
+      { key: 'name', startLine: 3, endLine: 3 },
+      { key: 'scripts', startLine: 4, endLine: 6 },
+      { key: 'tags', startLine: 7, endLine: 7 },
+    ]);
+  });
+
+  it('does not split JSON whose keys share a line or whose root is an array', () => {
+    expect(extractConfigEntries('{"a": 1, "b": 2}', 'json')).toEqual([]);
+    expect(extractConfigEntries('[\n{"a": 1},\n{"b": 2}\n]', 'json')).toEqual([]);
+  });
+
+  it('splits YAML at unindented keys and leaves trailing comments out', () => {
+    const content = [
+      'name: ci',
+      '"on":',
+      '  push:',
+      '    branches: [main]',
+      '',
+      '# jobs follow',
+      'jobs:',
+      '  test:',
+      '    script: |',
+      '      key: not a key',
+    ].join('\n');
+
+    expect(extractConfigEntries(content, 'yaml')).toEqual([
+      { key: 'name', startLine: 1, endLine: 1 },
+      { key: 'on', startLine: 2, endLine: 4 },
+      { key: 'jobs', startLine: 7, endLine: 10 },
+    ]);
+  });
+
+  it('splits TOML at root keys and tables, skipping multi-line strings', () => {
+    const content = [
+      'title = "demo"',
+      'description = """',
+      'name = "inside the string"',
+      '"""',
+      '[package]',
+      'version = "1.0.0"',
+      '[[bin]]',
+      'name = "cli"',
+    ].join('\n');
+
+    expect(extractConfigEntries(content, 'toml')).toEqual([
+      { key: 'title', startLine: 1, endLine: 1 },
+      { key: 'description', startLine: 2, endLine: 4 },
+      { key: 'package', startLine: 5, endLine: 6 },
+      { key: 'bin', startLine: 7, endLine: 8 },
+    ]);
+  });
+
+  it('returns no entries for a single key or an unknown language', () => {
+    expect(extractConfigEntries('name: ci\n', 'yaml')).toEqual([]);
+    expect(extractConfigEntries('a = 1\nb = 2\n', 'ini')).toEqual([]);
+  });
+});
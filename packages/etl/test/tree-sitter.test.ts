@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { extractSymbolsWithTreeSitter, supportsTreeSitter } from '../src/parsers/tree-sitter';
+
+/**
+ * Extracts the symbols of a source file given as lines
+ */
+function extract(filePath: string, language: string, lines: string[]) {
+  const content = lines.join('\n');
+  return extractSymbolsWithTreeSitter({ path: filePath, content, language, size: content.length });
+}
+
+describe('extractSymbolsWithTreeSitter', () => {
+  it('spans TypeScript symbols from their export keyword and decorators to their end', () => {
+    const symbols = extract('src/orders.ts', 'typescript', [
+      '/** Order storage */',
+      '@Injectable()',
+      'export class Orders {',
+      '  private count = 0;',
+      '',
+      '  save(order: Order): void {',
+      '    const log = () => console.log(order);',
+      '    log();',
+      '  }',
+      '',
+      '  handle = (event: Event) => {',
+      '    this.count++;',
+      '  };',
+      '}',
+      '',
+      'export const total = (orders: Order[]) =>',
+      '  orders.length;',
+      '',
+      'export function load(): Orders {',
+      '  return new Orders();',
+      '}',
+      '',
+      'setTimeout(() => load(), 0);',
+    ]);
+
+    expect(symbols).toEqual([
+      { name: 'Orders', kind: 'class', startLine: 2, endLine: 14, parentName: undefined },
+      { name: 'save', kind: 'function', startLine: 6, endLine: 9, parentName: 'Orders' },
+      { name: 'handle', kind: 'function', startLine: 11, endLine: 13, parentName: 'Orders' },
+      { name: 'total', kind: 'function', startLine: 16, endLine: 17, parentName: undefined },
+      { name: 'load', kind: 'function', startLine: 19, endLine: 21, parentName: undefined },
+    ]);
+  });
+
+  it('parses TSX files with the TSX grammar', () => {
+    const symbols = extract('src/App.tsx', 'typescript', [
+      'export function App() {',
+      '  return <div className="app" />;',
+      '}',
+    ]);
+
+    expect(symbols).toEqual([{ name: 'App', kind: 'function', startLine: 1, endLine: 3, parentName: undefined }]);
+  });
+
+  it('includes Python decorators and keeps nested functions in their parent', () => {
+    const symbols = extract('app/models.py', 'python', [
+      '@dataclass',
+      'class Order:',
+      '    id: int',
+      '',
+      '    @property',
+      '    def total(self):',
+      '        def add(a, b):',
+      '            return a + b',
+      '        return add(1, 2)',
+      '',
+      'def load():',
+      '    return Order(1)',
+    ]);
+
+    expect(symbols).toEqual([
+      { name: 'Order', kind: 'class', startLine: 1, endLine: 9, parentName: undefined },
+      { name: 'total', kind: 'function', startLine: 5, endLine: 9, parentName: 'Order' },
+      { name: 'load', kind: 'function', startLine: 11, endLine: 12, parentName: undefined },
+    ]);
+  });
+
+  it('attributes Go methods to their receiver type and skips type aliases', () => {
+    const symbols = extract('orders.go', 'go', [
+      'package orders',
+      '',
+      'type ID = string',
+      '',
+      'type Order struct {',
+      '\tID ID',
+      '}',
+      '',
+      'func (o *Order) Save() error {',
+      '\treturn nil',
+      '}',
+      '',
+      'func Load() *Order {',
+      '\treturn &Order{}',
+      '}',
+    ]);
+
+    expect(symbols).toEqual([
+      { name: 'Order', kind: 'class', startLine: 5, endLine: 7, parentName: undefined },
+      { name: 'Save', kind: 'function', startLine: 9, endLine: 11, parentName: 'Order' },
+      { name: 'Load', kind: 'function', startLine: 13, endLine: 15, parentName: undefined },
+    ]);
+  });
+
+  it('finds Java classes, constructors, methods and nested types', () => {
+    const symbols = extract('src/Orders.java', 'java', [
+      'public class Orders {',
+      '  public Orders() {',
+      '  }',
+      '',
+      '  public void save(Order order) {',
+      '    store.write(order);',
+      '  }',
+      '',
+      '  enum Status { OPEN, CLOSED }',
+      '}',
+    ]);
+
+    expect(symbols).toEqual([
+      { name: 'Orders', kind: 'class', startLine: 1, endLine: 10, parentName: undefined },
+      { name: 'Orders', kind: 'function', startLine: 2, endLine: 3, parentName: 'Orders' },
+      { name: 'save', kind: 'function', startLine: 5, endLine: 7, parentName: 'Orders' },
+      { name: 'Status', kind: 'class', startLine: 9, endLine: 9, parentName: 'Orders' },
+    ]);
+  });
+
+  it('returns null for languages without a grammar', () => {
+    const file = { path: 'main.rb', content: 'def main; end', language: 'ruby', size: 13 };
+
+    expect(supportsTreeSitter(file)).toBe(false);
+    expect(extractSymbolsWithTreeSitter(file)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { UseCase } from '@github-rag-system/common';
+import { ModelClassifier, RuleBasedClassifier } from '../src/use-case-classifier';
+import { FixedReplyProvider } from './helpers';
+
+describe('RuleBasedClassifier', () => {
+  const classifier = new RuleBasedClassifier();
+
+  it.each([
+    'How do I fix this error?',
+    'How can I debug the crash on startup?',
+    'Why does parseConfig throw a TypeError?',
+    'The upload fails with ECONNRESET',
+  ])('classifies "%s" as bug fixing', async query => {
+    const classification = await classifier.classify(query);
+
+    expect(classification.useCase).toBe(UseCase.BUG_FIXING);
+    expect(classification.useCases[0]).toBe(UseCase.BUG_FIXING);
+    expect(classification.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('keeps the question as an explanation when it asks how to fix an error', async () => {
+    const classification = await classifier.classify('How do I fix this error?');
+
+    expect(classification.useCases).toEqual([UseCase.BUG_FIXING, UseCase.EXPLANATION]);
+  });
+
+  it('classifies a pasted stack trace as bug fixing', async () => {
+    const query = [
+      'TypeError: Cannot read properties of undefined',
+      '    at parse (/app/src/config.js:12:5)',
+      '    at main (/app/src/index.js:3:1)',
+    ].join('\n');
+
+    const classification = await classifier.classify(query);
+
+    expect(classification.useCases).toEqual([UseCase.BUG_FIXING]);
+  });
+
+  it('classifies requests for new code as code generation', async () => {
+    const classification = await classifier.classify('Write a function that validates email addresses');
+
+    expect(classification.useCase).toBe(UseCase.CODE_GENERATION);
+  });
+
+  it('classifies questions about existing code as explanation', async () => {
+    const classification = await classifier.classify('How does the authentication middleware work?');
+
+    expect(classification.useCase).toBe(UseCase.EXPLANATION);
+    expect(classification.useCases).toEqual([UseCase.EXPLANATION]);
+  });
+
+  it('searches every use case when nothing in the query matches', async () => {
+    const classification = await classifier.classify('session tokens');
+
+    expect(classification.useCase).toBe(UseCase.EXPLANATION);
+    expect(classification.confidence).toBe(0);
+    expect(classification.useCases).toHaveLength(3);
+  });
+
+  it('normalizes scores to shares of the total', async () => {
+    const { scores } = await classifier.classify('How do I fix this error?');
+
+    const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+    expect(total).toBeCloseTo(1, 1);
+    expect(scores[UseCase.BUG_FIXING]).toBeGreaterThan(scores[UseCase.EXPLANATION]);
+  });
+});
+
+describe('ModelClassifier', () => {
+  it('uses the scores in the model reply', async () => {
+    const provider = new FixedReplyProvider('{"bug_fixing": 0.1, "code_generation": 0.8, "explanation": 0.1}');
+
+    const classification = await new ModelClassifier(provider).classify('session tokens');
+
+    expect(classification.useCase).toBe(UseCase.CODE_GENERATION);
+    expect(classification.classifier).toBe('fixed');
+    expect(provider.messages[0][1].content).toBe('session tokens');
+  });
+
+  it.each([
+    'not json',
+    '["bug_fixing"]',
+    '{"bug_fixing": "high"}',
+    '{"bug_fixing": -1, "explanation": 2}',
+    '{"bug_fixing": 0, "code_generation": 0, "explanation": 0}',
+  ])('falls back to the rules for the reply %s', async reply => {
+    const classification = await new ModelClassifier(new FixedReplyProvider(reply))
+      .classify('How do I fix this error?');
+
+    expect(classification.classifier).toBe('rules');
+    expect(classification.useCase).toBe(UseCase.BUG_FIXING);
+  });
+
+  it('falls back to the rules when the model fails', async () => {
+    const classification = await new ModelClassifier(new FixedReplyProvider())
+      .classify('Write a function that validates email addresses');
+
+    expect(classification.classifier).toBe('rules');
+    expect(classification.useCase).toBe(UseCase.CODE_GENERATION);
+  });
+
+  it('rethrows when the request is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(new ModelClassifier(new FixedReplyProvider()).classify('query', controller.signal))
+      .rejects.toThrow('model unavailable');
+  });
+});
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WorkDirManager } from '../src/work-dir';
+
+describe('WorkDirManager', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'work-dir-test-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Creates a clone holding a file of the given size and uses it a minute after the previous one
+   */
+  function useClone(manager: WorkDirManager, name: string, size: number, worktreeSize = 0): string {
+    const clonePath = path.join(workDir, 'github.com', 'acme', name);
+    fs.mkdirSync(path.join(clonePath, '.git'), { recursive: true });
+    fs.writeFileSync(path.join(clonePath, '.git', 'pack'), 'x'.repeat(size));
+    if (worktreeSize > 0) {
+      fs.mkdirSync(`${clonePath}.worktrees/0123456789abcdef`, { recursive: true });
+      fs.writeFileSync(`${clonePath}.worktrees/0123456789abcdef/file`, 'x'.repeat(worktreeSize));
+    }
+
+    vi.advanceTimersByTime(60_000);
+    manager.acquire(clonePath);
+    manager.release(clonePath);
+    return clonePath;
+  }
+
+  it('evicts the least recently used clones until the quota is met', async () => {
+    const manager = new WorkDirManager(workDir, 250);
+    const first = useClone(manager, 'first', 100);
+    const second = useClone(manager, 'second', 100);
+    const third = useClone(manager, 'third', 100);
+    // Using the first clone again makes the second one the least recently used
+    useClone(manager, 'first', 100);
+
+    expect(await manager.enforceQuota()).toEqual([second]);
+    expect(fs.existsSync(second)).toBe(false);
+    expect([first, third].every(clonePath => fs.existsSync(clonePath))).toBe(true);
+    expect(Object.keys(JSON.parse(fs.readFileSync(path.join(workDir, 'clones.json'), 'utf-8'))).sort())
+      .toEqual([path.join('github.com', 'acme', 'first'), path.join('github.com', 'acme', 'third')]);
+  });
+
+  it('counts worktrees towards the quota and removes them with their clone', async () => {
+    const manager = new WorkDirManager(workDir, 150);
+    const first = useClone(manager, 'first', 50, 100);
+    useClone(manager, 'second', 50);
+
+    expect(await manager.enforceQuota()).toEqual([first]);
+    expect(fs.existsSync(`${first}.worktrees`)).toBe(false);
+  });
+
+  it('never evicts clones that are in use', async () => {
+    const manager = new WorkDirManager(workDir, 150);
+    const first = useClone(manager, 'first', 100);
+    const second = useClone(manager, 'second', 100);
+    manager.acquire(first);
+    manager.acquire(first);
+    manager.release(first);
+
+    expect(await manager.enforceQuota()).toEqual([second]);
+    expect(fs.existsSync(first)).toBe(true);
+
+    useClone(manager, 'third', 100);
+    manager.acquire(path.join(workDir, 'github.com', 'acme', 'third'));
+    expect(await manager.enforceQuota()).toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('over its quota'));
+  });
+
+  it('keeps every clone without a quota', async () => {
+    const manager = new WorkDirManager(workDir);
+    const clonePath = useClone(manager, 'first', 1000);
+
+    expect(await manager.enforceQuota()).toEqual([]);
+    expect(fs.existsSync(clonePath)).toBe(true);
+  });
+
+  it('stops tracking forgotten clones', async () => {
+    const manager = new WorkDirManager(workDir, 50);
+    const clonePath = useClone(manager, 'first', 100);
+    manager.forget(clonePath);
+
+    expect(await manager.enforceQuota()).toEqual([]);
+    expect(fs.existsSync(clonePath)).toBe(true);
+  });
+});